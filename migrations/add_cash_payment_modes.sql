@@ -0,0 +1,52 @@
+-- =====================================================
+-- Cash-on-Delivery and Pay-on-Pickup
+-- =====================================================
+-- Orders can be paid in cash to a rider (cash_on_delivery) or at the store
+-- (pay_on_pickup). Eligibility comes from the settings below, and customers
+-- flagged by an admin (e.g. after refused deliveries) cannot use either mode.
+
+-- Flagged customers
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS is_flagged BOOLEAN DEFAULT false NOT NULL,
+  ADD COLUMN IF NOT EXISTS flag_reason TEXT,
+  ADD COLUMN IF NOT EXISTS flagged_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS flagged_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_is_flagged ON customers(is_flagged) WHERE is_flagged;
+
+COMMENT ON COLUMN customers.is_flagged IS 'Flagged customers cannot pay cash on delivery or on pickup';
+
+-- Cash transactions for pickup orders
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_payment_method_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_payment_method_check CHECK (
+  payment_method IN ('paystack', 'cash_on_delivery', 'pay_on_pickup', 'mobile_money', 'card')
+);
+
+-- Eligibility settings
+INSERT INTO settings (key, value, category, description)
+SELECT 'cod_enabled', 'true', 'payments', 'Allow cash on delivery'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'cod_enabled');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'cod_max_order_value', '2000', 'payments', 'Largest order total (GHS) that can be paid on delivery; 0 for no limit'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'cod_max_order_value');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'cod_allowed_regions', '', 'payments', 'Comma-separated regions where cash on delivery is offered; empty for all regions'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'cod_allowed_regions');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'pay_on_pickup_enabled', 'true', 'payments', 'Allow paying at the store when collecting a pickup order'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'pay_on_pickup_enabled');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'pay_on_pickup_max_order_value', '0', 'payments', 'Largest order total (GHS) that can be paid on pickup; 0 for no limit'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'pay_on_pickup_max_order_value');
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Cash payment modes added successfully!';
+  RAISE NOTICE '   - customers.is_flagged blocks cash payment';
+  RAISE NOTICE '   - cod_* and pay_on_pickup_* settings seeded';
+END $$;
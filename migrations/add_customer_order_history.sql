@@ -0,0 +1,19 @@
+-- =====================================================
+-- Customer order history: return window and indexes
+-- =====================================================
+-- GET /api/orders/mine reports whether a return can still be started. Returns
+-- are offered for delivered orders for this many days after delivery.
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'return_window_days', '14', 'orders', 'Days after delivery during which customers can start a return'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'return_window_days');
+
+-- Keyset pagination of a customer's orders
+CREATE INDEX IF NOT EXISTS idx_orders_user_id_created_at ON orders(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_customer_id_created_at ON orders(customer_id, created_at DESC, id DESC);
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ return_window_days setting and customer order indexes added';
+END $$;
@@ -0,0 +1,118 @@
+-- =====================================================
+-- Collision-free order and RA numbers
+-- =====================================================
+-- next_document_number(scope, period) hands out the next counter value for a
+-- document type. Per-day counters (period = 'YYYY-MM-DD' in Africa/Accra) live
+-- in document_number_counters and are incremented with a single upsert, so
+-- concurrent callers always get distinct values. Global counters (period NULL)
+-- use the order_number_seq / ra_number_seq sequences.
+-- The number format itself is configured in settings (order_number_format,
+-- ra_number_format) and rendered by the API.
+
+CREATE SEQUENCE IF NOT EXISTS order_number_seq START WITH 1 INCREMENT BY 1;
+CREATE SEQUENCE IF NOT EXISTS ra_number_seq START WITH 1 INCREMENT BY 1;
+
+CREATE TABLE IF NOT EXISTS document_number_counters (
+  scope VARCHAR(50) NOT NULL,
+  period VARCHAR(20) NOT NULL,
+  last_value BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (scope, period)
+);
+
+ALTER TABLE document_number_counters ENABLE ROW LEVEL SECURITY;
+
+-- Start the counters after the numbers already handed out, so the first
+-- numbers issued after deploy cannot repeat existing ones.
+-- Orders so far were ORD-{SEQ:3}{DDMMYY}; the period comes from the date in the number
+INSERT INTO document_number_counters (scope, period, last_value)
+SELECT 'order',
+       '20' || SUBSTRING(m[2], 5, 2) || '-' || SUBSTRING(m[2], 3, 2) || '-' || SUBSTRING(m[2], 1, 2),
+       MAX(m[1]::BIGINT)
+FROM orders, REGEXP_MATCH(order_number, '^ORD-(\d{3,})(\d{6})$') AS m
+WHERE m IS NOT NULL
+GROUP BY 2
+ON CONFLICT (scope, period)
+DO UPDATE SET last_value = GREATEST(document_number_counters.last_value, EXCLUDED.last_value),
+              updated_at = NOW();
+
+-- RA numbers so far were RA-YYYYMMDD-XXXXX
+INSERT INTO document_number_counters (scope, period, last_value)
+SELECT 'return',
+       SUBSTRING(m[1], 1, 4) || '-' || SUBSTRING(m[1], 5, 2) || '-' || SUBSTRING(m[1], 7, 2),
+       MAX(m[2]::BIGINT)
+FROM return_requests, REGEXP_MATCH(return_authorization_number, '^RA-(\d{8})-(\d+)$') AS m
+WHERE m IS NOT NULL
+GROUP BY 2
+ON CONFLICT (scope, period)
+DO UPDATE SET last_value = GREATEST(document_number_counters.last_value, EXCLUDED.last_value),
+              updated_at = NOW();
+
+-- The never-reset sequences continue after the highest counter used on any day
+SELECT setval('order_number_seq', MAX(last_value))
+FROM document_number_counters
+WHERE scope = 'order'
+HAVING MAX(last_value) > (SELECT CASE WHEN is_called THEN last_value ELSE 0 END FROM order_number_seq);
+
+SELECT setval('ra_number_seq', MAX(last_value))
+FROM document_number_counters
+WHERE scope = 'return'
+HAVING MAX(last_value) > (SELECT CASE WHEN is_called THEN last_value ELSE 0 END FROM ra_number_seq);
+
+CREATE OR REPLACE FUNCTION next_document_number(
+  p_scope VARCHAR,
+  p_period VARCHAR DEFAULT NULL
+)
+RETURNS BIGINT AS $$
+DECLARE
+  next_value BIGINT;
+BEGIN
+  IF p_period IS NULL OR p_period = '' THEN
+    IF p_scope = 'order' THEN
+      RETURN nextval('order_number_seq');
+    ELSIF p_scope = 'return' THEN
+      RETURN nextval('ra_number_seq');
+    END IF;
+  END IF;
+
+  INSERT INTO document_number_counters (scope, period, last_value)
+  VALUES (p_scope, COALESCE(NULLIF(p_period, ''), 'global'), 1)
+  ON CONFLICT (scope, period)
+  DO UPDATE SET last_value = document_number_counters.last_value + 1,
+                updated_at = NOW()
+  RETURNING last_value INTO next_value;
+
+  RETURN next_value;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep the SQL helper for RA numbers, now sequence-backed instead of random
+CREATE OR REPLACE FUNCTION generate_ra_number()
+RETURNS VARCHAR(50) AS $$
+DECLARE
+  accra_day VARCHAR(10);
+BEGIN
+  accra_day := TO_CHAR(NOW() AT TIME ZONE 'Africa/Accra', 'YYYY-MM-DD');
+  RETURN 'RA-' || REPLACE(accra_day, '-', '') || '-' || LPAD(next_document_number('return', accra_day)::TEXT, 5, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO settings (key, value, category, description)
+SELECT v.key, v.value, 'orders', v.description
+FROM (VALUES
+  ('order_number_format', 'ORD-{SEQ:3}{DDMMYY}', 'Order number template. Tokens: {SEQ:n} (counter padded to n digits), {YYYY}, {YY}, {MM}, {DD} and combinations such as {DDMMYY}'),
+  ('order_number_reset', 'daily', 'Order number counter reset: daily (Africa/Accra) or never'),
+  ('ra_number_format', 'RA-{YYYYMMDD}-{SEQ:5}', 'Return authorization number template, same tokens as order_number_format'),
+  ('ra_number_reset', 'daily', 'RA number counter reset: daily (Africa/Accra) or never')
+) AS v(key, value, description)
+WHERE NOT EXISTS (SELECT 1 FROM settings s WHERE s.key = v.key);
+
+COMMENT ON TABLE document_number_counters IS 'Per-period counters backing order and RA numbers';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Document number counters installed successfully!';
+  RAISE NOTICE '   - next_document_number(scope, period) RPC';
+  RAISE NOTICE '   - generate_ra_number() now uses counters instead of RANDOM()';
+  RAISE NOTICE '   - Counters seeded from existing order and RA numbers';
+END $$;
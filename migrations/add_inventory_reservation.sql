@@ -0,0 +1,148 @@
+-- =====================================================
+-- Atomic stock reservation and inventory movements
+-- =====================================================
+-- Replaces the read-then-write stock decrement in order creation.
+-- reserve_order_stock locks the product rows, checks every line and only then
+-- decrements, so two simultaneous checkouts can no longer oversell.
+-- release_order_stock gives reserved stock back when an order is cancelled.
+-- Every step is written to inventory_movements.
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+
+  -- reservation (checkout), release (cancellation), adjustment (manual)
+  movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('reservation', 'release', 'adjustment')),
+  quantity INTEGER NOT NULL, -- Signed: negative removes stock, positive adds it back
+  stock_before INTEGER,
+  stock_after INTEGER,
+  reason TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product_id ON inventory_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order_id ON inventory_movements(order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_created_at ON inventory_movements(created_at);
+
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view inventory movements" ON inventory_movements;
+CREATE POLICY "Admins can view inventory movements" ON inventory_movements
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Reserve stock for an order.
+-- p_items: [{ "product_id": "<uuid>", "quantity": 2 }, ...]
+-- Returns { "success": true } or { "success": false, "shortages": [...] } without touching stock.
+CREATE OR REPLACE FUNCTION reserve_order_stock(
+  p_order_id UUID,
+  p_items JSONB,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  item RECORD;
+  current_stock INTEGER;
+  shortages JSONB := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order to avoid deadlocks between concurrent checkouts
+  FOR item IN
+    SELECT (elem->>'product_id')::uuid AS product_id, SUM((elem->>'quantity')::int) AS quantity
+    FROM jsonb_array_elements(p_items) elem
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT COALESCE(stock_quantity, 0) INTO current_stock
+    FROM products
+    WHERE id = item.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR current_stock < item.quantity THEN
+      shortages := shortages || jsonb_build_object(
+        'product_id', item.product_id,
+        'requested', item.quantity,
+        'available', COALESCE(current_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(shortages) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'shortages', shortages);
+  END IF;
+
+  FOR item IN
+    SELECT (elem->>'product_id')::uuid AS product_id, SUM((elem->>'quantity')::int) AS quantity
+    FROM jsonb_array_elements(p_items) elem
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    UPDATE products
+    SET stock_quantity = COALESCE(stock_quantity, 0) - item.quantity,
+        in_stock = (COALESCE(stock_quantity, 0) - item.quantity) > 0,
+        updated_at = NOW()
+    WHERE id = item.product_id
+    RETURNING stock_quantity INTO current_stock;
+
+    INSERT INTO inventory_movements (product_id, order_id, movement_type, quantity, stock_before, stock_after, reason, created_by)
+    VALUES (item.product_id, p_order_id, 'reservation', -item.quantity, current_stock + item.quantity, current_stock, 'Order checkout', p_created_by);
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release whatever is still reserved for an order. Safe to call more than once:
+-- only the net outstanding reservation per product is restored.
+CREATE OR REPLACE FUNCTION release_order_stock(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  item RECORD;
+  current_stock INTEGER;
+  released JSONB := '[]'::jsonb;
+BEGIN
+  FOR item IN
+    SELECT product_id, -SUM(quantity) AS outstanding
+    FROM inventory_movements
+    WHERE order_id = p_order_id
+      AND movement_type IN ('reservation', 'release')
+    GROUP BY product_id
+    HAVING SUM(quantity) < 0
+    ORDER BY product_id
+  LOOP
+    UPDATE products
+    SET stock_quantity = COALESCE(stock_quantity, 0) + item.outstanding,
+        in_stock = true,
+        updated_at = NOW()
+    WHERE id = item.product_id
+    RETURNING stock_quantity INTO current_stock;
+
+    INSERT INTO inventory_movements (product_id, order_id, movement_type, quantity, stock_before, stock_after, reason, created_by)
+    VALUES (item.product_id, p_order_id, 'release', item.outstanding, current_stock - item.outstanding, current_stock, COALESCE(p_reason, 'Order cancelled'), p_created_by);
+
+    released := released || jsonb_build_object('product_id', item.product_id, 'quantity', item.outstanding);
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'released', released);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE inventory_movements IS 'Ledger of stock changes caused by checkouts, cancellations and manual adjustments';
+COMMENT ON COLUMN inventory_movements.quantity IS 'Signed quantity: negative removes stock, positive returns it';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Inventory reservation installed successfully!';
+  RAISE NOTICE '   - inventory_movements ledger created';
+  RAISE NOTICE '   - reserve_order_stock(order_id, items, created_by) RPC';
+  RAISE NOTICE '   - release_order_stock(order_id, reason, created_by) RPC';
+END $$;
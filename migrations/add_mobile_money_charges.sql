@@ -0,0 +1,24 @@
+-- =====================================================
+-- Direct Mobile Money Charges
+-- =====================================================
+-- Mobile money payments can be charged directly (Paystack charge API)
+-- instead of through the hosted checkout page. The charge's progress is
+-- kept on the transaction so the storefront can drive the in-page flow:
+-- send_otp -> pay_offline -> success / failed.
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS charge_status VARCHAR(30);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS charge_message TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS mobile_money_provider VARCHAR(10);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS mobile_money_phone VARCHAR(20);
+
+-- Add comments for documentation
+COMMENT ON COLUMN transactions.charge_status IS 'Step of a direct charge: initiated, send_otp, pay_offline, pending, success or failed';
+COMMENT ON COLUMN transactions.charge_message IS 'Instruction or error from the provider to show the customer';
+COMMENT ON COLUMN transactions.mobile_money_provider IS 'Mobile money network: mtn, vod (Vodafone Cash) or atl (AirtelTigo)';
+COMMENT ON COLUMN transactions.mobile_money_phone IS 'Mobile money number charged';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Mobile money charge columns added successfully!';
+END $$;
@@ -0,0 +1,33 @@
+-- =====================================================
+-- Order Review Flags
+-- =====================================================
+-- An order placed by the payment webhook is already paid for, so checkout
+-- checks that would reject it (changed prices, not enough stock) keep the
+-- order and record why it needs a look in orders.review_flags. A paid
+-- charge no order could be created for is kept on its transaction under
+-- metadata.unplaced_order for refund. A prepaid pickup order that is not
+-- collected in time is flagged refund_due instead of being cancelled.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS review_flags JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE order_pickups ADD COLUMN IF NOT EXISTS refund_flagged_at TIMESTAMP WITH TIME ZONE;
+
+-- Orders waiting for review
+CREATE INDEX IF NOT EXISTS idx_orders_review_flags
+  ON orders(created_at)
+  WHERE jsonb_array_length(review_flags) > 0;
+
+-- Paid charges without an order
+CREATE INDEX IF NOT EXISTS idx_transactions_unplaced_order
+  ON transactions(created_at)
+  WHERE metadata->'unplaced_order'->>'status' = 'pending_refund';
+
+-- Add comments for documentation
+COMMENT ON COLUMN orders.review_flags IS 'Problems needing an admin: price_changed (with price_changes) or backorder (with shortages) on an already-paid order, refund_due on an uncollected prepaid pickup';
+COMMENT ON COLUMN order_pickups.refund_flagged_at IS 'Set when a prepaid pickup expired uncollected and was flagged for refund instead of cancelled';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Order review flags migration completed successfully!';
+END $$;
@@ -0,0 +1,31 @@
+-- =====================================================
+-- Payment Amount Verification
+-- =====================================================
+-- Successful charges are checked against the order total and must be in
+-- GHS. A charge that falls short leaves the order partially_paid instead
+-- of paid; the comparison is kept in transactions.metadata.amount_verification
+-- and overpayments are flagged there (metadata.overpayment) for refund.
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_payment_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_payment_status_check CHECK (
+  payment_status IN ('pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded')
+);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_payment_status_check CHECK (
+  payment_status IN ('pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded')
+);
+
+-- Transactions waiting for an overpayment refund
+CREATE INDEX IF NOT EXISTS idx_transactions_overpayment
+  ON transactions(created_at)
+  WHERE metadata->'overpayment'->>'status' = 'pending_refund';
+
+-- Add comments for documentation
+COMMENT ON COLUMN transactions.metadata IS 'Additional payment data including checkout_data, user details, amount_verification and overpayment';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Payment amount verification migration completed successfully!';
+END $$;
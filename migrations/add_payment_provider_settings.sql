@@ -0,0 +1,25 @@
+-- =====================================================
+-- Payment Provider per Payment Method
+-- =====================================================
+-- Online payments go through a provider chosen per payment method with the
+-- payment_provider_<method> settings ('paystack', or 'mock' for local
+-- development; the mock provider is never used in production).
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'payment_provider_paystack', 'paystack', 'payments', 'Provider for card and Paystack checkout payments'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'payment_provider_paystack');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'payment_provider_mobile_money', 'paystack', 'payments', 'Provider for mobile money payments'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'payment_provider_mobile_money');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'payment_provider_card', 'paystack', 'payments', 'Provider for card payments'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'payment_provider_card');
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Payment provider settings added successfully!';
+  RAISE NOTICE '   - payment_provider_paystack, payment_provider_mobile_money, payment_provider_card seeded';
+END $$;
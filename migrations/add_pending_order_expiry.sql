@@ -0,0 +1,25 @@
+-- =====================================================
+-- Expiry of Unpaid Pending Orders
+-- =====================================================
+-- Orders placed before Paystack confirms payment stay pending until the
+-- webhook arrives. A background job verifies each one with Paystack after
+-- the expiry window and cancels those still unpaid, releasing their stock.
+
+-- Index for the sweeper's lookup of old unpaid orders
+CREATE INDEX IF NOT EXISTS idx_orders_unpaid_pending ON orders(created_at)
+  WHERE status = 'pending' AND payment_status = 'pending';
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'pending_order_expiry_minutes', '60', 'orders', 'Minutes an unpaid online-payment order is kept before it is cancelled; 0 to never expire'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'pending_order_expiry_minutes');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'pending_order_expiry_email_enabled', 'true', 'orders', 'Email customers a link to complete payment when their unpaid order expires'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'pending_order_expiry_email_enabled');
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Pending order expiry settings added successfully!';
+  RAISE NOTICE '   - pending_order_expiry_minutes and pending_order_expiry_email_enabled seeded';
+END $$;
@@ -0,0 +1,43 @@
+-- =====================================================
+-- Server-side tax calculation
+-- =====================================================
+-- Orders now store the tax lines they were charged (orders.tax_breakdown) and
+-- the taxes table gains the two fields needed for stacked levies:
+--   priority - evaluation order (lower first)
+--   compound - charged on the base plus the non-compound taxes before it
+-- Ghana's VAT is charged on the price plus NHIL, GETFund and the COVID levy,
+-- so the levies are ordinary taxes and VAT is compound.
+
+ALTER TABLE taxes
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE taxes
+ADD COLUMN IF NOT EXISTS compound BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS tax_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_taxes_active_priority ON taxes(is_active, priority);
+
+-- Ghana levies. Inserted inactive so enabling them is an explicit admin decision.
+INSERT INTO taxes (name, description, rate, type, applies_to, priority, compound, is_active)
+SELECT v.name, v.description, v.rate, 'percentage', 'products', v.priority, v.compound, false
+FROM (VALUES
+  ('NHIL', 'National Health Insurance Levy', 0.0250, 10, false),
+  ('GETFund Levy', 'Ghana Education Trust Fund Levy', 0.0250, 10, false),
+  ('COVID-19 Health Recovery Levy', 'COVID-19 Health Recovery Levy', 0.0100, 10, false),
+  ('VAT', 'Value Added Tax, charged on the price plus levies', 0.1500, 20, true)
+) AS v(name, description, rate, priority, compound)
+WHERE NOT EXISTS (SELECT 1 FROM taxes t WHERE t.name = v.name);
+
+COMMENT ON COLUMN taxes.priority IS 'Evaluation order, lower first';
+COMMENT ON COLUMN taxes.compound IS 'Charged on the taxable base plus preceding non-compound taxes';
+COMMENT ON COLUMN orders.tax_breakdown IS 'Tax lines charged on the order: [{ tax_id, name, rate, type, applies_to, compound, taxable_amount, amount }]';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Tax breakdown installed successfully!';
+  RAISE NOTICE '   - taxes.priority and taxes.compound added';
+  RAISE NOTICE '   - orders.tax_breakdown added';
+  RAISE NOTICE '   - Ghana levies seeded (inactive)';
+END $$;
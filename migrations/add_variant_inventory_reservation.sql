@@ -0,0 +1,217 @@
+-- =====================================================
+-- Variant-level inventory for stock reservation
+-- =====================================================
+-- Extends reserve_order_stock / release_order_stock so order lines that carry a
+-- variant combination reserve and restore product_variant_stock rows (or, for
+-- products stocked per single option, product_attribute_option_mappings rows)
+-- as well as the product total. Requires migrations/add_inventory_reservation.sql.
+
+ALTER TABLE inventory_movements
+ADD COLUMN IF NOT EXISTS variant_stock_id UUID REFERENCES product_variant_stock(id) ON DELETE SET NULL;
+
+ALTER TABLE inventory_movements
+ADD COLUMN IF NOT EXISTS option_mapping_id UUID REFERENCES product_attribute_option_mappings(id) ON DELETE SET NULL;
+
+ALTER TABLE inventory_movements
+ADD COLUMN IF NOT EXISTS variant_combination JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_variant_stock_id ON inventory_movements(variant_stock_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_option_mapping_id ON inventory_movements(option_mapping_id);
+CREATE INDEX IF NOT EXISTS idx_product_variant_stock_product_id ON product_variant_stock(product_id);
+
+-- p_items: [{ "product_id": "<uuid>", "quantity": 2, "variant_stock_id": "<uuid or null>", "option_mapping_id": "<uuid or null>" }, ...]
+-- Variant lines are checked against product_variant_stock, single-option lines
+-- against product_attribute_option_mappings; the product total is decremented
+-- alongside (never below zero) so listings stay consistent.
+CREATE OR REPLACE FUNCTION reserve_order_stock(
+  p_order_id UUID,
+  p_items JSONB,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  item RECORD;
+  current_stock INTEGER;
+  variant_available BOOLEAN;
+  variant_combo JSONB;
+  product_before INTEGER;
+  shortages JSONB := '[]'::jsonb;
+BEGIN
+  FOR item IN
+    SELECT (elem->>'product_id')::uuid AS product_id,
+           NULLIF(elem->>'variant_stock_id', '')::uuid AS variant_stock_id,
+           NULLIF(elem->>'option_mapping_id', '')::uuid AS option_mapping_id,
+           SUM((elem->>'quantity')::int) AS quantity
+    FROM jsonb_array_elements(p_items) elem
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2 NULLS FIRST, 3 NULLS FIRST
+  LOOP
+    IF item.variant_stock_id IS NOT NULL THEN
+      SELECT COALESCE(stock_quantity, 0), COALESCE(is_available, true) INTO current_stock, variant_available
+      FROM product_variant_stock
+      WHERE id = item.variant_stock_id AND product_id = item.product_id
+      FOR UPDATE;
+    ELSIF item.option_mapping_id IS NOT NULL THEN
+      SELECT COALESCE(stock_quantity, 0), COALESCE(is_available, true) INTO current_stock, variant_available
+      FROM product_attribute_option_mappings
+      WHERE id = item.option_mapping_id AND product_id = item.product_id
+      FOR UPDATE;
+    ELSE
+      SELECT COALESCE(stock_quantity, 0) INTO current_stock
+      FROM products
+      WHERE id = item.product_id
+      FOR UPDATE;
+      variant_available := true;
+    END IF;
+
+    IF NOT FOUND OR NOT variant_available OR current_stock < item.quantity THEN
+      shortages := shortages || jsonb_build_object(
+        'product_id', item.product_id,
+        'variant_stock_id', item.variant_stock_id,
+        'option_mapping_id', item.option_mapping_id,
+        'requested', item.quantity,
+        'available', CASE WHEN variant_available THEN COALESCE(current_stock, 0) ELSE 0 END
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(shortages) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'shortages', shortages);
+  END IF;
+
+  FOR item IN
+    SELECT (elem->>'product_id')::uuid AS product_id,
+           NULLIF(elem->>'variant_stock_id', '')::uuid AS variant_stock_id,
+           NULLIF(elem->>'option_mapping_id', '')::uuid AS option_mapping_id,
+           SUM((elem->>'quantity')::int) AS quantity
+    FROM jsonb_array_elements(p_items) elem
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2 NULLS FIRST, 3 NULLS FIRST
+  LOOP
+    variant_combo := NULL;
+
+    IF item.variant_stock_id IS NOT NULL THEN
+      UPDATE product_variant_stock
+      SET stock_quantity = stock_quantity - item.quantity,
+          updated_at = NOW()
+      WHERE id = item.variant_stock_id
+      RETURNING stock_quantity, variant_combination INTO current_stock, variant_combo;
+    ELSIF item.option_mapping_id IS NOT NULL THEN
+      UPDATE product_attribute_option_mappings
+      SET stock_quantity = COALESCE(stock_quantity, 0) - item.quantity
+      WHERE id = item.option_mapping_id
+      RETURNING stock_quantity INTO current_stock;
+
+      SELECT jsonb_build_object(attr.name, opt.value) INTO variant_combo
+      FROM product_attribute_option_mappings mapping
+      JOIN product_attributes attr ON attr.id = mapping.attribute_id
+      JOIN product_attribute_options opt ON opt.id = mapping.option_id
+      WHERE mapping.id = item.option_mapping_id;
+    END IF;
+
+    SELECT COALESCE(stock_quantity, 0) INTO product_before FROM products WHERE id = item.product_id;
+
+    UPDATE products
+    SET stock_quantity = GREATEST(COALESCE(stock_quantity, 0) - item.quantity, 0),
+        in_stock = GREATEST(COALESCE(stock_quantity, 0) - item.quantity, 0) > 0,
+        updated_at = NOW()
+    WHERE id = item.product_id;
+
+    INSERT INTO inventory_movements (
+      product_id, variant_stock_id, option_mapping_id, variant_combination, order_id, movement_type,
+      quantity, stock_before, stock_after, reason, created_by
+    )
+    VALUES (
+      item.product_id, item.variant_stock_id, item.option_mapping_id, variant_combo, p_order_id, 'reservation',
+      -item.quantity,
+      CASE WHEN COALESCE(item.variant_stock_id, item.option_mapping_id) IS NULL THEN product_before ELSE current_stock + item.quantity END,
+      CASE WHEN COALESCE(item.variant_stock_id, item.option_mapping_id) IS NULL THEN GREATEST(product_before - item.quantity, 0) ELSE current_stock END,
+      'Order checkout', p_created_by
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION release_order_stock(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  item RECORD;
+  current_stock INTEGER;
+  product_after INTEGER;
+  variant_combo JSONB;
+  released JSONB := '[]'::jsonb;
+BEGIN
+  FOR item IN
+    SELECT product_id, variant_stock_id, option_mapping_id,
+           (ARRAY_AGG(variant_combination) FILTER (WHERE variant_combination IS NOT NULL))[1] AS variant_combination,
+           -SUM(quantity) AS outstanding
+    FROM inventory_movements
+    WHERE order_id = p_order_id
+      AND movement_type IN ('reservation', 'release')
+    GROUP BY product_id, variant_stock_id, option_mapping_id
+    HAVING SUM(quantity) < 0
+    ORDER BY product_id, variant_stock_id NULLS FIRST, option_mapping_id NULLS FIRST
+  LOOP
+    variant_combo := item.variant_combination;
+
+    IF item.variant_stock_id IS NOT NULL THEN
+      UPDATE product_variant_stock
+      SET stock_quantity = stock_quantity + item.outstanding,
+          updated_at = NOW()
+      WHERE id = item.variant_stock_id
+      RETURNING stock_quantity, variant_combination INTO current_stock, variant_combo;
+    ELSIF item.option_mapping_id IS NOT NULL THEN
+      UPDATE product_attribute_option_mappings
+      SET stock_quantity = COALESCE(stock_quantity, 0) + item.outstanding
+      WHERE id = item.option_mapping_id
+      RETURNING stock_quantity INTO current_stock;
+    END IF;
+
+    UPDATE products
+    SET stock_quantity = COALESCE(stock_quantity, 0) + item.outstanding,
+        in_stock = true,
+        updated_at = NOW()
+    WHERE id = item.product_id
+    RETURNING stock_quantity INTO product_after;
+
+    IF COALESCE(item.variant_stock_id, item.option_mapping_id) IS NULL THEN
+      current_stock := product_after;
+    END IF;
+
+    INSERT INTO inventory_movements (
+      product_id, variant_stock_id, option_mapping_id, variant_combination, order_id, movement_type,
+      quantity, stock_before, stock_after, reason, created_by
+    )
+    VALUES (
+      item.product_id, item.variant_stock_id, item.option_mapping_id, variant_combo, p_order_id, 'release',
+      item.outstanding, current_stock - item.outstanding, current_stock,
+      COALESCE(p_reason, 'Order cancelled'), p_created_by
+    );
+
+    released := released || jsonb_build_object(
+      'product_id', item.product_id,
+      'variant_stock_id', item.variant_stock_id,
+      'option_mapping_id', item.option_mapping_id,
+      'quantity', item.outstanding
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'released', released);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN inventory_movements.variant_stock_id IS 'product_variant_stock row affected, NULL for product-level stock';
+COMMENT ON COLUMN inventory_movements.option_mapping_id IS 'product_attribute_option_mappings row affected, for products stocked per single option';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Variant-level inventory installed successfully!';
+  RAISE NOTICE '   - inventory_movements now records variant_stock_id and variant_combination';
+  RAISE NOTICE '   - reserve_order_stock / release_order_stock handle product_variant_stock and option mapping rows';
+END $$;
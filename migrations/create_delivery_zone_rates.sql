@@ -0,0 +1,67 @@
+-- =====================================================
+-- Zone-based delivery rates
+-- =====================================================
+-- Each delivery option can carry zone rules keyed on the customer's region
+-- and/or city. A rule can be limited to a weight band and an order-value band
+-- and can make delivery free above a threshold. Options without rules are
+-- charged their base price everywhere; options with rules are only offered
+-- where one of their rules matches.
+
+CREATE TABLE IF NOT EXISTS delivery_zone_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_option_id UUID NOT NULL REFERENCES delivery_options(id) ON DELETE CASCADE,
+  name VARCHAR(255),
+
+  -- NULL matches any region / city. Compared case-insensitively.
+  region VARCHAR(100),
+  city VARCHAR(100),
+
+  price NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  price_per_kg NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (price_per_kg >= 0),
+
+  -- Bands are inclusive; NULL means unbounded
+  min_weight NUMERIC(10,2),
+  max_weight NUMERIC(10,2),
+  min_order_value NUMERIC(10,2),
+  max_order_value NUMERIC(10,2),
+  free_shipping_threshold NUMERIC(10,2),
+
+  estimated_days INTEGER,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_zone_rates_option_id ON delivery_zone_rates(delivery_option_id);
+CREATE INDEX IF NOT EXISTS idx_delivery_zone_rates_region_city ON delivery_zone_rates(LOWER(region), LOWER(city));
+
+DROP TRIGGER IF EXISTS update_delivery_zone_rates_updated_at ON delivery_zone_rates;
+CREATE TRIGGER update_delivery_zone_rates_updated_at
+  BEFORE UPDATE ON delivery_zone_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_delivery_options_updated_at();
+
+ALTER TABLE delivery_zone_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active delivery zone rates" ON delivery_zone_rates;
+CREATE POLICY "Anyone can view active delivery zone rates" ON delivery_zone_rates
+  FOR SELECT USING (is_active = true);
+
+DROP POLICY IF EXISTS "Admins can manage delivery zone rates" ON delivery_zone_rates;
+CREATE POLICY "Admins can manage delivery zone rates" ON delivery_zone_rates
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+COMMENT ON TABLE delivery_zone_rates IS 'Region/city pricing rules for delivery options';
+COMMENT ON COLUMN delivery_zone_rates.free_shipping_threshold IS 'Order value (before discount) at or above which delivery is free';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Delivery zone rates installed successfully!';
+  RAISE NOTICE '   - delivery_zone_rates table created';
+END $$;
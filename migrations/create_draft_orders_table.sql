@@ -0,0 +1,87 @@
+-- =====================================================
+-- Create Draft Orders (Quotes) Table
+-- =====================================================
+-- Orders built by sales staff for phone/WhatsApp customers. A draft is priced
+-- server-side but holds no stock. It can be sent as a PDF quote with an expiry
+-- and is converted into a real order when the customer opens the tokenized
+-- payment link and pays.
+
+CREATE TABLE IF NOT EXISTS draft_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quote_number VARCHAR(50) NOT NULL UNIQUE,
+
+  -- Customer
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  customer_name VARCHAR(255),
+  customer_email VARCHAR(255),
+  customer_phone VARCHAR(50),
+  delivery_address JSONB,
+  delivery_option JSONB, -- Quoted delivery option (id, name, price, ...)
+
+  -- Priced lines: [{ product_id, deal_product_id, product_name, quantity, unit_price, subtotal, selected_variants }]
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  discount_code VARCHAR(100),
+  discount_id UUID, -- Discount record, usage is committed when the draft becomes an order
+  tax DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  tax_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  shipping_fee DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+
+  -- Lifecycle
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'converted', 'cancelled')),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  payment_token VARCHAR(100) UNIQUE, -- Secret in the customer's payment link
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_draft_orders_status ON draft_orders(status);
+CREATE INDEX IF NOT EXISTS idx_draft_orders_customer_id ON draft_orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_draft_orders_created_at ON draft_orders(created_at);
+
+-- RLS (Row Level Security)
+ALTER TABLE draft_orders ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view all draft orders (customers only reach them through the backend via the payment token)
+DROP POLICY IF EXISTS "Admins can view all draft orders" ON draft_orders;
+CREATE POLICY "Admins can view all draft orders" ON draft_orders
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Quote numbers come from next_document_number('quote', ...)
+INSERT INTO settings (key, value, category, description)
+SELECT v.key, v.value, 'orders', v.description
+FROM (VALUES
+  ('quote_number_format', 'QT-{YYYYMMDD}-{SEQ:4}', 'Quote (draft order) number template, same tokens as order_number_format'),
+  ('quote_number_reset', 'daily', 'Quote number counter reset: daily (Africa/Accra) or never'),
+  ('quote_validity_days', '7', 'Days a quote and its payment link stay valid after being sent')
+) AS v(key, value, description)
+WHERE NOT EXISTS (SELECT 1 FROM settings s WHERE s.key = v.key);
+
+-- Add comments for documentation
+COMMENT ON TABLE draft_orders IS 'Admin-built draft orders and quotes; converted to orders through a payment link';
+COMMENT ON COLUMN draft_orders.items IS 'Server-priced lines; these prices are honoured until the quote expires';
+COMMENT ON COLUMN draft_orders.payment_token IS 'Random token in the payment link, issued when the quote is sent';
+COMMENT ON COLUMN draft_orders.order_id IS 'Order created from this draft when the customer started payment';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Draft orders table created successfully!';
+  RAISE NOTICE '   - Quotes hold prices but no stock';
+  RAISE NOTICE '   - quote_number_format, quote_number_reset and quote_validity_days settings added';
+END $$;
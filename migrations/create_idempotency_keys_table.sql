@@ -0,0 +1,47 @@
+-- =====================================================
+-- Create Idempotency Keys Table
+-- =====================================================
+-- Stores the outcome of requests sent with an Idempotency-Key header
+-- (checkout and payment initialization) so a retried request replays the
+-- first response instead of creating a second order or Paystack reference.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scope VARCHAR(50) NOT NULL, -- Endpoint the key was used on, e.g. 'orders:create'
+  caller VARCHAR(100) NOT NULL, -- 'user:<id>' or 'guest:<hash of client address and user agent>'
+  idempotency_key VARCHAR(255) NOT NULL,
+  request_hash VARCHAR(64) NOT NULL, -- SHA-256 of method, path and body
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+
+  locked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+  UNIQUE (scope, caller, idempotency_key)
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- RLS (Row Level Security) - only the backend (service role) reads or writes keys
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE idempotency_keys IS 'Stored responses for requests retried with the same Idempotency-Key';
+COMMENT ON COLUMN idempotency_keys.caller IS 'Who sent the key; the same key from another caller is a separate request';
+COMMENT ON COLUMN idempotency_keys.status IS 'processing while the first request runs, completed once its response is stored';
+COMMENT ON COLUMN idempotency_keys.locked_at IS 'When the current attempt started; stale locks can be taken over';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Idempotency keys table created successfully!';
+  RAISE NOTICE '   - Keys are scoped to the calling user or guest';
+  RAISE NOTICE '   - Keys expire after 24 hours and are deleted by a scheduled job';
+END $$;
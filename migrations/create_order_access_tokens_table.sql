@@ -0,0 +1,51 @@
+-- =====================================================
+-- Create Order Access Tokens Table
+-- =====================================================
+-- Passwordless links that let a guest view one order, download its invoice,
+-- cancel it while pending and start a return. The link carries a signed
+-- token (token id, order id, expiry); this table makes each token revocable.
+
+CREATE TABLE IF NOT EXISTS order_access_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  email VARCHAR(255), -- Address the link was sent to
+
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_order_access_tokens_order_id ON order_access_tokens(order_id);
+
+-- RLS (Row Level Security)
+ALTER TABLE order_access_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view all order access tokens (guests only reach them through the backend)
+DROP POLICY IF EXISTS "Admins can view all order access tokens" ON order_access_tokens;
+CREATE POLICY "Admins can view all order access tokens" ON order_access_tokens
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'order_access_token_days', '30', 'orders', 'Days a guest order link from the confirmation email stays valid'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'order_access_token_days');
+
+-- Add comments for documentation
+COMMENT ON TABLE order_access_tokens IS 'Revocable guest access links scoped to a single order';
+COMMENT ON COLUMN order_access_tokens.expires_at IS 'Also embedded in the signed token; both must be in the future';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Order access tokens table created successfully!';
+  RAISE NOTICE '   - Tokens are signed with ORDER_ACCESS_TOKEN_SECRET (falls back to JWT_SECRET)';
+  RAISE NOTICE '   - order_access_token_days setting added';
+END $$;
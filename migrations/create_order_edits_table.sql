@@ -0,0 +1,54 @@
+-- =====================================================
+-- Create Order Edits Table
+-- =====================================================
+-- Audit trail for admin line-item edits: who changed an order, why, and a
+-- snapshot of the items and totals before and after the change
+
+CREATE TABLE IF NOT EXISTS order_edits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  -- Context
+  edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  edited_by_role VARCHAR(20),
+  reason TEXT,
+
+  -- Snapshots: { subtotal, discount, tax, shipping_fee, total, items: [...] }
+  before_snapshot JSONB NOT NULL,
+  after_snapshot JSONB NOT NULL,
+
+  -- Line-level summary, e.g. [{ type: 'quantity_changed', product_name, from, to }]
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  customer_notified BOOLEAN NOT NULL DEFAULT false,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_order_edits_order_id ON order_edits(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_edits_created_at ON order_edits(created_at);
+
+-- RLS (Row Level Security)
+ALTER TABLE order_edits ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view all order edits
+DROP POLICY IF EXISTS "Admins can view all order edits" ON order_edits;
+CREATE POLICY "Admins can view all order edits" ON order_edits
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE order_edits IS 'Admin edits to order line items with before/after snapshots';
+COMMENT ON COLUMN order_edits.before_snapshot IS 'Items and totals before the edit';
+COMMENT ON COLUMN order_edits.after_snapshot IS 'Items and totals after the edit';
+COMMENT ON COLUMN order_edits.changes IS 'Lines added, removed or changed by the edit';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Order edits table created successfully!';
+  RAISE NOTICE '   - Records actor, reason and before/after snapshots of each edit';
+END $$;
@@ -0,0 +1,65 @@
+-- =====================================================
+-- Store Pickup
+-- =====================================================
+-- Orders placed with a pickup delivery option move to ready_for_pickup once
+-- packed. Each gets a short pickup code (also sent as a QR code) that staff
+-- check together with the customer's phone before handing the order over.
+-- Uncollected orders are reminded and, after the hold period, cancelled.
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check CHECK (
+  status IN ('pending', 'processing', 'partially_shipped', 'shipped', 'ready_for_pickup', 'delivered', 'cancelled')
+);
+
+CREATE TABLE IF NOT EXISTS order_pickups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  pickup_code VARCHAR(12) NOT NULL,
+
+  ready_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Auto-cancel after this if not collected
+  reminders_sent INTEGER DEFAULT 0 NOT NULL,
+  last_reminded_at TIMESTAMP WITH TIME ZONE,
+
+  collected_at TIMESTAMP WITH TIME ZONE,
+  collected_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE, -- Set when the hold period ran out
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_order_pickups_open ON order_pickups(expires_at)
+  WHERE collected_at IS NULL AND cancelled_at IS NULL;
+
+-- RLS (Row Level Security)
+ALTER TABLE order_pickups ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view all pickups (customers only see their code through the backend)
+DROP POLICY IF EXISTS "Admins can view all order pickups" ON order_pickups;
+CREATE POLICY "Admins can view all order pickups" ON order_pickups
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'pickup_hold_days', '7', 'orders', 'Days a ready pickup order is held before it is cancelled'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'pickup_hold_days');
+
+INSERT INTO settings (key, value, category, description)
+SELECT 'pickup_reminder_interval_hours', '48', 'orders', 'Hours between reminders for uncollected pickup orders'
+WHERE NOT EXISTS (SELECT 1 FROM settings WHERE key = 'pickup_reminder_interval_hours');
+
+-- Add comments for documentation
+COMMENT ON TABLE order_pickups IS 'Pickup codes and collection state for store pickup orders';
+COMMENT ON COLUMN order_pickups.pickup_code IS 'Short code shown to staff at collection, also encoded in the QR code';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Order pickups table created successfully!';
+  RAISE NOTICE '   - Orders status now includes ready_for_pickup';
+END $$;
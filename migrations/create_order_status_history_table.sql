@@ -0,0 +1,66 @@
+-- =====================================================
+-- Create Order Status History Table
+-- =====================================================
+-- Records every order status change (who, when, from, to, note, tracking number)
+-- so customers and support can see a proper order timeline
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  -- Transition
+  from_status VARCHAR(50), -- NULL for the initial status when the order is created
+  to_status VARCHAR(50) NOT NULL,
+
+  -- Context
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for system/guest changes
+  changed_by_role VARCHAR(20),
+  note TEXT,
+  tracking_number VARCHAR(100),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_created_at ON order_status_history(created_at);
+
+-- RLS (Row Level Security)
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the history of their own orders
+DROP POLICY IF EXISTS "Users can view their own order status history" ON order_status_history;
+CREATE POLICY "Users can view their own order status history" ON order_status_history
+  FOR SELECT USING (
+    order_id IN (SELECT id FROM orders WHERE user_id = auth.uid())
+  );
+
+-- Admins can view all order status history
+DROP POLICY IF EXISTS "Admins can view all order status history" ON order_status_history;
+CREATE POLICY "Admins can view all order status history" ON order_status_history
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Backfill an initial entry for existing orders so every order has a timeline
+INSERT INTO order_status_history (order_id, from_status, to_status, note, tracking_number, created_at)
+SELECT o.id, NULL, COALESCE(o.status, 'pending'), 'Backfilled from existing order', o.tracking_number, COALESCE(o.created_at, NOW())
+FROM orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_history h WHERE h.order_id = o.id
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE order_status_history IS 'Timeline of order status changes, written by the backend on every transition';
+COMMENT ON COLUMN order_status_history.from_status IS 'Status before the change (NULL for the initial entry)';
+COMMENT ON COLUMN order_status_history.changed_by IS 'User who made the change (NULL for system or guest changes)';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Order status history table created successfully!';
+  RAISE NOTICE '   - Records from/to status, actor, note and tracking number';
+  RAISE NOTICE '   - Existing orders backfilled with their current status';
+END $$;
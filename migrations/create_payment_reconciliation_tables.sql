@@ -0,0 +1,78 @@
+-- =====================================================
+-- Payment Reconciliation
+-- =====================================================
+-- A reconciliation run compares the provider's transaction list for a date
+-- range with our transactions and orders. Each mismatch becomes an item an
+-- admin can fix (link the charge to an order, mark the order paid, sync the
+-- amount or status, check the charge against the order total) or ignore.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider VARCHAR(50) NOT NULL,
+  date_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  date_to TIMESTAMP WITH TIME ZONE NOT NULL,
+  status VARCHAR(20) DEFAULT 'running' NOT NULL CHECK (status IN ('running', 'completed', 'failed')),
+  summary JSONB DEFAULT '{}'::jsonb NOT NULL, -- Counts of charges checked and mismatches by type
+  error TEXT,
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for the daily job
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL CHECK (type IN ('orphan_charge', 'amount_mismatch', 'total_mismatch', 'missing_webhook', 'status_drift')),
+  reference VARCHAR(255),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+
+  provider_status VARCHAR(50),
+  provider_amount DECIMAL(10, 2), -- GHS
+  recorded_status VARCHAR(50),
+  recorded_amount DECIMAL(10, 2), -- GHS
+  details JSONB DEFAULT '{}'::jsonb NOT NULL,
+
+  status VARCHAR(20) DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'resolved', 'ignored')),
+  resolution VARCHAR(50), -- Fix applied
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started_at ON reconciliation_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_run ON reconciliation_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_open ON reconciliation_items(type) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_orders_payment_reference ON orders((shipping_address->>'payment_reference'));
+
+-- RLS (Row Level Security)
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view reconciliation results
+DROP POLICY IF EXISTS "Admins can view reconciliation runs" ON reconciliation_runs;
+CREATE POLICY "Admins can view reconciliation runs" ON reconciliation_runs
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view reconciliation items" ON reconciliation_items;
+CREATE POLICY "Admins can view reconciliation items" ON reconciliation_items
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE reconciliation_runs IS 'Comparisons of provider transactions with our transactions and orders';
+COMMENT ON TABLE reconciliation_items IS 'Mismatches found by a reconciliation run and how they were resolved';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Payment reconciliation tables created successfully!';
+END $$;
@@ -0,0 +1,128 @@
+-- =====================================================
+-- Refunds Ledger
+-- =====================================================
+-- Each full or partial refund of a transaction issued through Paystack.
+-- A refund starts as pending, and Paystack's refund.processed or
+-- refund.failed webhook settles it. Failed refunds do not count towards
+-- the amount already refunded.
+
+-- Transactions and orders can be partly refunded
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_payment_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_payment_status_check CHECK (
+  payment_status IN ('pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded')
+);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_payment_status_check CHECK (
+  payment_status IN ('pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded')
+);
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0), -- GHS
+  currency VARCHAR(3) DEFAULT 'GHS' NOT NULL,
+  reason TEXT,
+  status VARCHAR(20) DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+  failure_reason TEXT,
+
+  provider VARCHAR(50) DEFAULT 'paystack' NOT NULL,
+  provider_refund_id VARCHAR(255), -- Paystack refund id, matched by the refund webhooks
+  transaction_reference VARCHAR(255) NOT NULL, -- Reference the refund was issued against
+
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_refunds_transaction ON refunds(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_order ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_provider_refund_id ON refunds(provider_refund_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_transaction_reference ON refunds(transaction_reference);
+
+-- Record a refund only if it fits in what is left of the payment. The
+-- transaction row is locked while the balance is checked and the refund
+-- inserted, so concurrent refunds cannot both take the same balance.
+-- p_amount NULL refunds the whole remaining balance.
+CREATE OR REPLACE FUNCTION create_refund(
+  p_transaction_id UUID,
+  p_amount DECIMAL DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_provider VARCHAR DEFAULT 'paystack',
+  p_transaction_reference VARCHAR DEFAULT NULL,
+  p_requested_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  txn RECORD;
+  refunded DECIMAL;
+  refundable DECIMAL;
+  refund_amount DECIMAL;
+  refund refunds%ROWTYPE;
+BEGIN
+  SELECT id, order_id, amount, currency INTO txn
+  FROM transactions
+  WHERE id = p_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO refunded
+  FROM refunds
+  WHERE transaction_id = p_transaction_id
+    AND status IN ('pending', 'processing', 'processed');
+
+  refundable := ROUND(COALESCE(txn.amount, 0) - refunded, 2);
+  refund_amount := ROUND(COALESCE(p_amount, refundable), 2);
+
+  IF refundable <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'fully_refunded', 'refundable', 0);
+  END IF;
+
+  IF refund_amount <= 0 OR refund_amount > refundable THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_amount', 'refundable', refundable);
+  END IF;
+
+  INSERT INTO refunds (
+    transaction_id, order_id, amount, currency, reason, status,
+    provider, transaction_reference, requested_by
+  )
+  VALUES (
+    txn.id, txn.order_id, refund_amount, COALESCE(txn.currency, 'GHS'), p_reason, 'pending',
+    p_provider, p_transaction_reference, p_requested_by
+  )
+  RETURNING * INTO refund;
+
+  RETURN jsonb_build_object('success', true, 'refund', to_jsonb(refund));
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS (Row Level Security)
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view all refunds
+DROP POLICY IF EXISTS "Admins can view all refunds" ON refunds;
+CREATE POLICY "Admins can view all refunds" ON refunds
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE refunds IS 'Full and partial refunds issued against payment transactions';
+COMMENT ON COLUMN refunds.status IS 'pending until Paystack reports the refund processed or failed';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Refunds table created successfully!';
+  RAISE NOTICE '   - payment_status now includes partially_refunded';
+  RAISE NOTICE '   - create_refund(...) checks the balance and records a refund atomically';
+END $$;
@@ -0,0 +1,47 @@
+-- =====================================================
+-- Create Saved Order Searches Table
+-- =====================================================
+-- Named filter and sort combinations for the admin order search, kept per
+-- admin. Filters use the same grammar as the search and export query params.
+
+CREATE TABLE IF NOT EXISTS saved_order_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort VARCHAR(50) NOT NULL DEFAULT 'created_at',
+  direction VARCHAR(4) NOT NULL DEFAULT 'desc' CHECK (direction IN ('asc', 'desc')),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+  UNIQUE (admin_id, name)
+);
+
+-- Keyset pagination and the sortable columns of the order search
+CREATE INDEX IF NOT EXISTS idx_orders_total_id ON orders(total, id);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_method ON orders(payment_method);
+CREATE INDEX IF NOT EXISTS idx_orders_discount_code ON orders(discount_code);
+CREATE INDEX IF NOT EXISTS idx_orders_shipping_region ON orders((shipping_address->>'region'));
+
+-- RLS (Row Level Security) - admins only reach saved searches through the backend
+ALTER TABLE saved_order_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view their saved order searches" ON saved_order_searches;
+CREATE POLICY "Admins can view their saved order searches" ON saved_order_searches
+  FOR SELECT USING (
+    auth.uid() = admin_id AND auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE saved_order_searches IS 'Per-admin saved filters for the order search';
+COMMENT ON COLUMN saved_order_searches.filters IS 'Order search filter grammar, e.g. {"status": ["pending"], "region": "Greater Accra"}';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Saved order searches table created successfully!';
+END $$;
@@ -0,0 +1,88 @@
+-- =====================================================
+-- Shipments (multi-parcel fulfilment)
+-- =====================================================
+-- An order can be fulfilled in several shipments, each covering specific order
+-- items and quantities with its own carrier and tracking number. The order
+-- status is derived from its shipments: partially_shipped while some items are
+-- still waiting, shipped once everything has left, delivered once every
+-- shipment has arrived.
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check CHECK (
+  status IN ('pending', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled')
+);
+
+CREATE TABLE IF NOT EXISTS shipments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  carrier VARCHAR(100),
+  tracking_number VARCHAR(255),
+  tracking_url TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'shipped', 'delivered', 'cancelled')),
+  notes TEXT,
+
+  shipped_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS shipment_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id UUID NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (shipment_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order_id ON shipments(order_id);
+CREATE INDEX IF NOT EXISTS idx_shipments_tracking_number ON shipments(tracking_number);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment_id ON shipment_items(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_order_item_id ON shipment_items(order_item_id);
+
+ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipment_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view shipments of their orders" ON shipments;
+CREATE POLICY "Users can view shipments of their orders" ON shipments
+  FOR SELECT USING (
+    order_id IN (SELECT id FROM orders WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Admins can manage shipments" ON shipments;
+CREATE POLICY "Admins can manage shipments" ON shipments
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view shipment items of their orders" ON shipment_items;
+CREATE POLICY "Users can view shipment items of their orders" ON shipment_items
+  FOR SELECT USING (
+    shipment_id IN (
+      SELECT s.id FROM shipments s JOIN orders o ON o.id = s.order_id WHERE o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage shipment items" ON shipment_items;
+CREATE POLICY "Admins can manage shipment items" ON shipment_items
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+COMMENT ON TABLE shipments IS 'Parcels sent for an order, each with its own carrier and tracking number';
+COMMENT ON TABLE shipment_items IS 'Order items (and quantities) contained in a shipment';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Shipments installed successfully!';
+  RAISE NOTICE '   - shipments and shipment_items tables created';
+  RAISE NOTICE '   - orders.status now allows partially_shipped';
+END $$;
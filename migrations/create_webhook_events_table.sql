@@ -0,0 +1,58 @@
+-- =====================================================
+-- Webhook Event Log
+-- =====================================================
+-- Every payment provider webhook is stored with its payload, whether its
+-- signature checked out, and how processing went. Events are de-duplicated
+-- by (provider, event_id) so provider retries of a processed event are
+-- acknowledged without running twice, and failed events can be replayed.
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider VARCHAR(50) NOT NULL,
+  event_id VARCHAR(255), -- NULL for events rejected on signature
+  event_type VARCHAR(100),
+  reference VARCHAR(255), -- Transaction reference from the payload, for lookups
+
+  payload JSONB NOT NULL,
+  signature_valid BOOLEAN NOT NULL,
+  status VARCHAR(20) DEFAULT 'received' NOT NULL CHECK (status IN ('received', 'processing', 'processed', 'failed', 'rejected')),
+  response_status INTEGER, -- HTTP status our handler produced
+  error TEXT,
+  attempts INTEGER DEFAULT 0 NOT NULL,
+
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  replayed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+  UNIQUE (provider, event_id)
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_reference ON webhook_events(reference);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON webhook_events(received_at DESC);
+
+-- RLS (Row Level Security)
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view all webhook events
+DROP POLICY IF EXISTS "Admins can view all webhook events" ON webhook_events;
+CREATE POLICY "Admins can view all webhook events" ON webhook_events
+  FOR SELECT USING (
+    auth.uid() IN (
+      SELECT id FROM users WHERE role IN ('admin', 'superadmin')
+    )
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE webhook_events IS 'Payment provider webhooks with signature result and processing status';
+COMMENT ON COLUMN webhook_events.event_id IS 'Provider event id, or event type plus payload id when the provider sends none';
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Webhook events table created successfully!';
+END $$;
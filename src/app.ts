@@ -24,9 +24,12 @@ import notificationRoutes from './routes/notification.routes';
 import exportRoutes from './routes/export.routes';
 import testRoutes from './routes/test.routes';
 import returnRequestRoutes from './routes/returnRequest.routes';
+import deliveryRoutes from './routes/delivery.routes';
+import draftOrderRoutes from './routes/draftOrder.routes';
 import { errorHandler, notFound } from './middleware/error.middleware';
 import { sanitizeInput } from './middleware/sanitize.middleware';
 import { requestTimeout } from './middleware/timeout.middleware';
+import { captureRawBody, isRawBodyPath } from './middleware/rawBody.middleware';
 
 // Initialize Sentry FIRST (before creating Express app)
 initSentry();
@@ -146,12 +149,17 @@ app.use(cors({
     callback(null, true);
   },
   credentials: true,
+  exposedHeaders: ['X-Bulk-Report', 'Idempotent-Replayed'],
 }));
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Request timeout - 30 seconds default
-app.use(requestTimeout(30000));
+// Request timeout - 30 seconds default, bulk order operations work through many orders
+const defaultTimeout = requestTimeout(30000);
+const bulkOrderTimeout = requestTimeout(120000);
+app.use((req, res, next) =>
+  (req.path.startsWith('/api/orders/bulk/') ? bulkOrderTimeout : defaultTimeout)(req, res, next)
+);
 
 // Input sanitization for POST, PUT, PATCH requests (XSS prevention)
 // Skip sanitization for certain routes that may contain HTML intentionally
@@ -161,6 +169,7 @@ app.use((req, res, next) => {
   if (
     req.path.includes('/upload') ||
     req.path.includes('/presign') ||
+    isRawBodyPath(req.path) || // Webhook payloads are stored and verified exactly as sent
     contentType.includes('multipart/form-data')
   ) {
     return next();
@@ -216,6 +225,8 @@ app.use('/api/customers', customerRoutes);
 app.use('/api/cart', cartRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/export', exportRoutes);
+app.use('/api/delivery', deliveryRoutes);
+app.use('/api/draft-orders', draftOrderRoutes);
 app.use('/api/test', testRoutes);
 app.use('/api/return-requests', returnRequestRoutes); // Sentry test endpoints
 
@@ -83,21 +83,143 @@ const options: swaggerJsdoc.Options = {
             subtotal: { type: 'number' },
             discount: { type: 'number' },
             tax: { type: 'number' },
+            tax_breakdown: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/OrderTaxLine' },
+            },
             shipping_fee: { type: 'number' },
             total: { type: 'number' },
             status: {
               type: 'string',
-              enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled'],
+              enum: ['pending', 'processing', 'partially_shipped', 'shipped', 'ready_for_pickup', 'delivered', 'cancelled'],
             },
             payment_status: {
               type: 'string',
-              enum: ['pending', 'paid', 'failed', 'refunded'],
+              enum: ['pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded'],
             },
             payment_method: { type: 'string' },
             shipping_address: { type: 'object' },
             discount_code: { type: 'string' },
             notes: { type: 'string' },
             created_at: { type: 'string', format: 'date-time' },
+            status_history: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/OrderStatusHistory' },
+            },
+            shipments: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/Shipment' },
+            },
+          },
+        },
+        Shipment: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            order_id: { type: 'string', format: 'uuid' },
+            carrier: { type: 'string' },
+            tracking_number: { type: 'string' },
+            tracking_url: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'shipped', 'delivered', 'cancelled'] },
+            shipped_at: { type: 'string', format: 'date-time' },
+            delivered_at: { type: 'string', format: 'date-time' },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  order_item_id: { type: 'string', format: 'uuid' },
+                  quantity: { type: 'integer' },
+                },
+              },
+            },
+          },
+        },
+        DraftOrder: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            quote_number: { type: 'string' },
+            customer_id: { type: 'string', format: 'uuid' },
+            customer_name: { type: 'string' },
+            customer_email: { type: 'string' },
+            customer_phone: { type: 'string' },
+            items: { type: 'array', items: { type: 'object' } },
+            subtotal: { type: 'number' },
+            discount: { type: 'number' },
+            tax: { type: 'number' },
+            tax_breakdown: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/OrderTaxLine' },
+            },
+            shipping_fee: { type: 'number' },
+            total: { type: 'number' },
+            status: { type: 'string', enum: ['draft', 'sent', 'converted', 'cancelled'] },
+            expires_at: { type: 'string', format: 'date-time' },
+            payment_url: { type: 'string' },
+            order_id: { type: 'string', format: 'uuid' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        OrderEdit: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            edited_by: { type: 'string', format: 'uuid' },
+            edited_by_role: { type: 'string' },
+            reason: { type: 'string' },
+            before_snapshot: { type: 'object' },
+            after_snapshot: { type: 'object' },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['added', 'removed', 'quantity_changed', 'variants_changed', 'price_changed'] },
+                  order_item_id: { type: 'string', format: 'uuid' },
+                  product_name: { type: 'string' },
+                },
+              },
+            },
+            customer_notified: { type: 'boolean' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        BulkOrderResult: {
+          type: 'object',
+          properties: {
+            order_id: { type: 'string', format: 'uuid', nullable: true },
+            order_number: { type: 'string', nullable: true },
+            row: { type: 'integer', description: 'CSV row number (tracking import only)' },
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+        OrderTaxLine: {
+          type: 'object',
+          properties: {
+            tax_id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            rate: { type: 'number', description: 'Fraction, e.g. 0.15 for 15%' },
+            type: { type: 'string', enum: ['percentage', 'fixed'] },
+            applies_to: { type: 'string', enum: ['all', 'products', 'shipping', 'total'] },
+            compound: { type: 'boolean' },
+            taxable_amount: { type: 'number' },
+            amount: { type: 'number' },
+          },
+        },
+        OrderStatusHistory: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            from_status: { type: 'string', nullable: true },
+            to_status: { type: 'string' },
+            changed_by: { type: 'string', format: 'uuid', nullable: true },
+            changed_by_role: { type: 'string', nullable: true },
+            note: { type: 'string', nullable: true },
+            tracking_number: { type: 'string', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
           },
         },
         Transaction: {
@@ -117,12 +239,28 @@ const options: swaggerJsdoc.Options = {
             },
             payment_status: {
               type: 'string',
-              enum: ['pending', 'paid', 'failed', 'refunded', 'cancelled'],
+              enum: ['pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded', 'cancelled'],
             },
             metadata: { type: 'object' },
             created_at: { type: 'string', format: 'date-time' },
           },
         },
+        Refund: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            transaction_id: { type: 'string', format: 'uuid' },
+            order_id: { type: 'string', format: 'uuid' },
+            amount: { type: 'number' },
+            currency: { type: 'string', example: 'GHS' },
+            reason: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'processing', 'processed', 'failed'] },
+            failure_reason: { type: 'string' },
+            provider_refund_id: { type: 'string' },
+            processed_at: { type: 'string', format: 'date-time' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
         Coupon: {
           type: 'object',
           properties: {
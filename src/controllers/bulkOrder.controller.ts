@@ -0,0 +1,220 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { OrderController } from './order.controller';
+import pdfService, { OrderDocumentType } from '../services/pdf.service';
+import { BULK_ORDER_LIMIT, BulkOrderResult, bulkOrderService } from '../services/bulkOrder.service';
+
+const ORDER_DOCUMENT_SELECT = `
+  *,
+  user:users!orders_user_id_fkey(id, first_name, last_name, email),
+  customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+  order_items:order_items(*)
+`;
+
+export class BulkOrderController {
+  private orderController = new OrderController();
+
+  // Move many orders to one status, with the same emails and side effects as the single update (admin)
+  async updateStatus(req: AuthRequest, res: Response) {
+    try {
+      const { order_ids, filter, status, notes } = req.body;
+
+      const selection = await bulkOrderService.resolveOrders({ order_ids, filter });
+      if (selection.errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: selection.errors.join('; '),
+        });
+      }
+      if (selection.exceedsLimit) {
+        return this.tooManyOrders(res);
+      }
+
+      const results: BulkOrderResult[] = selection.missing.map((id) => ({
+        order_id: id,
+        order_number: null,
+        success: false,
+        message: 'Order not found',
+      }));
+
+      for (const order of selection.orders) {
+        try {
+          const result = await this.orderController.applyStatusChange(order.id, { status, notes }, req.user);
+          results.push(
+            result.success
+              ? { order_id: order.id, order_number: order.order_number, success: true, message: `Status set to ${status}` }
+              : {
+                  order_id: order.id,
+                  order_number: order.order_number,
+                  success: false,
+                  message: result.message,
+                  ...(result.data ? { data: result.data } : {}),
+                }
+          );
+        } catch (error) {
+          console.error(`Bulk status update failed for order ${order.id}:`, error);
+          results.push({
+            order_id: order.id,
+            order_number: order.order_number,
+            success: false,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      res.json({
+        success: true,
+        message: 'Bulk status update finished',
+        data: {
+          summary: bulkOrderService.summarize(results),
+          results,
+        },
+      });
+    } catch (error) {
+      console.error('Error in bulk status update:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update order statuses',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Assign tracking numbers from an uploaded CSV, one shipment per row (admin)
+  async importTracking(req: AuthRequest, res: Response) {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: 'A CSV file is required (field name: file)',
+        });
+      }
+
+      const { rows, errors } = bulkOrderService.parseTrackingCsv(req.file.buffer);
+      if (rows.length === 0 && errors.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'The CSV file has no rows. Expected columns: order_number or order_id, tracking_number, carrier, tracking_url',
+        });
+      }
+
+      if (rows.length > BULK_ORDER_LIMIT) {
+        return this.tooManyOrders(res);
+      }
+
+      const results: BulkOrderResult[] = [...errors];
+      for (const row of rows) {
+        try {
+          results.push(await bulkOrderService.assignTracking(row, req.user));
+        } catch (error) {
+          console.error(`Tracking import failed for CSV row ${row.row}:`, error);
+          results.push({
+            order_id: row.order_id || null,
+            order_number: row.order_number || null,
+            row: row.row,
+            success: false,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      results.sort((a, b) => (a.row || 0) - (b.row || 0));
+
+      res.json({
+        success: true,
+        message: 'Tracking import finished',
+        data: {
+          summary: bulkOrderService.summarize(results),
+          results,
+        },
+      });
+    } catch (error) {
+      console.error('Error importing tracking numbers:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to import tracking numbers',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // One merged PDF of invoices or packing slips; per-order results go in the X-Bulk-Report header (admin)
+  async downloadDocuments(req: AuthRequest, res: Response) {
+    try {
+      const { order_ids, filter } = req.body;
+      const type: OrderDocumentType = req.body.type || 'invoice';
+
+      const selection = await bulkOrderService.resolveOrders({ order_ids, filter }, ORDER_DOCUMENT_SELECT);
+      if (selection.errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: selection.errors.join('; '),
+        });
+      }
+      if (selection.exceedsLimit) {
+        return this.tooManyOrders(res);
+      }
+
+      const results: BulkOrderResult[] = selection.missing.map((id) => ({
+        order_id: id,
+        order_number: null,
+        success: false,
+        message: 'Order not found',
+      }));
+
+      const printable = selection.orders.filter((order: any) => {
+        const items = order.order_items || [];
+        if (items.length === 0) {
+          results.push({ order_id: order.id, order_number: order.order_number, success: false, message: 'Order has no items' });
+          return false;
+        }
+        results.push({ order_id: order.id, order_number: order.order_number, success: true, message: 'Included' });
+        return true;
+      });
+
+      if (printable.length === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'No printable orders found',
+          data: {
+            summary: bulkOrderService.summarize(results),
+            results,
+          },
+        });
+      }
+
+      const pdfBuffer = await pdfService.generateBulkOrderPDF(printable, type);
+      const filename = `${type === 'packing_slip' ? 'packing-slips' : 'invoices'}-${new Date().toISOString().slice(0, 10)}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+      res.setHeader(
+        'X-Bulk-Report',
+        JSON.stringify({
+          summary: bulkOrderService.summarize(results),
+          failed: results
+            .filter((result) => !result.success)
+            .map(({ order_id, order_number, message }) => ({ order_id, order_number, message })),
+        })
+      );
+
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error('Error generating bulk order PDF:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to generate order documents',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private tooManyOrders(res: Response) {
+    return res.status(400).json({
+      success: false,
+      message: `Bulk operations are limited to ${BULK_ORDER_LIMIT} orders. Narrow the filter or send fewer orders.`,
+      data: { limit: BULK_ORDER_LIMIT },
+    });
+  }
+}
@@ -2,9 +2,7 @@ import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { supabaseAdmin } from '../utils/supabaseClient';
 import { errorResponse, successResponse } from '../utils/responseHandlers';
-
-const buildCartSelect = () =>
-  `id, quantity, selected_variants, product:products(*)`;
+import { cartService } from '../services/cart.service';
 
 export class CartController {
   async getCart(req: AuthRequest, res: Response) {
@@ -14,17 +12,9 @@ export class CartController {
         return errorResponse(res, 'Unauthorized', 401);
       }
 
-      const { data, error } = await supabaseAdmin
-        .from('cart_items')
-        .select(buildCartSelect())
-        .eq('user_id', userId)
-        .order('updated_at', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
+      const data = await cartService.getCart(userId);
 
-      return successResponse(res, data || [], 'Cart fetched successfully');
+      return successResponse(res, data, 'Cart fetched successfully');
     } catch (error: any) {
       console.error('Error fetching cart:', error);
       return errorResponse(res, error?.message || 'Failed to fetch cart');
@@ -39,41 +29,13 @@ export class CartController {
       }
 
       const items = Array.isArray(req.body?.items) ? req.body.items : [];
-
-      // Clear existing cart for user
-      const { error: deleteError } = await supabaseAdmin
-        .from('cart_items')
-        .delete()
-        .eq('user_id', userId);
-
-      if (deleteError) {
-        throw deleteError;
-      }
+      const data = await cartService.replaceCart(userId, items);
 
       if (items.length === 0) {
         return successResponse(res, [], 'Cart cleared successfully');
       }
 
-      const now = new Date().toISOString();
-      const payload = items.map((item: any) => ({
-        user_id: userId,
-        product_id: item.product_id,
-        quantity: Number(item.quantity) || 1,
-        selected_variants: item.selected_variants || {},
-        created_at: now,
-        updated_at: now,
-      }));
-
-      const { data, error } = await supabaseAdmin
-        .from('cart_items')
-        .upsert(payload, { onConflict: 'user_id,product_id' })
-        .select(buildCartSelect());
-
-      if (error) {
-        throw error;
-      }
-
-      return successResponse(res, data || [], 'Cart updated successfully');
+      return successResponse(res, data, 'Cart updated successfully');
     } catch (error: any) {
       console.error('Error replacing cart:', error);
       return errorResponse(res, error?.message || 'Failed to update cart');
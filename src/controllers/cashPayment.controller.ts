@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { cashPaymentService } from '../services/cashPayment.service';
+
+export class CashPaymentController {
+  // Which cash modes checkout can offer for a basket; re-checked when the order is placed
+  async getOptions(req: AuthRequest, res: Response) {
+    try {
+      const { total, region, delivery_option_id } = req.body;
+
+      let deliveryType: 'delivery' | 'pickup' = 'delivery';
+      if (delivery_option_id) {
+        const { data: option, error } = await supabaseAdmin
+          .from('delivery_options')
+          .select('type')
+          .eq('id', delivery_option_id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (option?.type === 'pickup') deliveryType = 'pickup';
+      }
+
+      const options = await cashPaymentService.getOptions({
+        total,
+        region,
+        deliveryType,
+        userId: req.user?.id || null,
+      });
+
+      res.json({
+        success: true,
+        data: options,
+      });
+    } catch (error) {
+      console.error('Error checking cash payment options:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to check cash payment options',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Rider or store staff confirms the cash was handed over (admin)
+  async confirmCollection(req: AuthRequest, res: Response) {
+    try {
+      const { amount, reference, notes } = req.body;
+
+      const result = await cashPaymentService.recordCollection(
+        String(req.params.id),
+        { amount, reference, notes },
+        req.user
+      );
+
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Cash payment recorded',
+        data: {
+          order: result.order,
+          transaction: result.transaction,
+        },
+      });
+    } catch (error) {
+      console.error('Error recording cash collection:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to record cash payment',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
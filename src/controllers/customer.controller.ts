@@ -40,6 +40,8 @@ export class CustomerController {
           source,
           created_at,
           last_order_at,
+          is_flagged,
+          flag_reason,
           user:users!customers_user_id_fkey(
             id,
             full_name,
@@ -204,6 +206,23 @@ export class CustomerController {
     }
   }
 
+  // Flag or unflag a customer; flagged customers cannot pay cash on delivery or pickup
+  async setCustomerFlag(req: AuthRequest, res: Response) {
+    try {
+      const { flagged, reason } = req.body;
+
+      const customer = await customerService.setFlag(String(req.params.id), flagged, reason, req.user?.id || null);
+      if (!customer) {
+        return errorResponse(res, 'Customer not found', 404);
+      }
+
+      return successResponse(res, customer, flagged ? 'Customer flagged' : 'Customer flag removed');
+    } catch (error: any) {
+      console.error('Error updating customer flag:', error);
+      return errorResponse(res, error?.message || 'Failed to update customer flag', 500);
+    }
+  }
+
   async searchCustomers(req: AuthRequest, res: Response) {
     try {
       const query = typeof req.query.q === 'string' ? req.query.q : '';
@@ -0,0 +1,220 @@
+import { Request, Response } from 'express';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { successResponse, errorResponse } from '../utils/responseHandlers';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { deliveryService } from '../services/delivery.service';
+import { pricingService } from '../services/pricing.service';
+
+// Public: active delivery options (without zone pricing)
+export const getDeliveryOptions = async (req: Request, res: Response) => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('delivery_options')
+      .select('id, name, description, price, estimated_days, type, display_order')
+      .eq('is_active', true)
+      .order('display_order', { ascending: true });
+
+    if (error) throw error;
+
+    return successResponse(res, data || []);
+  } catch (error: any) {
+    console.error('Get delivery options error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+// Admin: every option with its zone rates
+export const getAllDeliveryOptions = async (req: AuthRequest, res: Response) => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('delivery_options')
+      .select('*, zone_rates:delivery_zone_rates(*)')
+      .order('display_order', { ascending: true });
+
+    if (error) throw error;
+
+    return successResponse(res, data || []);
+  } catch (error: any) {
+    console.error('Get all delivery options error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+export const createDeliveryOption = async (req: AuthRequest, res: Response) => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('delivery_options')
+      .insert([req.body])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return successResponse(res, data, 'Delivery option created successfully', 201);
+  } catch (error: any) {
+    console.error('Create delivery option error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+export const updateDeliveryOption = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabaseAdmin
+      .from('delivery_options')
+      .update({ ...req.body, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return errorResponse(res, 'Delivery option not found', 404);
+    }
+
+    return successResponse(res, data, 'Delivery option updated successfully');
+  } catch (error: any) {
+    console.error('Update delivery option error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+export const deleteDeliveryOption = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('delivery_options')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    return successResponse(res, null, 'Delivery option deleted successfully');
+  } catch (error: any) {
+    console.error('Delete delivery option error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+export const getZoneRates = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabaseAdmin
+      .from('delivery_zone_rates')
+      .select('*')
+      .eq('delivery_option_id', id)
+      .order('priority', { ascending: false });
+
+    if (error) throw error;
+
+    return successResponse(res, data || []);
+  } catch (error: any) {
+    console.error('Get zone rates error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+export const createZoneRate = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data: option, error: optionError } = await supabaseAdmin
+      .from('delivery_options')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (optionError) throw optionError;
+    if (!option) {
+      return errorResponse(res, 'Delivery option not found', 404);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('delivery_zone_rates')
+      .insert([{ ...req.body, delivery_option_id: id }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return successResponse(res, data, 'Zone rate created successfully', 201);
+  } catch (error: any) {
+    console.error('Create zone rate error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+export const updateZoneRate = async (req: AuthRequest, res: Response) => {
+  try {
+    const { rateId } = req.params;
+
+    const { data, error } = await supabaseAdmin
+      .from('delivery_zone_rates')
+      .update({ ...req.body, updated_at: new Date().toISOString() })
+      .eq('id', rateId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return errorResponse(res, 'Zone rate not found', 404);
+    }
+
+    return successResponse(res, data, 'Zone rate updated successfully');
+  } catch (error: any) {
+    console.error('Update zone rate error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+export const deleteZoneRate = async (req: AuthRequest, res: Response) => {
+  try {
+    const { rateId } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('delivery_zone_rates')
+      .delete()
+      .eq('id', rateId);
+
+    if (error) throw error;
+
+    return successResponse(res, null, 'Zone rate deleted successfully');
+  } catch (error: any) {
+    console.error('Delete zone rate error:', error);
+    return errorResponse(res, error.message);
+  }
+};
+
+// Public: delivery options available for an address and cart, priced server-side
+export const quoteDelivery = async (req: Request, res: Response) => {
+  try {
+    const { address, items } = req.body;
+
+    // Order value comes from catalogue prices, the same way checkout computes it
+    const pricing = await pricingService.priceOrderItems(
+      items.map((item: any) => ({
+        product_id: item.product_id,
+        quantity: item.quantity,
+        selected_variants: item.selected_variants || null,
+      }))
+    );
+
+    const quotes = await deliveryService.quote({
+      region: address.region,
+      city: address.city,
+      items,
+      order_value: pricing.subtotal,
+    });
+
+    return successResponse(res, {
+      order_value: pricing.subtotal,
+      options: quotes,
+    });
+  } catch (error: any) {
+    console.error('Delivery quote error:', error);
+    return errorResponse(res, error.message);
+  }
+};
@@ -0,0 +1,635 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import enhancedEmailService from '../services/enhanced-email.service';
+import pdfService from '../services/pdf.service';
+import { customerService } from '../services/customer.service';
+import { documentNumberService } from '../services/documentNumber.service';
+import { DraftOrderInput, OPEN_DRAFT_STATUSES, draftOrderService } from '../services/draftOrder.service';
+import { paymentService } from '../services/payment.service';
+
+const DRAFT_SELECT = `
+  *,
+  customer:customers!draft_orders_customer_id_fkey(id, full_name, email, phone, source),
+  order:orders!draft_orders_order_id_fkey(id, order_number, status, payment_status)
+`;
+
+// Quote orders that can still be charged the full total
+const PAYABLE_PAYMENT_STATUSES = ['pending', 'failed'];
+
+const getFrontendUrl = () =>
+  (process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_API_URL || 'https://hogtechgh.com').replace(/\/$/, '');
+
+const getPaymentUrl = (token: string) => `${getFrontendUrl()}/quote/${token}`;
+
+export class DraftOrderController {
+  // List draft orders (admin)
+  async getDraftOrders(req: AuthRequest, res: Response) {
+    try {
+      const { status, page = 1, limit = 10, search } = req.query;
+
+      const pageNum = parseInt(page as string);
+      const limitNum = parseInt(limit as string);
+      const offset = (pageNum - 1) * limitNum;
+
+      let query = supabaseAdmin
+        .from('draft_orders')
+        .select(DRAFT_SELECT, { count: 'exact' });
+
+      if (status && status !== 'all') {
+        query = query.eq('status', status as string);
+      }
+
+      if (search) {
+        query = query.or(
+          ['quote_number', 'customer_name', 'customer_email', 'customer_phone']
+            .map((column) => `${column}.ilike.%${search}%`)
+            .join(',')
+        );
+      }
+
+      const { data, error, count } = await query
+        .range(offset, offset + limitNum - 1)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      res.json({
+        success: true,
+        data: data || [],
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total: count || 0,
+          totalPages: Math.ceil((count || 0) / limitNum),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching draft orders:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch draft orders',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Get a draft order (admin)
+  async getDraftOrder(req: AuthRequest, res: Response) {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('draft_orders')
+        .select(DRAFT_SELECT)
+        .eq('id', String(req.params.id))
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return res.status(404).json({
+          success: false,
+          message: 'Draft order not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...data,
+          is_expired: draftOrderService.isExpired(data),
+          payment_url: data.payment_token ? getPaymentUrl(data.payment_token) : null,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching draft order:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch draft order',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Build a draft order for a customer, priced server-side; no stock is reserved (admin)
+  async createDraftOrder(req: AuthRequest, res: Response) {
+    try {
+      const { customer_id, user_id, customer, items, delivery_address, delivery_option_id, discount_code, notes } = req.body;
+
+      const contact = await this.resolveCustomer(customer_id, customer);
+      if (!contact) {
+        return res.status(400).json({
+          success: false,
+          message: 'Customer not found',
+        });
+      }
+
+      const result = await draftOrderService.price({ items, delivery_address, delivery_option_id, discount_code });
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          data: result.data,
+        });
+      }
+
+      const { pricing } = result;
+      const { data, error } = await supabaseAdmin
+        .from('draft_orders')
+        .insert({
+          quote_number: await documentNumberService.next('quote'),
+          customer_id: customer_id || null,
+          user_id: user_id || contact.user_id || null,
+          customer_name: contact.full_name,
+          customer_email: contact.email,
+          customer_phone: contact.phone,
+          delivery_address: delivery_address || null,
+          delivery_option: pricing.delivery_option,
+          items: pricing.items,
+          subtotal: pricing.subtotal,
+          discount: pricing.discount,
+          discount_code: pricing.discount_code,
+          discount_id: pricing.discount_id,
+          tax: pricing.tax,
+          tax_breakdown: pricing.tax_breakdown,
+          shipping_fee: pricing.shipping_fee,
+          total: pricing.total,
+          notes: notes || null,
+          status: 'draft',
+          created_by: req.user?.id || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      res.status(201).json({
+        success: true,
+        message: 'Draft order created successfully',
+        data,
+      });
+    } catch (error) {
+      console.error('Error creating draft order:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create draft order',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Change a draft and price it again (admin). Editing a quote that was
+   * already sent revokes its payment link; send it again to issue a new one.
+   */
+  async updateDraftOrder(req: AuthRequest, res: Response) {
+    try {
+      const draft = await draftOrderService.getDraft(String(req.params.id));
+      if (!draft) {
+        return res.status(404).json({
+          success: false,
+          message: 'Draft order not found',
+        });
+      }
+
+      if (!OPEN_DRAFT_STATUSES.includes(draft.status)) {
+        return res.status(409).json({
+          success: false,
+          message: `A ${draft.status} draft order cannot be edited`,
+        });
+      }
+
+      const { customer_id, user_id, customer, items, delivery_address, delivery_option_id, discount_code, notes } = req.body;
+
+      const updateData: Record<string, any> = {
+        status: 'draft',
+        payment_token: null,
+        expires_at: null,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (customer_id !== undefined || customer !== undefined) {
+        const contact = await this.resolveCustomer(customer_id, customer);
+        if (!contact) {
+          return res.status(400).json({
+            success: false,
+            message: 'Customer not found',
+          });
+        }
+        updateData.customer_id = customer_id || null;
+        updateData.customer_name = contact.full_name;
+        updateData.customer_email = contact.email;
+        updateData.customer_phone = contact.phone;
+        if (contact.user_id) updateData.user_id = contact.user_id;
+      }
+      if (user_id !== undefined) updateData.user_id = user_id || null;
+      if (notes !== undefined) updateData.notes = notes || null;
+
+      const input: DraftOrderInput = {
+        items: items ?? (draft.items || []),
+        delivery_address: delivery_address !== undefined ? delivery_address : draft.delivery_address,
+        delivery_option_id: delivery_option_id !== undefined ? delivery_option_id : draft.delivery_option?.id || null,
+        discount_code: discount_code !== undefined ? discount_code : draft.discount_code,
+      };
+
+      const result = await draftOrderService.price(input);
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          data: result.data,
+        });
+      }
+
+      const { pricing } = result;
+      Object.assign(updateData, {
+        delivery_address: input.delivery_address || null,
+        delivery_option: pricing.delivery_option,
+        items: pricing.items,
+        subtotal: pricing.subtotal,
+        discount: pricing.discount,
+        discount_code: pricing.discount_code,
+        discount_id: pricing.discount_id,
+        tax: pricing.tax,
+        tax_breakdown: pricing.tax_breakdown,
+        shipping_fee: pricing.shipping_fee,
+        total: pricing.total,
+      });
+
+      const { data, error } = await supabaseAdmin
+        .from('draft_orders')
+        .update(updateData)
+        .eq('id', draft.id)
+        .in('status', OPEN_DRAFT_STATUSES)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return res.status(409).json({
+          success: false,
+          message: 'Draft order was converted or cancelled by another request. Please refresh.',
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Draft order updated successfully',
+        data,
+      });
+    } catch (error) {
+      console.error('Error updating draft order:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update draft order',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Cancel a draft order and revoke its payment link (admin)
+  async cancelDraftOrder(req: AuthRequest, res: Response) {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('draft_orders')
+        .update({
+          status: 'cancelled',
+          payment_token: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', String(req.params.id))
+        .in('status', OPEN_DRAFT_STATUSES)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return res.status(409).json({
+          success: false,
+          message: 'Draft order not found or no longer open',
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Draft order cancelled successfully',
+        data,
+      });
+    } catch (error) {
+      console.error('Error cancelling draft order:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to cancel draft order',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Issue the payment link and start the quote's validity window (admin).
+   * The PDF quote is emailed unless send_email is false, e.g. when staff
+   * share the link over WhatsApp instead.
+   */
+  async sendQuote(req: AuthRequest, res: Response) {
+    try {
+      const { expires_in_days, send_email } = req.body;
+
+      const draft = await draftOrderService.getDraft(String(req.params.id));
+      if (!draft) {
+        return res.status(404).json({
+          success: false,
+          message: 'Draft order not found',
+        });
+      }
+
+      if (!OPEN_DRAFT_STATUSES.includes(draft.status)) {
+        return res.status(409).json({
+          success: false,
+          message: `A ${draft.status} draft order cannot be sent`,
+        });
+      }
+
+      if (send_email && !draft.customer_email) {
+        return res.status(400).json({
+          success: false,
+          message: 'The customer has no email address. Add one or share the payment link instead.',
+        });
+      }
+
+      const validityDays = expires_in_days ?? (await draftOrderService.getValidityDays());
+      const expiresAt = new Date(Date.now() + validityDays * 24 * 60 * 60 * 1000).toISOString();
+      const paymentToken = draft.payment_token || draftOrderService.generatePaymentToken();
+
+      const { data: sent, error } = await supabaseAdmin
+        .from('draft_orders')
+        .update({
+          status: 'sent',
+          payment_token: paymentToken,
+          expires_at: expiresAt,
+          sent_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', draft.id)
+        .in('status', OPEN_DRAFT_STATUSES)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!sent) {
+        return res.status(409).json({
+          success: false,
+          message: 'Draft order was converted or cancelled by another request. Please refresh.',
+        });
+      }
+
+      const paymentUrl = getPaymentUrl(paymentToken);
+      let emailSent = false;
+
+      if (send_email) {
+        try {
+          const pdfBuffer = await pdfService.generateQuotePDF({ ...sent, payment_url: paymentUrl });
+          const emailResult = await enhancedEmailService.sendQuote(sent, pdfBuffer, paymentUrl);
+          emailSent = emailResult.success;
+          if (!emailResult.success) {
+            console.error('Failed to send quote email:', emailResult.reason);
+          }
+        } catch (emailError: any) {
+          console.error('Error sending quote email (quote still issued):', emailError?.message || emailError);
+        }
+      }
+
+      res.json({
+        success: true,
+        message: emailSent ? 'Quote sent to the customer' : 'Quote issued',
+        data: {
+          ...sent,
+          payment_url: paymentUrl,
+          email_sent: emailSent,
+        },
+      });
+    } catch (error) {
+      console.error('Error sending quote:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to send quote',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Download the quote PDF (admin)
+  async downloadQuotePDF(req: AuthRequest, res: Response) {
+    try {
+      const draft = await draftOrderService.getDraft(String(req.params.id));
+      if (!draft) {
+        return res.status(404).json({
+          success: false,
+          message: 'Draft order not found',
+        });
+      }
+
+      await this.sendQuotePDF(res, draft);
+    } catch (error) {
+      console.error('Error generating quote PDF:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to generate quote PDF',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Public: quote behind a payment link
+  async getQuoteByToken(req: Request, res: Response) {
+    try {
+      const draft = await draftOrderService.getDraftByToken(String(req.params.token));
+      if (!draft || !['sent', 'converted'].includes(draft.status)) {
+        return res.status(404).json({
+          success: false,
+          message: 'This payment link is not valid',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: draftOrderService.toPublicQuote(draft),
+      });
+    } catch (error) {
+      console.error('Error fetching quote:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch quote',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Public: quote PDF behind a payment link
+  async downloadQuotePDFByToken(req: Request, res: Response) {
+    try {
+      const draft = await draftOrderService.getDraftByToken(String(req.params.token));
+      if (!draft || !['sent', 'converted'].includes(draft.status)) {
+        return res.status(404).json({
+          success: false,
+          message: 'This payment link is not valid',
+        });
+      }
+
+      await this.sendQuotePDF(res, draft);
+    } catch (error) {
+      console.error('Error generating quote PDF:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to generate quote PDF',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Public: pay a quote. The first call converts the quote into a pending
+   * order at the quoted prices (reserving stock); every call then starts a
+   * payment for the whole order total through paymentService, until the
+   * quote expires or a payment has been received.
+   */
+  async payQuote(req: Request, res: Response) {
+    try {
+      const draft = await draftOrderService.getDraftByToken(String(req.params.token));
+      if (!draft || !['sent', 'converted'].includes(draft.status)) {
+        return res.status(404).json({
+          success: false,
+          message: 'This payment link is not valid',
+        });
+      }
+
+      if (draftOrderService.isExpired(draft)) {
+        return res.status(410).json({
+          success: false,
+          message: 'This quote has expired. Please contact us for an updated quote.',
+        });
+      }
+
+      let order: any = null;
+
+      if (draft.status === 'sent') {
+        const conversion = await draftOrderService.convertToOrder(draft);
+        if (!conversion.success) {
+          return res.status(409).json({
+            success: false,
+            message: 'Some items in this quote are no longer in stock. Please contact us for an updated quote.',
+            data: { shortages: conversion.shortages },
+          });
+        }
+        order = conversion.order;
+      } else {
+        const { data, error } = await supabaseAdmin
+          .from('orders')
+          .select('*')
+          .eq('id', draft.order_id)
+          .maybeSingle();
+
+        if (error) throw error;
+        order = data;
+      }
+
+      if (!order || order.status === 'cancelled') {
+        return res.status(410).json({
+          success: false,
+          message: 'The order for this quote was cancelled. Please contact us for an updated quote.',
+        });
+      }
+
+      if (order.payment_status === 'paid') {
+        return res.status(409).json({
+          success: false,
+          message: 'This quote has already been paid',
+          data: { order_number: order.order_number },
+        });
+      }
+
+      // Another full charge would overpay; a part payment is settled with the shop
+      if (!PAYABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+        return res.status(409).json({
+          success: false,
+          message: 'A payment has already been received for this quote. Please contact us to settle the balance.',
+          data: { order_number: order.order_number, payment_status: order.payment_status },
+        });
+      }
+
+      const customerEmail = draft.customer_email || order.shipping_address?.email;
+      if (!customerEmail) {
+        return res.status(400).json({
+          success: false,
+          message: 'No email address is on file for this quote. Please contact us to complete payment.',
+        });
+      }
+
+      // A fresh reference per attempt; the pending transaction is settled by the webhook
+      const reference = `${order.order_number}-${Date.now()}`;
+      const result = await paymentService.initialize({
+        email: customerEmail,
+        amount: Math.round((Number(order.total) || 0) * 100),
+        reference,
+        callback_url: `${getFrontendUrl()}/track-order?order=${encodeURIComponent(order.order_number)}`,
+        payment_method: 'paystack',
+        order: { id: order.id, user_id: order.user_id },
+        metadata: {
+          order_id: order.id,
+          order_number: order.order_number,
+          draft_order_id: draft.id,
+          quote_number: draft.quote_number,
+          customer_name: draft.customer_name,
+          customer_email: customerEmail,
+          payment_method: 'paystack',
+          payment_reference: reference,
+        },
+      });
+
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: result.data,
+        message: 'Transaction initialized successfully',
+      });
+    } catch (error) {
+      console.error('Error starting quote payment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to start payment',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Contact details from an existing customer and/or the request; null when customer_id is unknown
+  private async resolveCustomer(customerId?: string | null, customer?: { full_name?: string | null; email?: string | null; phone?: string | null } | null) {
+    let existing: any = null;
+    if (customerId) {
+      existing = await customerService.findById(customerId);
+      if (!existing) return null;
+    }
+
+    return {
+      full_name: customer?.full_name || existing?.full_name || null,
+      email: customer?.email?.trim().toLowerCase() || existing?.email || null,
+      phone: customer?.phone || existing?.phone || null,
+      user_id: existing?.user_id || null,
+    };
+  }
+
+  private async sendQuotePDF(res: Response, draft: any) {
+    const pdfBuffer = await pdfService.generateQuotePDF({
+      ...draft,
+      payment_url: draft.payment_token && draft.status === 'sent' ? getPaymentUrl(draft.payment_token) : null,
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="quote-${draft.quote_number}.pdf"`);
+    res.setHeader('Content-Length', pdfBuffer.length);
+    res.send(pdfBuffer);
+  }
+}
@@ -1,32 +1,25 @@
 import { Request, Response } from 'express';
 import { supabaseAdmin } from '../utils/supabaseClient';
 import { toCSV } from '../utils/csv.utils';
+import { orderSearchService } from '../services/orderSearch.service';
 
 export class ExportController {
   // Export Orders
   async exportOrders(req: Request, res: Response) {
     try {
-      const { startDate, endDate, status } = req.query;
+      // Same filter grammar as the admin order search (startDate/endDate still accepted)
+      const { filters, errors } = orderSearchService.parseFilters(req.query);
+      if (errors.length > 0) {
+        return res.status(400).json({ success: false, message: errors.join('; ') });
+      }
 
-      let query = supabaseAdmin
-        .from('orders')
-        .select(`
+      const { query } = await orderSearchService.buildQuery(filters, `
           *,
           user:users!orders_user_id_fkey(email, full_name),
           customer:customers!orders_customer_id_fkey(email, full_name, phone),
           order_items:order_items(product_name, quantity, unit_price, total_price)
         `);
 
-      if (startDate) {
-        query = query.gte('created_at', startDate as string);
-      }
-      if (endDate) {
-        query = query.lte('created_at', endDate as string);
-      }
-      if (status && status !== 'all') {
-        query = query.eq('status', status as string);
-      }
-
       const { data, error } = await query.order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -39,6 +32,11 @@ export class ExportController {
         { header: 'Customer Email', key: (row: any) => row.user?.email || row.customer?.email || (row.delivery_address as any)?.email || '' },
         { header: 'Status', key: 'status' },
         { header: 'Payment Status', key: 'payment_status' },
+        { header: 'Subtotal', key: 'subtotal' },
+        { header: 'Discount', key: 'discount' },
+        { header: 'Shipping Fee', key: 'shipping_fee' },
+        { header: 'Tax', key: 'tax' },
+        { header: 'Tax Breakdown', key: (row: any) => (Array.isArray(row.tax_breakdown) ? row.tax_breakdown : []).map((t: any) => `${t.name}: ${Number(t.amount).toFixed(2)}`).join('; ') },
         { header: 'Total', key: 'total' },
         { header: 'Items', key: (row: any) => row.order_items?.map((i: any) => `${i.quantity}x ${i.product_name}`).join('; ') || '' }
       ];
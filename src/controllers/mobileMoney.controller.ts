@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { mobileMoneyService } from '../services/mobileMoney.service';
+
+/**
+ * In-page mobile money checkout: start a charge on the customer's phone,
+ * submit the OTP when the network asks for one, and poll until the charge
+ * succeeds or fails. A successful charge is then verified like any other
+ * payment (POST /api/payments/verify, or the webhook).
+ */
+export class MobileMoneyController {
+  async startCharge(req: AuthRequest, res: Response) {
+    try {
+      const { email, amount, reference, phone, provider, metadata } = req.body;
+
+      const result = await mobileMoneyService.startCharge({
+        email,
+        amount,
+        reference,
+        phone,
+        provider,
+        metadata,
+        userId: req.user?.id || null,
+      });
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Mobile money charge started',
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error('Error starting mobile money charge:', error);
+      res.status(500).json({
+        success: false,
+        message: error.response?.data?.message || 'Failed to start mobile money charge',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async submitOtp(req: Request, res: Response) {
+    try {
+      const { reference, otp } = req.body;
+
+      const result = await mobileMoneyService.submitOtp(reference, otp);
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'OTP submitted',
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error('Error submitting mobile money OTP:', error);
+      res.status(500).json({
+        success: false,
+        message: error.response?.data?.message || 'Failed to submit OTP',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async getStatus(req: Request, res: Response) {
+    try {
+      const result = await mobileMoneyService.checkStatus(String(req.params.reference));
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error('Error checking mobile money charge:', error);
+      res.status(500).json({
+        success: false,
+        message: error.response?.data?.message || 'Failed to check mobile money charge',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
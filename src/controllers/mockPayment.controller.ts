@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { isMockPaymentsEnabled, mockPaymentService } from '../services/mockPayment.service';
+
+export class MockPaymentController {
+  /**
+   * Stand-in for the provider's hosted checkout page. Without ?outcome it
+   * offers both outcomes; with one it settles the payment and returns the
+   * customer to the callback URL the way Paystack does.
+   */
+  async checkout(req: Request, res: Response) {
+    if (!isMockPaymentsEnabled()) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mock payments are not enabled',
+      });
+    }
+
+    const reference = String(req.params.reference);
+    const transaction = mockPaymentService.getTransaction(reference);
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mock transaction not found',
+      });
+    }
+
+    const outcome = req.query.outcome;
+    if (outcome !== 'success' && outcome !== 'failed') {
+      const amount = (transaction.amount / 100).toFixed(2);
+      return res.send(`<!DOCTYPE html>
+<html>
+<body style="font-family: sans-serif; max-width: 480px; margin: 40px auto;">
+  <h2>Mock payment</h2>
+  <p>Reference: ${reference}<br />Amount: GHS ${amount}</p>
+  <p>
+    <a href="?outcome=success">Pay successfully</a> |
+    <a href="?outcome=failed">Fail the payment</a>
+  </p>
+</body>
+</html>`);
+    }
+
+    const completed = mockPaymentService.complete(reference, outcome);
+    if (completed?.callback_url) {
+      const separator = completed.callback_url.includes('?') ? '&' : '?';
+      return res.redirect(
+        `${completed.callback_url}${separator}trxref=${encodeURIComponent(reference)}&reference=${encodeURIComponent(reference)}`
+      );
+    }
+
+    res.json({
+      success: true,
+      message: `Mock payment ${completed?.status}`,
+      data: { reference, status: completed?.status },
+    });
+  }
+}
@@ -5,6 +5,42 @@ import { commitDiscountUsage, evaluateDiscount } from '../services/discount.serv
 import enhancedEmailService from '../services/enhanced-email.service';
 import pdfService from '../services/pdf.service';
 import { customerService } from '../services/customer.service';
+import { ORDER_STATUSES, isOrderStatus, orderStatusService } from '../services/orderStatus.service';
+import { inventoryService, StockShortage } from '../services/inventory.service';
+import { PricedLine, PriceMismatch, pricingService } from '../services/pricing.service';
+import { TaxLine, taxService } from '../services/tax.service';
+import { deliveryService } from '../services/delivery.service';
+import { documentNumberService, isUniqueViolation } from '../services/documentNumber.service';
+import { shipmentService } from '../services/shipment.service';
+import { customerOrderService } from '../services/customerOrder.service';
+import { orderAccessService } from '../services/orderAccess.service';
+import { cartService } from '../services/cart.service';
+import { reorderService } from '../services/reorder.service';
+import { CASH_PAYMENT_METHODS, cashPaymentService, isCashPaymentMethod } from '../services/cashPayment.service';
+import { isPickupOrder, pickupService } from '../services/pickup.service';
+
+/**
+ * Set by the payment webhook when it places an order for a charge that has
+ * already gone through. Checkout checks that would reject the order (price
+ * changes, stock shortages) flag it for review instead, so a paid charge
+ * always ends up as an order.
+ */
+export interface PaidOrderRequest extends AuthRequest {
+  paidCharge?: { reference: string };
+}
+
+const PAYMENT_STATUSES = ['pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded'];
+const ADMIN_PAYMENT_METHODS = ['mobile_money', 'momo', ...CASH_PAYMENT_METHODS];
+// Transaction statuses for money that has been received, even if some went back
+const SETTLED_PAYMENT_STATUSES = ['paid', 'partially_paid', 'partially_refunded'];
+
+export type OrderReviewFlag =
+  | { type: 'price_changed'; price_changes: PriceMismatch[] }
+  | { type: 'backorder'; shortages: StockShortage[] };
+
+export type StatusChangeResult =
+  | { success: true; order: any }
+  | { success: false; status: number; message: string; data?: Record<string, unknown> };
 
 export class OrderController {
   // Get all orders (admin)
@@ -140,6 +176,18 @@ export class OrderController {
     }
   }
 
+  // Return reserved stock to inventory (never fails the calling request)
+  private async releaseReservedStock(orderId: string, reason: string, actorId?: string | null) {
+    try {
+      const released = await inventoryService.releaseOrderStock(orderId, reason, actorId || null);
+      if (released.length > 0) {
+        console.log(`✅ Released reserved stock for order ${orderId}:`, released);
+      }
+    } catch (releaseError: any) {
+      console.error(`❌ Failed to release reserved stock for order ${orderId}:`, releaseError?.message || releaseError);
+    }
+  }
+
   // Get order by ID
   async getOrderById(req: AuthRequest, res: Response) {
     try {
@@ -169,7 +217,11 @@ export class OrderController {
           });
         }
 
-        if (data.user_id !== currentUser.id) {
+        // Owners include customers whose record is linked to this user (orders placed as guest or by an admin)
+        const customerIds = await customerOrderService.getLinkedCustomerIds(currentUser.id);
+        const isOwner =
+          data.user_id === currentUser.id || (!!data.customer_id && customerIds.includes(data.customer_id));
+        if (!isOwner) {
           return res.status(403).json({
             success: false,
             message: 'You do not have access to this order',
@@ -177,9 +229,24 @@ export class OrderController {
         }
       }
 
+      // Customers get the public views: no admin ids, internal notes or cancelled shipments
+      const statusHistory = isAdminUser
+        ? await orderStatusService.getHistory(data.id)
+        : await orderStatusService.getPublicHistory(data.id);
+      const shipments = isAdminUser
+        ? await shipmentService.getShipments(data.id).catch((shipmentError) => {
+            console.error(`Failed to fetch shipments for order ${data.id}:`, shipmentError);
+            return [];
+          })
+        : await shipmentService.getPublicShipments(data.id);
+
       res.json({
         success: true,
-        data,
+        data: {
+          ...data,
+          status_history: statusHistory,
+          shipments,
+        },
       });
     } catch (error) {
       console.error('Error fetching order:', error);
@@ -191,6 +258,203 @@ export class OrderController {
     }
   }
 
+  // Signed-in customer's own orders with items, shipments and return eligibility
+  async getMyOrders(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const { status, date_from, date_to, cursor, limit } = req.query;
+
+      if (cursor && !customerOrderService.decodeCursor(String(cursor))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid cursor',
+        });
+      }
+
+      const statuses = status && status !== 'all'
+        ? String(status).split(',').map((value) => value.trim()).filter(Boolean)
+        : [];
+      const invalidStatuses = statuses.filter((value) => !isOrderStatus(value));
+      if (invalidStatuses.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid status filter: ${invalidStatuses.join(', ')}`,
+        });
+      }
+
+      const page = await customerOrderService.listOrders(req.user.id, {
+        status: statuses,
+        date_from: date_from ? String(date_from) : undefined,
+        date_to: date_to ? String(date_to) : undefined,
+        cursor: cursor ? String(cursor) : undefined,
+        limit: limit ? parseInt(String(limit), 10) || undefined : undefined,
+      });
+
+      const orders = await this.presentCustomerOrders(page.orders);
+
+      res.json({
+        success: true,
+        data: orders,
+        pagination: {
+          limit: page.limit,
+          next_cursor: page.nextCursor,
+          has_more: page.hasMore,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching customer orders:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch orders',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Buy again: rebuild the customer's cart from one of their past orders
+  async reorderOrder(req: AuthRequest, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const { mode, preview } = req.body;
+
+      const { data: order, error } = await supabaseAdmin
+        .from('orders')
+        .select('id, order_number, user_id, customer_id, order_items:order_items(*)')
+        .eq('id', String(req.params.id))
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const customerIds = await customerOrderService.getLinkedCustomerIds(req.user.id);
+      const isOwner = order.user_id === req.user.id || (!!order.customer_id && customerIds.includes(order.customer_id));
+      if (!isOwner) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have access to this order',
+        });
+      }
+
+      const { items, lines } = await reorderService.buildCartLines(order.order_items || []);
+      const summary = {
+        added: items.filter((item) => item.status === 'added' || item.status === 'partial').length,
+        skipped: items.filter((item) => item.added_quantity === 0).length,
+        price_changes: items.filter((item) => item.price_change !== null && item.price_change !== 0).length,
+      };
+
+      if (preview) {
+        return res.json({
+          success: true,
+          message: 'Reorder preview',
+          data: { order_number: order.order_number, items, summary, cart: null },
+        });
+      }
+
+      if (lines.length === 0) {
+        return res.status(409).json({
+          success: false,
+          message: 'None of the items in this order are available any more',
+          data: { order_number: order.order_number, items, summary },
+        });
+      }
+
+      // Merge keeps other cart rows; a product from the order replaces its existing row
+      let cartLines = lines;
+      if (mode === 'merge') {
+        const reorderedProducts = new Set(lines.map((line) => line.product_id));
+        const existing = (await cartService.getCart(req.user.id))
+          .filter((row: any) => row.product?.id && !reorderedProducts.has(row.product.id))
+          .map((row: any) => ({
+            product_id: row.product.id,
+            quantity: row.quantity,
+            selected_variants: row.selected_variants,
+          }));
+        cartLines = [...existing, ...lines];
+      }
+
+      const cart = await cartService.replaceCart(req.user.id, cartLines);
+
+      res.json({
+        success: true,
+        message: 'Items added to cart',
+        data: { order_number: order.order_number, items, summary, cart },
+      });
+    } catch (error) {
+      console.error('Error reordering:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to reorder',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Order opened from a guest link (scoped to that one order by orderAccessToken)
+  async getOrderByAccessToken(req: AuthRequest, res: Response) {
+    try {
+      const orderId = req.orderAccess!.orderId;
+
+      const { data, error } = await supabaseAdmin
+        .from('orders')
+        .select('*, order_items:order_items(*)')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const [order] = await this.presentCustomerOrders([data]);
+
+      res.json({
+        success: true,
+        data: {
+          ...order,
+          can_cancel: order.status === 'pending',
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching order from access link:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch order',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Customer-facing order view with absolute thumbnail URLs
+  private async presentCustomerOrders(orders: any[]) {
+    return (await customerOrderService.presentOrders(orders)).map((order: any) => ({
+      ...order,
+      items: order.items.map((item: any) => ({
+        ...item,
+        thumbnail: this.normalizeImageUrl(item.thumbnail),
+      })),
+    }));
+  }
+
   // Track order by order number and email (public, for guest customers)
   async trackOrder(req: Request, res: Response) {
     try {
@@ -255,6 +519,9 @@ export class OrderController {
         });
       }
 
+      const statusHistory = await orderStatusService.getPublicHistory(orderData.id);
+      const shipments = await shipmentService.getPublicShipments(orderData.id);
+
       // Return order data (without sensitive information)
       res.json({
         success: true,
@@ -273,6 +540,8 @@ export class OrderController {
           payment_method: orderData.payment_method,
           order_items: orderData.order_items,
           items: orderData.order_items, // Alias for compatibility
+          status_history: statusHistory,
+          shipments,
         },
       });
     } catch (error) {
@@ -286,155 +555,254 @@ export class OrderController {
   }
 
   // Update order status
-  async updateOrderStatus(req: Request, res: Response) {
+  async updateOrderStatus(req: AuthRequest, res: Response) {
     try {
-      const { id } = req.params;
       const { status, tracking_number, notes } = req.body;
 
-      // Update order
-      const { data: orderData, error: orderError } = await supabaseAdmin
-        .from('orders')
-        .update({
-          status,
-          tracking_number,
-          notes,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .select(`
-          *,
-          user:users!orders_user_id_fkey(id, first_name, last_name, email),
-          customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
-          order_items:order_items(*)
-        `)
-        .single();
+      const result = await this.applyStatusChange(String(req.params.id), { status, tracking_number, notes }, req.user);
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
 
-      if (orderError) throw orderError;
+      res.json({
+        success: true,
+        message: 'Order status updated successfully',
+        data: result.order,
+      });
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update order status',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
 
-      // If order is being cancelled, automatically mark associated transactions as failed
-      if (status === 'cancelled') {
-        try {
-          const { data: transactions, error: transactionsError } = await supabaseAdmin
+  /**
+   * Move one order to a new status with all of its side effects: status
+   * history, stock release and failed transactions on cancellation, and the
+   * customer email. Shared by the single and bulk status endpoints.
+   */
+  async applyStatusChange(
+    id: string,
+    change: { status: string; tracking_number?: string | null; notes?: string | null },
+    actor?: { id?: string | null; role?: string | null } | null,
+    options: { notifyCustomer?: boolean } = {}
+  ): Promise<StatusChangeResult> {
+    const { status, tracking_number, notes } = change;
+
+    if (!isOrderStatus(status)) {
+      return {
+        success: false,
+        status: 400,
+        message: `Invalid status. Must be one of: ${ORDER_STATUSES.join(', ')}`,
+      };
+    }
+
+    const { data: currentOrder, error: fetchError } = await supabaseAdmin
+      .from('orders')
+      .select('id, status, tracking_number, shipping_address')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!currentOrder) {
+      return {
+        success: false,
+        status: 404,
+        message: 'Order not found',
+      };
+    }
+
+    const previousStatus = currentOrder.status || 'pending';
+    const statusChanged = previousStatus !== status;
+
+    if (statusChanged && !orderStatusService.canTransition(previousStatus, status)) {
+      return {
+        success: false,
+        status: 409,
+        message: `Cannot change order status from ${previousStatus} to ${status}`,
+        data: {
+          current_status: previousStatus,
+          allowed_statuses: orderStatusService.getAllowedTransitions(previousStatus),
+        },
+      };
+    }
+
+    // A pickup code is issued before the status changes, so a ready order always has one
+    let pickup: any = null;
+    if (status === 'ready_for_pickup' && statusChanged) {
+      if (!isPickupOrder(currentOrder)) {
+        return {
+          success: false,
+          status: 409,
+          message: 'Only store pickup orders can be marked ready for pickup',
+        };
+      }
+      pickup = await pickupService.preparePickup(id);
+    }
+
+    // Update order only if its status has not changed since we read it
+    const { data: orderData, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .update({
+        status,
+        tracking_number,
+        notes,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', previousStatus)
+      .select(`
+        *,
+        user:users!orders_user_id_fkey(id, first_name, last_name, email),
+        customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+        order_items:order_items(*)
+      `)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+    if (!orderData) {
+      return {
+        success: false,
+        status: 409,
+        message: 'Order status was changed by another request. Please refresh and try again.',
+      };
+    }
+
+    const trackingChanged = tracking_number !== undefined && tracking_number !== currentOrder.tracking_number;
+    if (statusChanged || trackingChanged) {
+      await orderStatusService.recordChange({
+        orderId: orderData.id,
+        fromStatus: previousStatus,
+        toStatus: status,
+        changedBy: actor,
+        note: notes,
+        trackingNumber: orderData.tracking_number,
+      });
+    }
+
+    if (status === 'cancelled' && statusChanged) {
+      await this.releaseReservedStock(orderData.id, notes || 'Order cancelled by admin', actor?.id);
+    }
+
+    if (previousStatus === 'ready_for_pickup' && statusChanged) {
+      await pickupService.closePickup(orderData.id, status === 'delivered' ? 'collected' : 'cancelled', actor?.id);
+    }
+
+    // If order is being cancelled, automatically mark associated transactions as failed
+    if (status === 'cancelled') {
+      try {
+        const { data: transactions, error: transactionsError } = await supabaseAdmin
+          .from('transactions')
+          .select('id, payment_status')
+          .eq('order_id', id);
+
+        if (!transactionsError && transactions && transactions.length > 0) {
+          // Update all transactions for this order to failed
+          const { error: updateTransactionsError } = await supabaseAdmin
             .from('transactions')
-            .select('id, payment_status')
+            .update({
+              payment_status: 'failed',
+              status: 'failed',
+              updated_at: new Date().toISOString(),
+            })
             .eq('order_id', id);
 
-          if (!transactionsError && transactions && transactions.length > 0) {
-            // Update all transactions for this order to failed
-            const { error: updateTransactionsError } = await supabaseAdmin
-              .from('transactions')
-              .update({
-                payment_status: 'failed',
-                status: 'failed',
-                updated_at: new Date().toISOString(),
-              })
-              .eq('order_id', id);
-
-            if (updateTransactionsError) {
-              console.warn('Warning: Failed to update transactions when order was cancelled:', updateTransactionsError);
-            } else {
-              console.log(`✅ Automatically marked ${transactions.length} transaction(s) as failed for cancelled order ${id}`);
-            }
+          if (updateTransactionsError) {
+            console.warn('Warning: Failed to update transactions when order was cancelled:', updateTransactionsError);
+          } else {
+            console.log(`✅ Automatically marked ${transactions.length} transaction(s) as failed for cancelled order ${id}`);
           }
-        } catch (transactionUpdateError: any) {
-          // Don't fail the order update if transaction update fails
-          console.warn('Warning: Error updating transactions when order was cancelled:', transactionUpdateError?.message || transactionUpdateError);
         }
+      } catch (transactionUpdateError: any) {
+        // Don't fail the order update if transaction update fails
+        console.warn('Warning: Error updating transactions when order was cancelled:', transactionUpdateError?.message || transactionUpdateError);
       }
+    }
 
-      // Send email notification (don't fail order update if email fails)
-      try {
-        // Determine customer email and name
-        let customerEmail: string | null = null;
-        let customerName: string = 'Customer';
-        
-        if (orderData.customer && orderData.customer.email) {
-          customerEmail = orderData.customer.email;
-          customerName = orderData.customer.full_name || customerName;
-        } else if (orderData.user && orderData.user.email) {
-          // Logged-in user
-          customerEmail = orderData.user.email;
-          customerName = `${orderData.user.first_name || ''} ${orderData.user.last_name || ''}`.trim() || 'Customer';
-        } else if (orderData.shipping_address && (orderData.shipping_address as any)?.email) {
-          // Guest checkout - get email from shipping address
-          customerEmail = (orderData.shipping_address as any).email;
-          customerName = orderData.shipping_address?.full_name || orderData.shipping_address?.first_name || 'Guest Customer';
-        }
+    // Callers that send their own email (e.g. the unpaid order sweeper) skip the status email
+    if (options.notifyCustomer === false) {
+      return { success: true, order: orderData };
+    }
 
-        if (customerEmail) {
-          // Enrich order items with product images before sending email
-          let enrichedItems = orderData.order_items || [];
-          if (enrichedItems.length > 0) {
-            const itemsWithProductIds = enrichedItems.filter((item: any) => item.product_id);
-            if (itemsWithProductIds.length > 0) {
-              const productIds = itemsWithProductIds.map((item: any) => item.product_id);
-              const { data: products } = await supabaseAdmin
-                .from('products')
-                .select('id, thumbnail, image_url')
-                .in('id', productIds);
+    // Pickup orders get their code and QR instead of the generic status email
+    if (pickup) {
+      await pickupService.notifyCustomer(orderData.id, pickup);
+      return { success: true, order: orderData };
+    }
+
+    // Send email notification (don't fail order update if email fails)
+    try {
+      const { email: customerEmail, name: customerName } = customerService.getOrderContact(orderData);
+
+      if (customerEmail) {
+        // Enrich order items with product images before sending email
+        let enrichedItems = orderData.order_items || [];
+        if (enrichedItems.length > 0) {
+          const itemsWithProductIds = enrichedItems.filter((item: any) => item.product_id);
+          if (itemsWithProductIds.length > 0) {
+            const productIds = itemsWithProductIds.map((item: any) => item.product_id);
+            const { data: products } = await supabaseAdmin
+              .from('products')
+              .select('id, thumbnail, image_url')
+              .in('id', productIds);
+            
+            if (products && products.length > 0) {
+              const productImageMap = new Map(
+                products.map((p: any) => {
+                  const normalized = this.normalizeImageUrl(p.thumbnail || p.image_url || null);
+                  return [p.id, normalized];
+                })
+              );
               
-              if (products && products.length > 0) {
-                const productImageMap = new Map(
-                  products.map((p: any) => {
-                    const normalized = this.normalizeImageUrl(p.thumbnail || p.image_url || null);
-                    return [p.id, normalized];
-                  })
-                );
-                
-                enrichedItems = enrichedItems.map((item: any) => {
-                  if (item.product_id && productImageMap.has(item.product_id)) {
-                    const imageUrl = productImageMap.get(item.product_id);
-                    return {
-                      ...item,
-                      product_image: imageUrl,
-                      image: imageUrl,
-                      thumbnail: imageUrl,
-                    };
-                  }
-                  return item;
-                });
-              }
+              enrichedItems = enrichedItems.map((item: any) => {
+                if (item.product_id && productImageMap.has(item.product_id)) {
+                  const imageUrl = productImageMap.get(item.product_id);
+                  return {
+                    ...item,
+                    product_image: imageUrl,
+                    image: imageUrl,
+                    thumbnail: imageUrl,
+                  };
+                }
+                return item;
+              });
             }
           }
+        }
 
-          const emailData = {
-            ...orderData,
-            customer_name: customerName,
-            customer_email: customerEmail,
-            items: enrichedItems,
-            delivery_address: orderData.shipping_address || orderData.delivery_address, // For email template compatibility
-          };
+        const emailData = {
+          ...orderData,
+          customer_name: customerName,
+          customer_email: customerEmail,
+          items: enrichedItems,
+          delivery_address: orderData.shipping_address || orderData.delivery_address, // For email template compatibility
+        };
 
-          const emailResult = await enhancedEmailService.sendOrderStatusUpdate(emailData, status);
-          if (emailResult.skipped) {
-            console.log(`Order status update email skipped: ${emailResult.reason}`);
-          } else if (emailResult.success) {
-            console.log('Order status update email sent successfully to', customerEmail);
-          } else {
-            console.error('Failed to send order status update email:', emailResult.reason);
-          }
+        const emailResult = await enhancedEmailService.sendOrderStatusUpdate(emailData, status);
+        if (emailResult.skipped) {
+          console.log(`Order status update email skipped: ${emailResult.reason}`);
+        } else if (emailResult.success) {
+          console.log('Order status update email sent successfully to', customerEmail);
         } else {
-          console.warn('No email found for order status update. Order:', orderData.id);
+          console.error('Failed to send order status update email:', emailResult.reason);
         }
-      } catch (emailError: any) {
-        // Don't fail the order update if email sending fails
-        console.error('Error sending order status update email (order update still succeeded):', emailError?.message || emailError);
-        // Continue with order update success - don't throw error
+      } else {
+        console.warn('No email found for order status update. Order:', orderData.id);
       }
-
-      res.json({
-        success: true,
-        message: 'Order status updated successfully',
-        data: orderData,
-      });
-    } catch (error) {
-      console.error('Error updating order status:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Failed to update order status',
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+    } catch (emailError: any) {
+      // Don't fail the order update if email sending fails
+      console.error('Error sending order status update email (order update still succeeded):', emailError?.message || emailError);
+      // Continue with order update success - don't throw error
     }
+
+    return { success: true, order: orderData };
   }
 
   // Update order details (shipping cost, notes, etc.)
@@ -454,7 +822,7 @@ export class OrderController {
       // Get current order to calculate new total
       const { data: currentOrder, error: fetchError } = await supabaseAdmin
         .from('orders')
-        .select('subtotal, discount, tax, shipping_fee, total, notes')
+        .select('subtotal, discount, tax, tax_breakdown, shipping_fee, total, notes')
         .eq('id', id)
         .single();
 
@@ -468,7 +836,17 @@ export class OrderController {
 
       // Calculate new total if shipping_fee is being updated
       const newShippingFee = shipping_fee !== undefined ? Number(shipping_fee) : currentOrder.shipping_fee;
-      const newTotal = Number(currentOrder.subtotal) - Number(currentOrder.discount || 0) + Number(currentOrder.tax || 0) + newShippingFee;
+
+      // Re-run the taxes the order was charged with (same rates) against the new shipping fee
+      const storedBreakdown: TaxLine[] = Array.isArray(currentOrder.tax_breakdown) ? currentOrder.tax_breakdown : [];
+      const recalculatedTax = storedBreakdown.length > 0
+        ? taxService.calculate(taxService.rulesFromBreakdown(storedBreakdown), {
+            subtotal: Number(currentOrder.subtotal) - Number(currentOrder.discount || 0),
+            shipping: newShippingFee,
+          })
+        : null;
+      const newTax = recalculatedTax ? recalculatedTax.total : Number(currentOrder.tax || 0);
+      const newTotal = Number(currentOrder.subtotal) - Number(currentOrder.discount || 0) + newTax + newShippingFee;
 
       // Prepare update data
       const updateData: any = {
@@ -478,6 +856,10 @@ export class OrderController {
       if (shipping_fee !== undefined) {
         updateData.shipping_fee = newShippingFee;
         updateData.total = newTotal;
+        if (recalculatedTax) {
+          updateData.tax = recalculatedTax.total;
+          updateData.tax_breakdown = recalculatedTax.breakdown;
+        }
       }
 
       if (notes !== undefined) {
@@ -501,20 +883,7 @@ export class OrderController {
 
       // Send email notification (don't fail order update if email fails)
       try {
-        // Determine customer email and name
-        let customerEmail: string | null = null;
-        let customerName: string = 'Customer';
-        
-        if (orderData.customer && orderData.customer.email) {
-          customerEmail = orderData.customer.email;
-          customerName = orderData.customer.full_name || customerName;
-        } else if (orderData.user && orderData.user.email) {
-          customerEmail = orderData.user.email;
-          customerName = `${orderData.user.first_name || ''} ${orderData.user.last_name || ''}`.trim() || 'Customer';
-        } else if (orderData.shipping_address && (orderData.shipping_address as any)?.email) {
-          customerEmail = (orderData.shipping_address as any).email;
-          customerName = orderData.shipping_address?.full_name || orderData.shipping_address?.first_name || 'Guest Customer';
-        }
+        const { email: customerEmail, name: customerName } = customerService.getOrderContact(orderData);
 
         if (customerEmail) {
           const emailData = {
@@ -564,24 +933,58 @@ export class OrderController {
     }
   }
 
-  // Update payment status
-  async updatePaymentStatus(req: Request, res: Response) {
+  // Update payment status; cash orders are marked paid through the cash collection flow
+  async updatePaymentStatus(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
       const { payment_status, payment_method } = req.body;
 
-      if (!payment_status || !['pending', 'paid', 'failed', 'refunded'].includes(payment_status)) {
+      if (!payment_status || !PAYMENT_STATUSES.includes(payment_status)) {
         return res.status(400).json({
           success: false,
-          message: 'Invalid payment status. Must be: pending, paid, failed, or refunded',
+          message: `Invalid payment status. Must be one of: ${PAYMENT_STATUSES.join(', ')}`,
         });
       }
 
       // Validate payment_method if provided
-      if (payment_method && !['mobile_money', 'momo'].includes(payment_method)) {
+      if (payment_method && !ADMIN_PAYMENT_METHODS.includes(payment_method)) {
         return res.status(400).json({
           success: false,
-          message: 'Invalid payment method. Must be: mobile_money or momo',
+          message: `Invalid payment method. Must be one of: ${ADMIN_PAYMENT_METHODS.join(', ')}`,
+        });
+      }
+
+      const { data: currentOrder, error: currentError } = await supabaseAdmin
+        .from('orders')
+        .select('id, payment_method')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (currentError) throw currentError;
+      if (!currentOrder) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      // Cash is only marked paid with a collection record (same as POST /:id/cash-collection)
+      if (payment_status === 'paid' && isCashPaymentMethod(payment_method || currentOrder.payment_method)) {
+        const { amount, reference, notes } = req.body;
+        const result = await cashPaymentService.recordCollection(String(id), { amount, reference, notes }, req.user);
+
+        if (!result.success) {
+          return res.status(result.status).json({
+            success: false,
+            message: result.message,
+            ...(result.data ? { data: result.data } : {}),
+          });
+        }
+
+        return res.json({
+          success: true,
+          message: 'Cash payment recorded successfully',
+          data: result.order,
         });
       }
 
@@ -624,8 +1027,12 @@ export class OrderController {
           // Prepare transaction update data
           const transactionUpdateData: any = {
             payment_status,
-            status: payment_status === 'paid' ? 'success' : payment_status === 'failed' ? 'failed' : 'pending',
-            paid_at: payment_status === 'paid' ? new Date().toISOString() : null,
+            status: SETTLED_PAYMENT_STATUSES.includes(payment_status)
+              ? 'success'
+              : payment_status === 'failed'
+                ? 'failed'
+                : 'pending',
+            paid_at: SETTLED_PAYMENT_STATUSES.includes(payment_status) ? new Date().toISOString() : null,
             updated_at: new Date().toISOString(),
           };
 
@@ -742,7 +1149,8 @@ export class OrderController {
       const requesterId = req.user?.id;
       const requesterRole = req.user?.role;
       const isAdmin = requesterRole === 'admin' || requesterRole === 'superadmin';
-      const isOwner = requesterId ? existingOrder.user_id === requesterId : false;
+      const isOwner =
+        (requesterId ? existingOrder.user_id === requesterId : false) || req.orderAccess?.orderId === existingOrder.id;
       const shouldFailPayment = isOwner && !isAdmin;
 
       if (!isAdmin && !isOwner) {
@@ -759,6 +1167,17 @@ export class OrderController {
         });
       }
 
+      if (!orderStatusService.canTransition(existingOrder.status, 'cancelled')) {
+        return res.status(409).json({
+          success: false,
+          message: `Cannot cancel an order that is ${existingOrder.status}`,
+          data: {
+            current_status: existingOrder.status,
+            allowed_statuses: orderStatusService.getAllowedTransitions(existingOrder.status),
+          },
+        });
+      }
+
       const updatePayload: Record<string, any> = {
         status: 'cancelled',
         notes: cancellation_reason,
@@ -774,15 +1193,36 @@ export class OrderController {
         .from('orders')
         .update(updatePayload)
         .eq('id', id)
+        .eq('status', existingOrder.status)
         .select(`
           *,
           user:users!orders_user_id_fkey(id, first_name, last_name, email),
           customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
           order_items:order_items(*)
         `)
-        .single();
+        .maybeSingle();
 
       if (orderError) throw orderError;
+      if (!orderData) {
+        return res.status(409).json({
+          success: false,
+          message: 'Order status was changed by another request. Please refresh and try again.',
+        });
+      }
+
+      await orderStatusService.recordChange({
+        orderId: orderData.id,
+        fromStatus: existingOrder.status,
+        toStatus: 'cancelled',
+        changedBy: req.user || (req.orderAccess ? { id: null, role: 'guest' } : null),
+        note: cancellation_reason || (shouldFailPayment ? 'Cancelled by customer' : 'Cancelled by admin'),
+      });
+
+      await this.releaseReservedStock(
+        orderData.id,
+        cancellation_reason || (shouldFailPayment ? 'Cancelled by customer' : 'Cancelled by admin'),
+        requesterId
+      );
 
       if (shouldFailPayment) {
         try {
@@ -858,50 +1298,39 @@ export class OrderController {
     }
   }
 
-  // Generate sequential order number (format: ORD-XXXDDMMYY)
+  // Generate order number (default format: ORD-XXXDDMMYY, configurable via order_number_format)
   private async generateOrderNumber(): Promise<string> {
-    try {
-      // Get today's date in DDMMYY format
-      const now = new Date();
-      const day = String(now.getDate()).padStart(2, '0');
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const year = String(now.getFullYear()).slice(-2);
-      const dateStr = `${day}${month}${year}`;
-
-      // Get the last order number for today to generate sequential number
-      const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const { data: lastOrder } = await supabaseAdmin
-        .from('orders')
-        .select('order_number')
-        .gte('created_at', todayStart.toISOString())
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
+    return documentNumberService.next('order');
+  }
 
-      let sequence = 1;
-      if (lastOrder && lastOrder.order_number) {
-        // Extract sequence from last order number (ORD-XXXDDMMYY)
-        const match = lastOrder.order_number.match(/ORD-(\d{3})/);
-        if (match) {
-          sequence = parseInt(match[1]) + 1;
-          // Reset to 1 if sequence exceeds 999 (shouldn't happen in one day)
-          if (sequence > 999) sequence = 1;
-        }
-      }
+  // Keep a paid order that failed checkout checks, and tell admins what to sort out
+  private async flagPaidOrder(order: any, flags: OrderReviewFlag[], paymentReference: string) {
+    const { error: flagError } = await supabaseAdmin
+      .from('orders')
+      .update({ review_flags: flags, updated_at: new Date().toISOString() })
+      .eq('id', order.id);
 
-      // Format sequence as 3 digits (001, 002, etc.)
-      const sequenceStr = String(sequence).padStart(3, '0');
-      return `ORD-${sequenceStr}${dateStr}`;
-    } catch (error) {
-      console.error('Error generating order number:', error);
-      // Fallback: use timestamp-based number
-      const now = new Date();
-      const day = String(now.getDate()).padStart(2, '0');
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const year = String(now.getFullYear()).slice(-2);
-      const dateStr = `${day}${month}${year}`;
-      const sequenceStr = String(Date.now()).slice(-3);
-      return `ORD-${sequenceStr}${dateStr}`;
+    if (flagError) {
+      console.error(`Failed to store review flags on order ${order.order_number}:`, flagError);
+    }
+
+    const problems = flags.map((flag) =>
+      flag.type === 'price_changed'
+        ? `prices changed for ${flag.price_changes.map((change) => change.product_name).join(', ')}`
+        : `not enough stock for ${flag.shortages.map((shortage) => shortage.product_name || shortage.product_id).join(', ')}`
+    );
+
+    const { error: notifError } = await supabaseAdmin.from('notifications').insert([
+      {
+        type: 'order',
+        title: `Review paid order: ${order.order_number}`,
+        message: `Payment ${paymentReference} was already taken when the order was placed, but ${problems.join('; ')}. Check the order before fulfilling it.`,
+        is_read: false,
+      },
+    ]);
+
+    if (notifError) {
+      console.error('Failed to create paid order review notification:', notifError);
     }
   }
 
@@ -982,18 +1411,98 @@ export class OrderController {
         };
       }
 
-      const sanitizedOrderItems = order_items.map((item: any) => ({
+      // Re-price every line from the catalogue; client prices are only used to detect drift
+      const pricing = await pricingService.priceOrderItems(
+        order_items.map((item: any) => {
+          const rawPrice = item.unit_price ?? item.price ?? item.original_price;
+          return {
+            product_id: item.product_id ?? item.id ?? null,
+            deal_product_id: item.standalone_source_id ?? item.deal_product_id ?? item.id ?? null,
+            product_name: item.product_name || item.name || null,
+            quantity: Number(item.quantity) || 1,
+            unit_price: rawPrice === undefined || rawPrice === null ? null : Number(rawPrice),
+            selected_variants: item.selected_variants || null,
+          };
+        })
+      );
+
+      const paidCharge = (req as PaidOrderRequest).paidCharge || null;
+      const reviewFlags: OrderReviewFlag[] = [];
+
+      if (pricing.mismatches.length > 0) {
+        if (!paidCharge) {
+          return res.status(409).json({
+            success: false,
+            message: 'Some items in your cart have changed price or are no longer available. Please review your cart.',
+            data: {
+              price_changes: pricing.mismatches,
+            },
+          });
+        }
+        reviewFlags.push({ type: 'price_changed', price_changes: pricing.mismatches });
+      }
+
+      const pricedLines = new Map<number, PricedLine>(pricing.lines.map((line) => [line.index, line]));
+
+      // Lines the catalogue can no longer price (only kept for a paid charge) stay at the price the customer paid
+      pricing.mismatches
+        .filter((mismatch) => mismatch.reason === 'unavailable')
+        .forEach((mismatch) => {
+          const unitPrice = Number(mismatch.client_unit_price) || 0;
+          pricedLines.set(mismatch.index, {
+            index: mismatch.index,
+            product_id: mismatch.product_id,
+            deal_product_id: null,
+            product_name: mismatch.product_name,
+            quantity: mismatch.quantity,
+            base_unit_price: unitPrice,
+            variant_adjustment: 0,
+            unit_price: unitPrice,
+            subtotal: Number((unitPrice * mismatch.quantity).toFixed(2)),
+            price_source: 'product',
+            client_unit_price: mismatch.client_unit_price,
+          });
+        });
+
+      const sanitizedOrderItems = order_items.map((item: any, index: number) => ({
         product_id: item.product_id ?? item.id ?? null,
         product_name: item.product_name || item.name || 'Deal Product',
-        quantity: Number(item.quantity) || 1,
-        unit_price: Number(
-          item.unit_price ?? item.price ?? item.original_price ?? 0
-        ),
-        subtotal: Number(item.subtotal ?? item.total_price ?? 0),
+        quantity: pricedLines.get(index)!.quantity,
+        unit_price: pricedLines.get(index)!.unit_price,
+        subtotal: pricedLines.get(index)!.subtotal,
       }));
 
       const computedSubtotal = sanitizedOrderItems.reduce((sum, item) => sum + item.subtotal, 0);
-      const normalizedDeliveryFee = Number(delivery_fee ?? delivery_option?.price ?? 0) || 0;
+      // Delivery fee is recomputed from the chosen option and its zone rates; client prices are ignored
+      if (!delivery_option?.id) {
+        return res.status(400).json({
+          success: false,
+          message: 'Please select a delivery option',
+        });
+      }
+
+      const quotedDeliveryOption = await deliveryService.quoteOption(String(delivery_option.id), {
+        region: delivery_address?.region,
+        city: delivery_address?.city,
+        items: sanitizedOrderItems.map((item) => ({ product_id: item.product_id, quantity: item.quantity })),
+        order_value: computedSubtotal,
+      });
+
+      if (!quotedDeliveryOption) {
+        return res.status(400).json({
+          success: false,
+          message: 'The selected delivery option is not available for this address',
+        });
+      }
+
+      const normalizedDeliveryFee = quotedDeliveryOption.price;
+      const providedDeliveryFee = Number(delivery_fee ?? delivery_option?.price ?? 0) || 0;
+      if (Math.abs(providedDeliveryFee - normalizedDeliveryFee) > 0.01) {
+        console.warn('⚠️ Client/server delivery fee mismatch detected. Using server fee.', {
+          providedDeliveryFee,
+          computedDeliveryFee: normalizedDeliveryFee,
+        });
+      }
 
       // Discount code application - ONLY applies to product subtotal (not shipping)
       let appliedDiscountAmount = 0;
@@ -1033,10 +1542,19 @@ export class OrderController {
       // Calculate discounted subtotal (products only - discount does NOT apply to shipping)
       const discountedSubtotal = Math.max(0, computedSubtotal - appliedDiscountAmount);
 
-      // Tax should be calculated on the DISCOUNTED product subtotal (not original subtotal)
-      // Use the tax provided from frontend (which should already be calculated on discounted amount)
-      // If not provided, tax would be 0 (frontend should always provide it)
-      let normalizedTax = Number(tax ?? 0) || 0;
+      // Tax is calculated from the taxes table on the DISCOUNTED product subtotal and shipping
+      const taxResult = await taxService.calculateOrderTax({
+        subtotal: discountedSubtotal,
+        shipping: adjustedDeliveryFee,
+      });
+      const normalizedTax = taxResult.total;
+
+      if (tax !== undefined && tax !== null && Math.abs((Number(tax) || 0) - normalizedTax) > 0.01) {
+        console.warn('⚠️ Client/server tax mismatch detected. Using server tax.', {
+          providedTax: Number(tax) || 0,
+          computedTax: normalizedTax,
+        });
+      }
       
       // Log for verification
       console.log('💰 Order calculation:', {
@@ -1087,7 +1605,15 @@ export class OrderController {
       // Map delivery_address to shipping_address and include delivery_option in the address JSON
       const shippingAddress = delivery_address ? {
         ...delivery_address,
-        delivery_option: delivery_option || { name: 'Standard', price: adjustedDeliveryFee },
+        delivery_option: {
+          id: quotedDeliveryOption.id,
+          name: quotedDeliveryOption.name,
+          description: quotedDeliveryOption.description,
+          type: quotedDeliveryOption.type,
+          price: adjustedDeliveryFee,
+          estimated_days: quotedDeliveryOption.estimated_days,
+          zone_rate_id: quotedDeliveryOption.zone_rate_id,
+        },
       } : null;
 
       const shipping = shippingAddress as Record<string, any> | null;
@@ -1155,6 +1681,26 @@ export class OrderController {
         }
       }
 
+      // Cash modes depend on order value, region, delivery type and the customer's standing
+      if (isCashPaymentMethod(payment_method)) {
+        const eligibility = await cashPaymentService.checkEligibility({
+          method: payment_method,
+          total: computedTotal,
+          region: delivery_address?.region,
+          deliveryType: quotedDeliveryOption.type,
+          customerId,
+          userId: user_id || actor?.id || null,
+        });
+
+        if (!eligibility.eligible) {
+          return res.status(400).json({
+            success: false,
+            message: eligibility.message,
+            data: { reason: eligibility.reason },
+          });
+        }
+      }
+
       // Create order
       // Note: payment_reference column does NOT exist in orders table
       // Store it in shipping_address JSON instead (if provided)
@@ -1165,6 +1711,7 @@ export class OrderController {
         subtotal: Number(computedSubtotal.toFixed(2)),
         discount: appliedDiscountAmount,
         tax: normalizedTax,
+        tax_breakdown: taxResult.breakdown,
         shipping_fee: adjustedDeliveryFee,
         total: computedTotal,
         payment_method,
@@ -1176,18 +1723,29 @@ export class OrderController {
         notes: notes || null,
         discount_code: appliedDiscountCode,
         status: 'pending',
-        payment_status: payment_method === 'cash_on_delivery' ? 'pending' : 'pending', // Will be updated when payment verified
+        payment_status: 'pending', // Paid once verified, or when cash collection is confirmed
       };
 
       // DO NOT include payment_reference as a direct column - it doesn't exist in orders table
       // It's already stored in shipping_address JSON above (if provided)
 
-      const { data: orderData, error: orderError } = await supabaseAdmin
+      let { data: orderData, error: orderError } = await supabaseAdmin
         .from('orders')
         .insert([orderInsertData])
         .select()
         .single();
 
+      // Another checkout took the same number (e.g. a counter seeded below existing orders): draw a new one
+      for (let attempt = 1; !order_number && isUniqueViolation(orderError) && attempt <= 5; attempt++) {
+        orderInsertData.order_number = await this.generateOrderNumber();
+        console.warn(`⚠️ Order number collision, retrying with ${orderInsertData.order_number} (attempt ${attempt})`);
+        ({ data: orderData, error: orderError } = await supabaseAdmin
+          .from('orders')
+          .insert([orderInsertData])
+          .select()
+          .single());
+      }
+
       if (orderError) {
         console.error('❌ Order creation failed:', orderError);
         throw orderError;
@@ -1199,6 +1757,14 @@ export class OrderController {
         user_id: orderData.user_id,
       });
 
+      await orderStatusService.recordChange({
+        orderId: orderData.id,
+        fromStatus: null,
+        toStatus: orderData.status || 'pending',
+        changedBy: actor,
+        note: 'Order placed',
+      });
+
       // Determine which order items map to actual catalog products
       const productIdCandidates = Array.from(
         new Set(
@@ -1233,7 +1799,7 @@ export class OrderController {
       // Create order items and decrease stock
       let hasStandaloneItems = false;
 
-      const orderItems = order_items.map((item: any) => {
+      const orderItems = order_items.map((item: any, index: number) => {
         const candidateId = typeof item.product_id === 'string' && item.product_id.trim().length > 0
           ? item.product_id.trim()
           : typeof item.id === 'string' && item.id.trim().length > 0
@@ -1245,13 +1811,10 @@ export class OrderController {
           hasStandaloneItems = true;
         }
 
-        const quantity = Number(item.quantity) || 1;
-        const unitPrice = Number(
-          item.unit_price ?? item.price ?? item.original_price ?? 0
-        );
-        const totalPrice = Number(
-          item.subtotal ?? item.total_price ?? unitPrice * quantity
-        );
+        const pricedLine = pricedLines.get(index)!;
+        const quantity = pricedLine.quantity;
+        const unitPrice = pricedLine.unit_price;
+        const totalPrice = pricedLine.subtotal;
 
         // Normalize image URL - ensure we always have a valid URL (use placeholder if needed)
         let normalizedImage = this.normalizeImageUrl(item.product_image || item.thumbnail || item.image || null);
@@ -1315,6 +1878,48 @@ export class OrderController {
         return orderItemPayload;
       });
 
+      // Reserve stock atomically - the order is rejected if any line is short. A paid
+      // order is kept instead: the lines in stock are reserved and the short ones backordered
+      try {
+        const reserve = paidCharge
+          ? inventoryService.reserveAvailableStock.bind(inventoryService)
+          : inventoryService.reserveOrderStock.bind(inventoryService);
+        const reservation = await reserve(
+          orderData.id,
+          orderItems
+            .filter((item: any) => item.product_id)
+            .map((item: any) => ({
+              product_id: item.product_id,
+              quantity: item.quantity,
+              product_name: item.product_name,
+              selected_variants: item.variant_options,
+            })),
+          actor?.id || null
+        );
+
+        if (!reservation.success && paidCharge) {
+          console.warn(`⚠️ Paid order ${orderData.order_number} is short of stock, backordering the short lines:`, reservation.shortages);
+          reviewFlags.push({ type: 'backorder', shortages: reservation.shortages });
+        } else if (!reservation.success) {
+          console.warn('⚠️ Insufficient stock for order, rejecting:', reservation.shortages);
+          await supabaseAdmin.from('orders').delete().eq('id', orderData.id);
+          return res.status(409).json({
+            success: false,
+            message: 'Some items in your order are out of stock or do not have enough quantity available',
+            data: { shortages: reservation.shortages },
+          });
+        }
+      } catch (reservationError) {
+        console.error('❌ Stock reservation failed:', reservationError);
+        await supabaseAdmin.from('orders').delete().eq('id', orderData.id);
+        throw reservationError;
+      }
+
+      if (reviewFlags.length > 0) {
+        await this.flagPaidOrder(orderData, reviewFlags, paidCharge!.reference);
+        orderData.review_flags = reviewFlags;
+      }
+
       // ALWAYS fetch product images from database to ensure we have the latest images
       const r2Base = process.env.R2_PUBLIC_URL
         ? process.env.R2_PUBLIC_URL.replace(/\/$/, '')
@@ -1394,6 +1999,9 @@ export class OrderController {
 
       if (itemsError) {
         console.error('❌ Order items creation failed:', itemsError);
+        await inventoryService.releaseOrderStock(orderData.id, 'Order items could not be saved').catch((releaseError) => {
+          console.error('❌ Failed to release reserved stock:', releaseError);
+        });
         throw itemsError;
       }
       
@@ -1405,80 +2013,6 @@ export class OrderController {
         });
       }
 
-      // Decrease stock for each product in the order
-      try {
-        for (const item of orderItems) {
-          if (item.product_id) {
-          const { data: product, error: productError } = await supabaseAdmin
-            .from('products')
-            .select('stock_quantity, in_stock')
-            .eq('id', item.product_id)
-            .single();
-
-          if (!productError && product) {
-            const currentStock = product.stock_quantity || 0;
-            const newStock = Math.max(0, currentStock - item.quantity);
-            const newInStock = newStock > 0;
-
-            const { error: updateError } = await supabaseAdmin
-              .from('products')
-              .update({
-                stock_quantity: newStock,
-                in_stock: newInStock,
-              })
-              .eq('id', item.product_id);
-
-            if (updateError) {
-              console.error(`❌ Failed to update stock for product ${item.product_id}:`, updateError);
-            } else {
-              console.log(`✅ Decreased stock for product ${item.product_id}: ${currentStock} → ${newStock}`);
-            }
-          } else {
-            console.error(`❌ Error fetching product ${item.product_id} for stock update:`, productError);
-          }
-          }
-          // TODO: Uncomment when deal_product_id column is added and schema cache is refreshed
-          // Deal product stock update code commented out until migration is complete
-          // } else if (item.deal_product_id) {
-          //   const { data: dealProduct, error: dealProductError } = await supabaseAdmin
-          //     .from('deal_products')
-          //     .select('stock_quantity')
-          //     .eq('id', item.deal_product_id)
-          //     .single();
-
-          //   if (!dealProductError && dealProduct && dealProduct.stock_quantity !== null) {
-          //     const currentStock = dealProduct.stock_quantity || 0;
-          //     const newStock = Math.max(0, currentStock - item.quantity);
-
-          //     const { error: updateDealStockError } = await supabaseAdmin
-          //       .from('deal_products')
-          //       .update({ stock_quantity: newStock })
-          //       .eq('id', item.deal_product_id);
-
-          //     if (updateDealStockError) {
-          //       console.error(
-          //         `❌ Failed to update stock for deal product ${item.deal_product_id}:`,
-          //         updateDealStockError
-          //       );
-          //     } else {
-          //       console.log(
-          //         `✅ Decreased stock for deal product ${item.deal_product_id}: ${currentStock} → ${newStock}`
-          //       );
-          //     }
-          //   } else if (dealProductError) {
-          //     console.error(
-          //       `❌ Error fetching deal product ${item.deal_product_id} for stock update:`,
-          //       dealProductError
-          //     );
-          //   }
-          // }
-        }
-      } catch (stockError) {
-        console.error('❌ Error updating product stock:', stockError);
-        // Don't fail order creation if stock update fails - log and continue
-        // This allows the order to be created even if stock update fails
-      }
-
       // Create transaction record for this order (even if pending)
       // This ensures all orders have a transaction record for tracking
       try {
@@ -1517,7 +2051,7 @@ export class OrderController {
           user_id: user_id || null,
           transaction_reference: payment_reference || `TXN-${orderData.id.slice(0, 8)}`,
           payment_method: payment_method || 'cash_on_delivery',
-          payment_provider: payment_method === 'paystack' ? 'paystack' : payment_method === 'cash_on_delivery' ? 'cash' : 'other',
+          payment_provider: payment_method === 'paystack' ? 'paystack' : isCashPaymentMethod(payment_method) ? 'cash' : 'other',
           amount: computedTotal,
           currency: 'GHS',
           status: orderPaymentStatus === 'paid' ? 'success' : orderPaymentStatus === 'failed' ? 'failed' : 'pending',
@@ -1621,6 +2155,18 @@ export class OrderController {
       if (customerEmail) {
         try {
           console.log(`📧 Preparing to send order confirmation email to: ${customerEmail}`);
+
+          // Guests get a signed link to view, cancel or return this order without an account
+          let orderAccessUrl: string | null = null;
+          if (!user_id) {
+            try {
+              const accessLink = await orderAccessService.issueToken(orderData.id, { email: customerEmail });
+              orderAccessUrl = accessLink?.url || null;
+            } catch (linkError: any) {
+              console.error('Failed to create guest order link (confirmation still sent):', linkError?.message || linkError);
+            }
+          }
+
           const emailData = {
             ...orderData,
             user_id: user_id || null,
@@ -1629,6 +2175,7 @@ export class OrderController {
             items: orderItems,
             notes: orderData.notes || null,
             delivery_address: shippingAddress, // Keep for email template compatibility
+            order_access_url: orderAccessUrl,
           };
 
           const emailResult = await enhancedEmailService.sendOrderConfirmation(emailData);
@@ -1707,7 +2254,7 @@ export class OrderController {
         order_number: orderData.order_number,
         total: orderData.total,
         email_sent: true, // Email is sent above
-        stock_updated: true, // Stock is updated above
+        stock_updated: true, // Stock is reserved above
       });
 
       const responsePayload = {
@@ -1916,8 +2463,9 @@ export class OrderController {
 
       const currentUser = req.user;
       const isAdminUser = currentUser?.role === 'admin';
+      const hasOrderLink = req.orderAccess?.orderId === orderData.id;
 
-      if (!isAdminUser) {
+      if (!isAdminUser && !hasOrderLink) {
         if (!currentUser) {
           return res.status(401).json({
             success: false,
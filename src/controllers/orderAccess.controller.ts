@@ -0,0 +1,164 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { customerOrderService } from '../services/customerOrder.service';
+import { orderAccessService } from '../services/orderAccess.service';
+import { ReturnRequestController } from './returnRequest.controller';
+
+export class OrderAccessController {
+  private returnRequestController = new ReturnRequestController();
+
+  // Start a return from a guest link; same checks as the account page
+  async startReturn(req: AuthRequest, res: Response) {
+    try {
+      const orderId = req.orderAccess!.orderId;
+      const { reason, photos } = req.body;
+
+      const { data: order, error } = await supabaseAdmin
+        .from('orders')
+        .select('*, order_items:order_items(*)')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const [presented] = await customerOrderService.presentOrders([order]);
+      if (!presented.return_eligibility.eligible) {
+        return res.status(409).json({
+          success: false,
+          message: 'A return cannot be started for this order',
+          data: presented.return_eligibility,
+        });
+      }
+
+      // Guest return flow: the request is tied to the order number, not a user
+      return this.returnRequestController.createReturnRequest(
+        {
+          body: {
+            order_number: order.order_number,
+            reason,
+            photos: photos || [],
+          },
+        } as any,
+        res
+      );
+    } catch (error) {
+      console.error('Error starting return from access link:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to start return',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Guest links issued for an order (admin)
+  async getAccessLinks(req: AuthRequest, res: Response) {
+    try {
+      const links = await orderAccessService.listTokens(String(req.params.id));
+
+      res.json({
+        success: true,
+        data: links,
+      });
+    } catch (error) {
+      console.error('Error fetching order access links:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch order access links',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Issue a new guest link, e.g. when a customer lost the confirmation email (admin)
+  async createAccessLink(req: AuthRequest, res: Response) {
+    try {
+      const orderId = String(req.params.id);
+      const { expires_in_days } = req.body;
+
+      const { data: order, error } = await supabaseAdmin
+        .from('orders')
+        .select(`
+          id,
+          shipping_address,
+          user:users!orders_user_id_fkey(email),
+          customer:customers!orders_customer_id_fkey(email)
+        `)
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const orderData: any = order;
+      const link = await orderAccessService.issueToken(orderId, {
+        email: orderData.customer?.email || orderData.user?.email || orderData.shipping_address?.email || null,
+        createdBy: req.user?.id,
+        expiresInDays: expires_in_days,
+      });
+
+      if (!link) {
+        return res.status(503).json({
+          success: false,
+          message: 'Order links are not configured. Set ORDER_ACCESS_TOKEN_SECRET.',
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Order access link created',
+        data: link,
+      });
+    } catch (error) {
+      console.error('Error creating order access link:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create order access link',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Revoke a guest link immediately (admin)
+  async revokeAccessLink(req: AuthRequest, res: Response) {
+    try {
+      const revoked = await orderAccessService.revokeToken(
+        String(req.params.id),
+        String(req.params.tokenId),
+        req.user?.id
+      );
+
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          message: 'Active order access link not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Order access link revoked',
+        data: revoked,
+      });
+    } catch (error) {
+      console.error('Error revoking order access link:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke order access link',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
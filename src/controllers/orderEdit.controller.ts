@@ -0,0 +1,443 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import enhancedEmailService from '../services/enhanced-email.service';
+import { customerService } from '../services/customer.service';
+import { evaluateDiscount } from '../services/discount.service';
+import { inventoryService, normalizeVariantCombination, StockLine } from '../services/inventory.service';
+import { orderEditService } from '../services/orderEdit.service';
+import { pricingService } from '../services/pricing.service';
+import { shipmentService } from '../services/shipment.service';
+import { TaxLine, taxService } from '../services/tax.service';
+
+const ORDER_WITH_CUSTOMER_SELECT = `
+  *,
+  user:users!orders_user_id_fkey(id, first_name, last_name, email),
+  customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+  order_items:order_items(*)
+`;
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+const stockKey = (line: StockLine) => `${line.product_id}|${normalizeVariantCombination(line.selected_variants)}`;
+
+interface EditedLine {
+  order_item_id: string | null;
+  product_id: string | null;
+  deal_product_id: string | null;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  subtotal: number;
+  variant_options: Record<string, any>;
+}
+
+export class OrderEditController {
+  // Audit trail of line-item edits for an order (admin)
+  async getOrderEdits(req: AuthRequest, res: Response) {
+    try {
+      const edits = await orderEditService.getEdits(String(req.params.id));
+
+      res.json({
+        success: true,
+        data: edits,
+      });
+    } catch (error) {
+      console.error('Error fetching order edits:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch order edits',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Replace the line items of an order (admin). The body lists every line the
+   * order should have afterwards: lines with an order_item_id are kept (with a
+   * new quantity or options), lines without one are added and lines left out
+   * are removed. Kept lines keep the price the customer was charged unless
+   * their options change or reprice_existing is set; everything else is priced
+   * from the catalogue. Discount, tax and total are recalculated and reserved
+   * stock is adjusted to match.
+   */
+  async updateOrderItems(req: AuthRequest, res: Response) {
+    try {
+      const orderId = String(req.params.id);
+      const { items, reprice_existing, notify_customer, reason } = req.body;
+
+      const { data: order, error: orderError } = await supabaseAdmin
+        .from('orders')
+        .select('*, order_items:order_items(*)')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (orderError) throw orderError;
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const shipments = await shipmentService.getShipments(orderId);
+      const blocker = orderEditService.getEditBlocker(order, shipments);
+      if (blocker) {
+        return res.status(409).json({
+          success: false,
+          message: blocker,
+          data: { current_status: order.status, payment_status: order.payment_status },
+        });
+      }
+
+      const currentItems: any[] = order.order_items || [];
+      const currentById = new Map<string, any>(currentItems.map((item) => [item.id, item]));
+
+      const seen = new Set<string>();
+      const invalidItems = (items as any[])
+        .map((item) => {
+          if (!item.order_item_id) return null;
+          if (!currentById.has(item.order_item_id)) return { order_item_id: item.order_item_id, reason: 'not_in_order' };
+          if (seen.has(item.order_item_id)) return { order_item_id: item.order_item_id, reason: 'duplicate' };
+          seen.add(item.order_item_id);
+          return null;
+        })
+        .filter(Boolean);
+
+      if (invalidItems.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Some items are not part of this order or are listed more than once',
+          data: { invalid_items: invalidItems },
+        });
+      }
+
+      const requestedLines = (items as any[]).map((item) => {
+        const existing = item.order_item_id ? currentById.get(item.order_item_id) : null;
+        const variantOptions = item.selected_variants !== undefined
+          ? item.selected_variants || {}
+          : existing?.variant_options || {};
+        const variantsChanged = !!existing &&
+          normalizeVariantCombination(variantOptions) !== normalizeVariantCombination(existing.variant_options);
+
+        return {
+          existing,
+          product_id: existing ? existing.product_id || null : item.product_id,
+          deal_product_id: existing?.deal_product_id || null,
+          product_name: existing?.product_name || null,
+          quantity: Number(item.quantity),
+          variant_options: variantOptions,
+          reprice: !existing || variantsChanged || !!reprice_existing,
+        };
+      });
+
+      // Catalogue prices for new lines, lines with new options and (optionally) everything else
+      const toPrice = requestedLines.filter((line) => line.reprice);
+      const pricing = await pricingService.priceOrderItems(
+        toPrice.map((line) => ({
+          product_id: line.product_id,
+          deal_product_id: line.deal_product_id,
+          product_name: line.product_name,
+          quantity: line.quantity,
+          selected_variants: line.variant_options,
+        }))
+      );
+
+      if (pricing.mismatches.length > 0) {
+        return res.status(409).json({
+          success: false,
+          message: 'Some items are no longer available and cannot be added to the order',
+          data: { unavailable_items: pricing.mismatches },
+        });
+      }
+
+      const pricedByLine = new Map(pricing.lines.map((line) => [toPrice[line.index], line]));
+      const editedLines: EditedLine[] = requestedLines.map((line) => {
+        const priced = pricedByLine.get(line);
+        const unitPrice = priced ? priced.unit_price : Number(line.existing.unit_price) || 0;
+
+        return {
+          order_item_id: line.existing?.id || null,
+          product_id: line.product_id,
+          deal_product_id: line.deal_product_id,
+          product_name: line.product_name || priced?.product_name || 'Product',
+          quantity: line.quantity,
+          unit_price: unitPrice,
+          subtotal: roundMoney(unitPrice * line.quantity),
+          variant_options: line.variant_options,
+        };
+      });
+
+      // Totals: same order of operations as checkout (discount on products, then tax)
+      const subtotal = roundMoney(editedLines.reduce((sum, line) => sum + line.subtotal, 0));
+      const shippingFee = Number(order.shipping_fee) || 0;
+      let discount = Math.min(Number(order.discount) || 0, subtotal);
+
+      if (order.discount_code) {
+        try {
+          const discountResult = await evaluateDiscount({
+            code: order.discount_code,
+            subtotal,
+            deliveryFee: shippingFee,
+            items: editedLines,
+          });
+          discount = Math.min(discountResult.discountAmount, subtotal);
+        } catch (discountError: any) {
+          // The code may have expired or hit its limit since checkout; keep what the customer was given
+          console.warn(`⚠️ Could not re-evaluate discount ${order.discount_code} for order ${orderId}:`, discountError?.message);
+        }
+      }
+
+      const discountedSubtotal = Math.max(0, subtotal - discount);
+      const storedBreakdown: TaxLine[] = Array.isArray(order.tax_breakdown) ? order.tax_breakdown : [];
+      const recalculatedTax = storedBreakdown.length > 0
+        ? taxService.calculate(taxService.rulesFromBreakdown(storedBreakdown), {
+            subtotal: discountedSubtotal,
+            shipping: shippingFee,
+          })
+        : null;
+      const tax = recalculatedTax ? recalculatedTax.total : Number(order.tax) || 0;
+      const total = roundMoney(discountedSubtotal + tax + shippingFee);
+
+      // Adjust reserved stock before touching the order so a shortage leaves it unchanged
+      const actorId = req.user?.id || null;
+      const toStockLines = (lines: Array<{ product_id: string | null; product_name?: string | null; quantity: number; variant_options?: any }>) =>
+        lines
+          .filter((line) => !!line.product_id)
+          .map((line) => ({
+            product_id: line.product_id as string,
+            product_name: line.product_name || null,
+            quantity: Number(line.quantity) || 0,
+            selected_variants: line.variant_options || null,
+          }));
+
+      const previousStock = toStockLines(currentItems);
+      const stock = await this.reserveEditedStock(orderId, previousStock, toStockLines(editedLines), actorId);
+      if (!stock.result.success) {
+        return res.status(409).json({
+          success: false,
+          message: 'Not enough stock for the edited items',
+          data: { shortages: stock.result.shortages },
+        });
+      }
+
+      try {
+        await this.saveOrderItems(orderId, currentItems, editedLines);
+
+        const { error: updateError } = await supabaseAdmin
+          .from('orders')
+          .update({
+            subtotal,
+            discount,
+            tax,
+            ...(recalculatedTax ? { tax_breakdown: recalculatedTax.breakdown } : {}),
+            total,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', orderId);
+
+        if (updateError) throw updateError;
+      } catch (saveError) {
+        await this.restoreStock(orderId, previousStock, stock.hadReservation, actorId);
+        throw saveError;
+      }
+
+      // Unpaid payment attempts must be charged the new amount
+      if (order.payment_status !== 'paid') {
+        const { error: transactionError } = await supabaseAdmin
+          .from('transactions')
+          .update({ amount: total, updated_at: new Date().toISOString() })
+          .eq('order_id', orderId)
+          .eq('payment_status', 'pending');
+
+        if (transactionError) {
+          console.warn('Warning: Failed to update pending transaction amount:', transactionError);
+        }
+      }
+
+      const { data: updatedOrder, error: fetchError } = await supabaseAdmin
+        .from('orders')
+        .select(ORDER_WITH_CUSTOMER_SELECT)
+        .eq('id', orderId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const before = orderEditService.snapshot(order, currentItems);
+      const after = orderEditService.snapshot(updatedOrder, updatedOrder.order_items || []);
+      const changes = orderEditService.diff(before, after);
+
+      const customerNotified = notify_customer
+        ? await this.notifyCustomer(updatedOrder, orderEditService.describeChanges(changes), before.total)
+        : false;
+
+      await orderEditService.recordEdit({
+        orderId,
+        editedBy: req.user,
+        reason: reason || null,
+        before,
+        after,
+        changes,
+        customerNotified,
+      });
+
+      res.json({
+        success: true,
+        message: 'Order items updated successfully',
+        data: {
+          order: updatedOrder,
+          changes,
+          previous_total: before.total,
+          total: after.total,
+          // Paid orders: positive means the customer owes more, negative means a refund is due
+          balance_due: order.payment_status === 'paid' ? roundMoney(after.total - before.total) : null,
+          customer_notified: customerNotified,
+        },
+      });
+    } catch (error) {
+      console.error('Error updating order items:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update order items',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Release what the order holds and reserve the edited lines. Orders placed
+   * before stock reservation hold nothing, so only the extra quantity is taken
+   * for them. On a shortage the original reservation is put back.
+   */
+  private async reserveEditedStock(orderId: string, previousLines: StockLine[], editedLines: StockLine[], actorId: string | null) {
+    const released = await inventoryService.releaseOrderStock(orderId, 'Order items edited by admin', actorId);
+    const hadReservation = released.length > 0;
+
+    let linesToReserve = editedLines;
+    if (!hadReservation) {
+      const previousQuantities = new Map<string, number>();
+      for (const line of previousLines) {
+        previousQuantities.set(stockKey(line), (previousQuantities.get(stockKey(line)) || 0) + line.quantity);
+      }
+      linesToReserve = editedLines
+        .map((line) => {
+          const key = stockKey(line);
+          const extra = line.quantity - (previousQuantities.get(key) || 0);
+          previousQuantities.set(key, Math.max((previousQuantities.get(key) || 0) - line.quantity, 0));
+          return { ...line, quantity: extra };
+        })
+        .filter((line) => line.quantity > 0);
+    }
+
+    const result = await inventoryService.reserveOrderStock(orderId, linesToReserve, actorId);
+    if (!result.success && hadReservation) {
+      await this.restoreStock(orderId, previousLines, true, actorId);
+    }
+
+    return { result, hadReservation };
+  }
+
+  // Undo the edit's reservation and put the pre-edit one back (never throws)
+  private async restoreStock(orderId: string, previousLines: StockLine[], hadReservation: boolean, actorId: string | null) {
+    try {
+      await inventoryService.releaseOrderStock(orderId, 'Order edit rolled back', actorId);
+      if (hadReservation) {
+        const restored = await inventoryService.reserveOrderStock(orderId, previousLines, actorId);
+        if (!restored.success) {
+          console.error(`❌ Could not restore stock reservation for order ${orderId}:`, restored.shortages);
+        }
+      }
+    } catch (restoreError: any) {
+      console.error(`❌ Failed to restore stock for order ${orderId}:`, restoreError?.message || restoreError);
+    }
+  }
+
+  // Insert new lines first and delete removed ones last so a failure never empties the order
+  private async saveOrderItems(orderId: string, currentItems: any[], editedLines: EditedLine[]) {
+    const newLines = editedLines.filter((line) => !line.order_item_id);
+    if (newLines.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('order_items')
+        .insert(
+          newLines.map((line) => ({
+            order_id: orderId,
+            product_id: line.product_id,
+            product_name: line.product_name,
+            quantity: line.quantity,
+            unit_price: line.unit_price,
+            subtotal: line.subtotal,
+            variant_options: line.variant_options,
+          }))
+        );
+
+      if (error) throw error;
+    }
+
+    for (const line of editedLines.filter((entry) => !!entry.order_item_id)) {
+      const { error } = await supabaseAdmin
+        .from('order_items')
+        .update({
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          subtotal: line.subtotal,
+          variant_options: line.variant_options,
+        })
+        .eq('id', line.order_item_id as string)
+        .eq('order_id', orderId);
+
+      if (error) throw error;
+    }
+
+    const keptIds = new Set(editedLines.map((line) => line.order_item_id).filter(Boolean));
+    const removedIds = currentItems.map((item) => item.id).filter((id) => !keptIds.has(id));
+    if (removedIds.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('order_items')
+        .delete()
+        .in('id', removedIds)
+        .eq('order_id', orderId);
+
+      if (error) throw error;
+    }
+  }
+
+  // "Order updated" email; returns whether it was sent, failures are logged
+  private async notifyCustomer(orderData: any, itemChanges: string[], previousTotal: number): Promise<boolean> {
+    try {
+      const { email: customerEmail, name: customerName } = customerService.getOrderContact(orderData);
+
+      if (!customerEmail) {
+        console.warn('No email found for order edit. Order:', orderData.id);
+        return false;
+      }
+
+      const emailResult = await enhancedEmailService.sendOrderUpdate(
+        {
+          ...orderData,
+          customer_name: customerName,
+          customer_email: customerEmail,
+          items: orderData.order_items || [],
+          delivery_address: orderData.shipping_address || orderData.delivery_address,
+        },
+        {
+          items_changed: true,
+          item_changes: itemChanges,
+          old_total: previousTotal,
+          new_total: Number(orderData.total) || 0,
+        }
+      );
+
+      if (emailResult.skipped) {
+        console.log(`Order edit email skipped: ${emailResult.reason}`);
+        return false;
+      }
+      if (!emailResult.success) {
+        console.error('Failed to send order edit email:', emailResult.reason);
+      }
+      return emailResult.success;
+    } catch (emailError: any) {
+      console.error('Error sending order edit email (order edit still succeeded):', emailError?.message || emailError);
+      return false;
+    }
+  }
+}
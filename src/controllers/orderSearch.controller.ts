@@ -0,0 +1,213 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { isUniqueViolation } from '../services/documentNumber.service';
+import { orderSearchService } from '../services/orderSearch.service';
+
+const ORDER_SEARCH_SELECT = `
+  *,
+  user:users!orders_user_id_fkey(id, first_name, last_name, full_name, email),
+  customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+  order_items:order_items(*)
+`;
+
+export class OrderSearchController {
+  // Filtered, sorted, cursor-paginated order list; a saved search supplies defaults the query can override (admin)
+  async searchOrders(req: AuthRequest, res: Response) {
+    try {
+      let params: Record<string, unknown> = { ...req.query };
+
+      if (req.query.saved_search_id) {
+        const saved = await orderSearchService.getSavedSearch(req.user!.id, String(req.query.saved_search_id));
+        if (!saved) {
+          return res.status(404).json({
+            success: false,
+            message: 'Saved search not found',
+          });
+        }
+        params = { ...saved.filters, sort: saved.sort, direction: saved.direction, ...req.query };
+      }
+
+      const { filters, errors: filterErrors } = orderSearchService.parseFilters(params);
+      const { sort, errors: sortErrors } = orderSearchService.parseSort(params);
+      const errors = [...filterErrors, ...sortErrors];
+
+      const cursor = params.cursor ? String(params.cursor) : null;
+      if (cursor && !orderSearchService.decodeCursor(cursor)) {
+        errors.push('Invalid cursor');
+      }
+
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: errors.join('; '),
+        });
+      }
+
+      const page = await orderSearchService.search(filters, {
+        ...sort,
+        cursor,
+        limit: params.limit ? parseInt(String(params.limit), 10) || undefined : undefined,
+        columns: ORDER_SEARCH_SELECT,
+      });
+
+      res.json({
+        success: true,
+        data: page.orders,
+        filters,
+        sort,
+        pagination: {
+          limit: page.limit,
+          next_cursor: page.nextCursor,
+          has_more: page.hasMore,
+        },
+      });
+    } catch (error) {
+      console.error('Error searching orders:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to search orders',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // The signed-in admin's saved searches
+  async getSavedSearches(req: AuthRequest, res: Response) {
+    try {
+      const searches = await orderSearchService.listSavedSearches(req.user!.id);
+
+      res.json({
+        success: true,
+        data: searches,
+      });
+    } catch (error) {
+      console.error('Error fetching saved order searches:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch saved searches',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async createSavedSearch(req: AuthRequest, res: Response) {
+    try {
+      const { name, filters: rawFilters, sort: sortField, direction } = req.body;
+
+      const { filters, errors: filterErrors } = orderSearchService.parseFilters(rawFilters || {});
+      const { sort, errors: sortErrors } = orderSearchService.parseSort({ sort: sortField, direction });
+      const errors = [...filterErrors, ...sortErrors];
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: errors.join('; '),
+        });
+      }
+
+      const search = await orderSearchService.createSavedSearch(req.user!.id, { name, filters, sort });
+
+      res.status(201).json({
+        success: true,
+        message: 'Search saved',
+        data: search,
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({
+          success: false,
+          message: 'You already have a saved search with this name',
+        });
+      }
+      console.error('Error saving order search:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to save search',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async updateSavedSearch(req: AuthRequest, res: Response) {
+    try {
+      const searchId = String(req.params.searchId);
+      const { name, filters: rawFilters, sort: sortField, direction } = req.body;
+
+      const existing = await orderSearchService.getSavedSearch(req.user!.id, searchId);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: 'Saved search not found',
+        });
+      }
+
+      const parsedFilters = rawFilters !== undefined ? orderSearchService.parseFilters(rawFilters) : null;
+      const parsedSort =
+        sortField !== undefined || direction !== undefined
+          ? orderSearchService.parseSort({ sort: sortField ?? existing.sort, direction: direction ?? existing.direction })
+          : null;
+      const errors = [...(parsedFilters?.errors || []), ...(parsedSort?.errors || [])];
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: errors.join('; '),
+        });
+      }
+
+      const search = await orderSearchService.updateSavedSearch(req.user!.id, searchId, {
+        name,
+        filters: parsedFilters?.filters,
+        sort: parsedSort?.sort,
+      });
+
+      if (!search) {
+        return res.status(404).json({
+          success: false,
+          message: 'Saved search not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Saved search updated',
+        data: search,
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({
+          success: false,
+          message: 'You already have a saved search with this name',
+        });
+      }
+      console.error('Error updating saved order search:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update saved search',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async deleteSavedSearch(req: AuthRequest, res: Response) {
+    try {
+      const deleted = await orderSearchService.deleteSavedSearch(req.user!.id, String(req.params.searchId));
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: 'Saved search not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Saved search deleted',
+      });
+    } catch (error) {
+      console.error('Error deleting saved order search:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete saved search',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
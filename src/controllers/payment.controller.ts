@@ -1,82 +1,58 @@
 import { Request, Response } from 'express';
-import axios from 'axios';
 import { supabaseAdmin } from '../utils/supabaseClient';
+import { draftOrderService } from '../services/draftOrder.service';
+import { refundService } from '../services/refund.service';
+import { DEFAULT_PAYMENT_PROVIDER, paymentProviderService } from '../services/paymentProvider.service';
+import type { ProviderTransaction } from '../services/paymentProvider.service';
+import { webhookEventService } from '../services/webhookEvent.service';
+import { transactionService } from '../services/transaction.service';
+import { paymentService } from '../services/payment.service';
+import { paymentVerificationService } from '../services/paymentVerification.service';
+import { RawBodyRequest } from '../middleware/rawBody.middleware';
+import type { PaidOrderRequest } from './order.controller';
+
+// A stand-in Response that keeps what a handler sends, for running handlers outside a request
+const captureResponse = () => {
+  const captured = { status: 200, body: undefined as any, headersSent: false };
+  const response = {
+    get headersSent() {
+      return captured.headersSent;
+    },
+    status(code: number) {
+      captured.status = code;
+      return this;
+    },
+    json(body: any) {
+      captured.body = body;
+      captured.headersSent = true;
+      return this;
+    },
+  } as unknown as Response;
+
+  return { captured, response };
+};
 
 export class PaymentController {
-  // Initialize Paystack transaction (from backend as per Paystack best practices)
+  // Initialize a payment with the provider configured for its payment method
   async initializeTransaction(req: Request, res: Response) {
     try {
-      const { email, amount, reference, callback_url, metadata } = req.body;
+      const { email, amount, reference, callback_url, metadata, payment_method } = req.body;
 
-      // Validate required fields
-      if (!email || !amount || !reference) {
-        return res.status(400).json({
+      const result = await paymentService.initialize({ email, amount, reference, callback_url, metadata, payment_method });
+      if (!result.success) {
+        return res.status(result.status).json({
           success: false,
-          message: 'Email, amount, and reference are required',
+          message: result.message,
         });
       }
 
-      // Validate email format
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(email)) {
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid email format',
-        });
-      }
-
-      const paystackSecretKey = process.env.PAYSTACK_SECRET_KEY;
-      if (!paystackSecretKey) {
-        return res.status(500).json({
-          success: false,
-          message: 'Paystack secret key not configured',
-        });
-      }
-
-      // Prepare Paystack initialize transaction payload
-      const payload: any = {
-        email,
-        amount: Math.round(amount), // Amount in pesewas (GHS * 100)
-        reference,
-        currency: 'GHS',
-      };
-
-      // Add callback URL if provided
-      if (callback_url) {
-        payload.callback_url = callback_url;
-      }
-
-      // Add metadata if provided
-      if (metadata) {
-        payload.metadata = metadata;
-      }
-
-      // Initialize transaction with Paystack
-      const response = await axios.post(
-        'https://api.paystack.co/transaction/initialize',
-        payload,
-        {
-          headers: {
-            Authorization: `Bearer ${paystackSecretKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (response.data.status) {
-        return res.json({
-          success: true,
-          data: response.data.data,
-          message: 'Transaction initialized successfully',
-        });
-      } else {
-        return res.status(400).json({
-          success: false,
-          message: response.data.message || 'Failed to initialize transaction',
-        });
-      }
+      return res.json({
+        success: true,
+        data: result.data,
+        message: 'Transaction initialized successfully',
+      });
     } catch (error: any) {
-      console.error('Error initializing Paystack transaction:', error);
+      console.error('Error initializing payment transaction:', error);
       return res.status(500).json({
         success: false,
         message: error.response?.data?.message || 'Failed to initialize transaction',
@@ -85,7 +61,7 @@ export class PaymentController {
     }
   }
 
-  // Verify Paystack transaction
+  // Verify a transaction with the provider that issued it
   async verifyTransaction(req: Request, res: Response) {
     try {
       const { reference } = req.body;
@@ -97,47 +73,50 @@ export class PaymentController {
         });
       }
 
-      const paystackSecretKey = process.env.PAYSTACK_SECRET_KEY;
-      if (!paystackSecretKey) {
+      const provider = await paymentProviderService.forReference(reference);
+      if (!provider.isConfigured()) {
         return res.status(500).json({
           success: false,
-          message: 'Paystack secret key not configured',
+          message: `Payment provider ${provider.name} is not configured`,
         });
       }
 
-      // Verify transaction with Paystack
-      const response = await axios.get(
-        `https://api.paystack.co/transaction/verify/${reference}`,
-        {
-          headers: {
-            Authorization: `Bearer ${paystackSecretKey}`,
-          },
-        }
-      );
+      const transaction = await provider.verify(reference);
 
-      if (response.data.status) {
-        const transaction = response.data.data;
+      if (transaction) {
 
         // Verify transaction status and amount
         const isSuccessful = transaction.status === 'success';
         const verifiedAmount = transaction.amount;
 
+        // Check the charged amount against the order, or against the checkout total when the order is placed after payment
+        const order = isSuccessful ? await paymentVerificationService.findOrder(transaction, reference) : null;
+        const checkoutTotal = Number(transaction.metadata?.checkout_data?.total);
+        let verification =
+          isSuccessful && !order && Number.isFinite(checkoutTotal)
+            ? paymentVerificationService.compare(transaction, checkoutTotal)
+            : null;
+        let paymentStatus = !isSuccessful ? 'failed' : verification ? paymentVerificationService.paymentStatusFor(verification) : 'pending';
+
         // Save transaction to database for tracking
         try {
           const transactionData: any = {
             transaction_reference: reference,
             paystack_reference: transaction.reference,
             payment_method: transaction.metadata?.payment_method || 'paystack',
-            payment_provider: 'paystack',
+            payment_provider: provider.name,
             amount: verifiedAmount / 100, // Convert from pesewas to GHS
             currency: transaction.currency || 'GHS',
             status: isSuccessful ? 'success' : 'failed',
-            payment_status: isSuccessful ? 'paid' : 'failed',
+            payment_status: paymentStatus,
             customer_email: transaction.customer?.email || transaction.metadata?.customer_email || '',
             customer_code: transaction.customer?.customer_code || null,
             authorization_code: transaction.authorization?.authorization_code || null,
             channel: transaction.channel || null,
-            metadata: transaction.metadata || {},
+            metadata: {
+              ...(transaction.metadata || {}),
+              ...(verification ? { amount_verification: verification } : {}),
+            },
             initiated_at: transaction.created_at ? new Date(transaction.created_at).toISOString() : new Date().toISOString(),
           };
 
@@ -195,14 +174,21 @@ export class PaymentController {
             console.error('Error saving transaction to database:', dbError);
             // Don't fail the request if DB save fails
           }
+
+          if (order) {
+            ({ verification, paymentStatus } = await paymentVerificationService.settle(order.id, transaction, reference));
+          }
         } catch (dbError) {
           console.error('Error saving transaction:', dbError);
           // Don't fail the request if DB save fails
         }
 
+        // An underpayment or a charge in the wrong currency does not pay for the order
+        const amountAccepted = !verification || paymentVerificationService.paymentStatusFor(verification) === 'paid';
+
         // Return response with metadata for frontend to use
         return res.json({
-          success: isSuccessful,
+          success: isSuccessful && amountAccepted,
           data: {
             reference: transaction.reference,
             status: transaction.status, // 'success' if payment successful
@@ -212,17 +198,23 @@ export class PaymentController {
             metadata: transaction.metadata || {}, // Include metadata (checkout_data, user_id, etc.)
             paid_at: transaction.paid_at,
             created_at: transaction.created_at,
+            payment_status: paymentStatus,
+            amount_verification: verification,
           },
-          message: isSuccessful ? 'Transaction verified successfully' : 'Transaction verification failed',
+          message: !isSuccessful
+            ? 'Transaction verification failed'
+            : amountAccepted
+              ? 'Transaction verified successfully'
+              : 'Payment amount or currency does not match the order',
         });
       } else {
         return res.status(400).json({
           success: false,
-          message: response.data.message || 'Transaction verification failed',
+          message: 'Transaction verification failed',
         });
       }
     } catch (error: any) {
-      console.error('Error verifying Paystack transaction:', error);
+      console.error('Error verifying payment transaction:', error);
       return res.status(500).json({
         success: false,
         message: error.response?.data?.message || 'Failed to verify transaction',
@@ -231,207 +223,321 @@ export class PaymentController {
     }
   }
 
-  // Handle Paystack webhook (for automatic order creation after payment)
+  /**
+   * Handle provider webhooks (Paystack, or the provider named in the URL).
+   * The signature is checked against the raw request body, and every event is
+   * logged to webhook_events; an event that was already processed is
+   * acknowledged without running again.
+   */
   async handleWebhook(req: Request, res: Response) {
     try {
-      const crypto = require('crypto');
-      const paystackSecretKey = process.env.PAYSTACK_SECRET_KEY;
-      
-      if (!paystackSecretKey) {
-        console.error('Paystack secret key not configured');
+      const providerName = req.params.provider ? String(req.params.provider) : DEFAULT_PAYMENT_PROVIDER;
+      const provider = paymentProviderService.get(providerName);
+      if (!provider) {
+        return res.status(404).json({
+          success: false,
+          message: `Unknown payment provider: ${providerName}`,
+        });
+      }
+
+      if (!provider.isConfigured()) {
+        console.error(`Payment provider ${provider.name} not configured`);
         return res.status(500).json({
           success: false,
-          message: 'Paystack secret key not configured',
+          message: `Payment provider ${provider.name} is not configured`,
         });
       }
 
-      // Verify webhook signature (Paystack sends X-Paystack-Signature header)
-      const signature = req.headers['x-paystack-signature'] as string;
-      if (!signature) {
-        console.error('Missing Paystack signature in webhook');
+      const rawBody = (req as RawBodyRequest).rawBody?.toString('utf8');
+      if (!rawBody) {
         return res.status(400).json({
           success: false,
-          message: 'Missing signature',
+          message: 'Missing request body',
         });
       }
 
-      // Verify signature
-      const hash = crypto
-        .createHmac('sha512', paystackSecretKey)
-        .update(JSON.stringify(req.body))
-        .digest('hex');
+      let event: any;
+      try {
+        event = JSON.parse(rawBody);
+      } catch {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid JSON payload',
+        });
+      }
 
-      if (hash !== signature) {
-        console.error('Invalid Paystack webhook signature');
+      // Verify the webhook signature against the bytes the provider signed
+      if (!provider.verifyWebhook(rawBody, req.headers)) {
+        console.error(`Invalid ${provider.name} webhook signature`);
+        await webhookEventService.recordRejected(provider.name, event, rawBody);
         return res.status(400).json({
           success: false,
           message: 'Invalid signature',
         });
       }
 
-      const event = req.body;
-      console.log('🔔 Paystack webhook received:', {
+      console.log(`🔔 ${provider.name} webhook received:`, {
         event: event.event,
         reference: event.data?.reference,
         status: event.data?.status,
       });
 
-      // Handle payment.success event
-      if (event.event === 'charge.success' || event.event === 'transaction.success') {
-        const transaction = event.data;
-        
-        if (transaction.status === 'success') {
-          const transactionReference = transaction.reference;
-
-          if (!transactionReference) {
-            console.error('❌ Webhook payload missing transaction reference');
-            return res.status(400).json({
-              success: false,
-              message: 'Missing transaction reference',
-            });
-          }
+      const claim = await webhookEventService.claim(provider.name, event, rawBody);
+      if (claim.duplicate) {
+        console.log('ℹ️  Duplicate webhook event', claim.event.event_id);
+        return res.json({
+          success: true,
+          message: 'Webhook already processed',
+        });
+      }
 
-          // Idempotency guard: check if this transaction already has an order linked
-          try {
-            const { data: existingTxn, error: existingTxnError } = await supabaseAdmin
-              .from('transactions')
-              .select('id, order_id')
-              .eq('transaction_reference', transactionReference)
-              .maybeSingle();
+      const result = await this.runWebhookEvent(claim.event.id, event);
+      return res.status(result.status).json(result.body);
+    } catch (error: any) {
+      console.error('Error handling payment webhook:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to process webhook',
+        error: error.message,
+      });
+    }
+  }
 
-            if (existingTxnError) {
-              console.warn('⚠️  Unable to check existing transaction for idempotency:', existingTxnError);
-            }
+  // Process a claimed webhook event and record the outcome on its log entry (also used for replays)
+  async runWebhookEvent(eventLogId: string, event: any): Promise<{ status: number; body: any }> {
+    const { captured, response } = captureResponse();
 
-            if (existingTxn?.order_id) {
-              console.log('ℹ️  Webhook already processed for transaction', transactionReference);
-              return res.json({
-                success: true,
-                message: 'Webhook already processed',
-              });
-            }
+    try {
+      await this.processWebhookEvent(event, response);
+    } catch (error: any) {
+      console.error('Error processing payment webhook event:', error);
+      captured.status = 500;
+      captured.body = {
+        success: false,
+        message: 'Failed to process webhook',
+        error: error.message,
+      };
+    }
 
-            // Secondary guard: check orders table for matching payment reference in shipping_address JSON
-            const { data: existingOrder, error: existingOrderError } = await supabaseAdmin
-              .from('orders')
-              .select('id')
-              .eq('shipping_address->>payment_reference', transactionReference)
-              .maybeSingle();
+    await webhookEventService.complete(eventLogId, captured.status, captured.body);
+    return { status: captured.status, body: captured.body ?? { success: true } };
+  }
 
-            if (existingOrderError) {
-              console.warn('⚠️  Unable to check existing order for idempotency:', existingOrderError);
-            }
+  // Apply a verified webhook event; the response goes to `res` (a captured one for logged events)
+  private async processWebhookEvent(event: any, res: Response) {
+    // Refunds issued from the admin panel settle here
+    if (event.event === 'refund.processed' || event.event === 'refund.failed') {
+      await refundService.handleWebhookEvent(event.event, event.data);
+      return res.json({
+        success: true,
+        message: 'Refund event processed',
+      });
+    }
 
-            if (existingOrder) {
-              console.log('ℹ️  Order already exists for transaction reference', transactionReference);
-              return res.json({
-                success: true,
-                message: 'Webhook already processed',
-              });
-            }
-          } catch (idempotencyError) {
-            console.warn('⚠️  Idempotency check failed, continuing processing:', idempotencyError);
+    // Handle payment.success event
+    if (event.event === 'charge.success' || event.event === 'transaction.success') {
+      const transaction = event.data;
+      
+      if (transaction.status === 'success') {
+        const transactionReference = transaction.reference;
+
+        if (!transactionReference) {
+          console.error('❌ Webhook payload missing transaction reference');
+          return res.status(400).json({
+            success: false,
+            message: 'Missing transaction reference',
+          });
+        }
+
+        // Quote payments: the order already exists (created from the draft), just settle it
+        if (transaction.metadata?.draft_order_id && transaction.metadata?.order_id) {
+          await draftOrderService.recordPayment(transaction);
+          console.log('✅ Quote payment recorded for order', transaction.metadata.order_id);
+          return res.json({
+            success: true,
+            message: 'Quote payment recorded',
+          });
+        }
+
+        // Idempotency guard: check if this transaction already has an order linked
+        let existingOrderId: string | null = null;
+        try {
+          const { data: existingTxn, error: existingTxnError } = await supabaseAdmin
+            .from('transactions')
+            .select('id, order_id')
+            .eq('transaction_reference', transactionReference)
+            .maybeSingle();
+
+          if (existingTxnError) {
+            console.warn('⚠️  Unable to check existing transaction for idempotency:', existingTxnError);
           }
 
-          console.log('✅ Payment successful, creating order from webhook...');
-          
-          // Get checkout data from metadata
-          const metadata = transaction.metadata || {};
-          const checkoutData = metadata.checkout_data;
-          
-          if (!checkoutData) {
-            console.error('❌ No checkout data in webhook metadata');
-            return res.status(400).json({
-              success: false,
-              message: 'No checkout data found in metadata',
-            });
+          if (existingTxn?.order_id) {
+            console.log('ℹ️  Webhook already processed for transaction', transactionReference);
+            existingOrderId = existingTxn.order_id;
+          }
+
+          // Secondary guard: check orders table for matching payment reference in shipping_address JSON
+          const { data: existingOrder, error: existingOrderError } = await supabaseAdmin
+            .from('orders')
+            .select('id')
+            .eq('shipping_address->>payment_reference', transactionReference)
+            .maybeSingle();
+
+          if (existingOrderError) {
+            console.warn('⚠️  Unable to check existing order for idempotency:', existingOrderError);
+          }
+
+          if (existingOrder && !existingOrderId) {
+            console.log('ℹ️  Order already exists for transaction reference', transactionReference);
+            existingOrderId = existingOrder.id;
           }
+        } catch (idempotencyError) {
+          console.warn('⚠️  Idempotency check failed, continuing processing:', idempotencyError);
+        }
+
+        // The order was placed already (e.g. by the storefront after verification); record the payment against it
+        if (existingOrderId) {
+          await paymentVerificationService.settle(existingOrderId, transaction);
+          return res.json({
+            success: true,
+            message: 'Webhook already processed',
+          });
+        }
+
+        console.log('✅ Payment successful, creating order from webhook...');
+        
+        // Get checkout data from metadata
+        const metadata = transaction.metadata || {};
+        const checkoutData = metadata.checkout_data;
+        
+        if (!checkoutData) {
+          console.error('❌ No checkout data in webhook metadata');
+          return this.holdUnplacedCharge(transaction, 'No checkout data found in metadata', res);
+        }
 
-          // Import OrderController
-          const { OrderController } = await import('./order.controller');
-          const orderController = new OrderController();
-
-          // Create order using checkout data from metadata
-          try {
-            const userId = metadata.user_id && metadata.user_id !== 'guest' 
-              ? metadata.user_id 
-              : null;
-
-            // Calculate totals if not provided
-            const items = checkoutData.items || [];
-            const subtotal = checkoutData.subtotal || items.reduce((sum: number, item: any) => sum + (item.subtotal || (item.quantity * (item.discount_price || item.original_price || 0))), 0);
-            const deliveryFee = checkoutData.delivery_option?.price || checkoutData.delivery_fee || 0;
-            const tax = checkoutData.tax || 0;
-            const total = checkoutData.total || (subtotal + deliveryFee + tax);
-
-            // Prepare order items
-            const orderItems = items.map((item: any) => ({
-              product_id: item.id,
-              product_name: item.name,
-              product_image: item.thumbnail || item.image_url || '',
-              quantity: item.quantity,
-              unit_price: item.discount_price || item.original_price || 0,
-              subtotal: item.subtotal || (item.quantity * (item.discount_price || item.original_price || 0)),
-              selected_variants: item.selected_variants || {},
-            }));
-
-            console.log('📦 Creating order from webhook:', {
-              userId,
-              itemsCount: orderItems.length,
+        // Import OrderController
+        const { OrderController } = await import('./order.controller');
+        const orderController = new OrderController();
+
+        // Create order using checkout data from metadata
+        const { captured: placed, response: placedResponse } = captureResponse();
+        try {
+          const userId = metadata.user_id && metadata.user_id !== 'guest' 
+            ? metadata.user_id 
+            : null;
+
+          // Calculate totals if not provided
+          const items = checkoutData.items || [];
+          const subtotal = checkoutData.subtotal || items.reduce((sum: number, item: any) => sum + (item.subtotal || (item.quantity * (item.discount_price || item.original_price || 0))), 0);
+          const deliveryFee = checkoutData.delivery_option?.price || checkoutData.delivery_fee || 0;
+          const tax = checkoutData.tax || 0;
+          const total = checkoutData.total || (subtotal + deliveryFee + tax);
+
+          // Prepare order items
+          const orderItems = items.map((item: any) => ({
+            product_id: item.id,
+            product_name: item.name,
+            product_image: item.thumbnail || item.image_url || '',
+            quantity: item.quantity,
+            unit_price: item.discount_price || item.original_price || 0,
+            subtotal: item.subtotal || (item.quantity * (item.discount_price || item.original_price || 0)),
+            selected_variants: item.selected_variants || {},
+          }));
+
+          console.log('📦 Creating order from webhook:', {
+            userId,
+            itemsCount: orderItems.length,
+            subtotal,
+            deliveryFee,
+            tax,
+            total,
+            hasDeliveryAddress: !!checkoutData.delivery_address,
+          });
+
+          // Prepare order creation request; the charge is paid, so checkout checks flag the order instead of rejecting it
+          const orderRequest: PaidOrderRequest = {
+            paidCharge: { reference: transaction.reference },
+            body: {
+              user_id: userId,
               subtotal,
-              deliveryFee,
+              discount: checkoutData.discount || 0,
+              // createOrder only applies a discount it can validate by code; without it the total would be undiscounted
+              discount_code: checkoutData.discount_code || null,
               tax,
+              delivery_fee: deliveryFee,
+              delivery_option: checkoutData.delivery_option,
               total,
-              hasDeliveryAddress: !!checkoutData.delivery_address,
-            });
+              payment_method: checkoutData.payment_method || 'paystack',
+              delivery_address: checkoutData.delivery_address,
+              order_items: orderItems,
+              notes: checkoutData.notes || null,
+              payment_reference: transaction.reference,
+            },
+          } as any;
+
+          // Create order
+          await orderController.createOrder(orderRequest, placedResponse);
+        } catch (orderError: any) {
+          console.error('❌ Error creating order from webhook:', orderError);
+          placed.status = 500;
+          placed.body = {
+            success: false,
+            message: 'Failed to create order from webhook',
+            error: orderError.message,
+          };
+        }
 
-            // Prepare order creation request
-            const orderRequest = {
-              body: {
-                user_id: userId,
-                subtotal,
-                discount: checkoutData.discount || 0,
-                tax,
-                delivery_fee: deliveryFee,
-                delivery_option: checkoutData.delivery_option,
-                total,
-                payment_method: checkoutData.payment_method || 'paystack',
-                delivery_address: checkoutData.delivery_address,
-                order_items: orderItems,
-                notes: checkoutData.notes || null,
-                payment_reference: transaction.reference,
-              },
-            } as any;
-
-            // Create order
-            await orderController.createOrder(orderRequest, res);
-            
-            console.log('✅ Order created successfully from webhook');
-            return; // Response already sent by createOrder
-          } catch (orderError: any) {
-            console.error('❌ Error creating order from webhook:', orderError);
-            return res.status(500).json({
-              success: false,
-              message: 'Failed to create order from webhook',
-              error: orderError.message,
-            });
-          }
+        const createdOrder = await paymentVerificationService.findOrder(transaction);
+        if (!createdOrder) {
+          return this.holdUnplacedCharge(transaction, placed.body?.message || 'The order could not be created', res);
         }
+
+        // Orders are created unpaid; settle the charge against the total the server calculated
+        await paymentVerificationService.settle(createdOrder.id, transaction);
+        console.log('✅ Order created successfully from webhook');
+        return res.status(placed.status).json(placed.body);
       }
+    }
 
-      // Return success for other events (to acknowledge receipt)
-      return res.json({
-        success: true,
-        message: 'Webhook received',
-      });
-    } catch (error: any) {
-      console.error('Error handling Paystack webhook:', error);
-      return res.status(500).json({
-        success: false,
-        message: 'Failed to process webhook',
-        error: error.message,
-      });
+    // Return success for other events (to acknowledge receipt)
+    return res.json({
+      success: true,
+      message: 'Webhook received',
+    });
+  }
+
+  /**
+   * A paid charge that no order could be placed for: keep it on its
+   * transaction, marked for refund, tell admins once and fail the webhook
+   * event so it can be replayed after the cause is fixed.
+   */
+  private async holdUnplacedCharge(transaction: ProviderTransaction, reason: string, res: Response) {
+    console.error(`❌ Payment ${transaction.reference} succeeded but no order was placed: ${reason}`);
+
+    const provider = await paymentProviderService.forReference(transaction.reference, transaction.metadata?.payment_method);
+    const firstTime = await transactionService.recordUnplacedCharge(transaction, provider.name, reason);
+
+    if (firstTime) {
+      const { error: notifError } = await supabaseAdmin.from('notifications').insert([
+        {
+          type: 'payment',
+          title: `Paid without an order: ${transaction.reference}`,
+          message: `Payment ${transaction.reference} (${transaction.currency || 'GHS'} ${((Number(transaction.amount) || 0) / 100).toFixed(2)}) succeeded but no order could be created: ${reason}. Replay the webhook event once fixed, or refund the payment.`,
+          is_read: false,
+        },
+      ]);
+
+      if (notifError) {
+        console.error('Failed to create unplaced payment notification:', notifError);
+      }
     }
+
+    return res.status(422).json({
+      success: false,
+      message: 'Payment received but the order could not be created; it has been flagged for review',
+      data: { reference: transaction.reference, reason },
+    });
   }
 
   // Update transaction with order_id after order is created
@@ -447,21 +553,7 @@ export class PaymentController {
       }
 
       // Update transaction with order_id
-      const { error: updateError } = await supabaseAdmin
-        .from('transactions')
-        .update({
-          order_id,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('transaction_reference', transaction_reference);
-
-      if (updateError) {
-        return res.status(500).json({
-          success: false,
-          message: 'Failed to update transaction-order link',
-          error: updateError.message,
-        });
-      }
+      await transactionService.linkOrder(transaction_reference, order_id);
 
       return res.json({
         success: true,
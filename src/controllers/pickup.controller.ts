@@ -0,0 +1,80 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { OrderController } from './order.controller';
+import { pickupService } from '../services/pickup.service';
+import { cashPaymentService } from '../services/cashPayment.service';
+
+export class PickupController {
+  private orderController = new OrderController();
+
+  // Staff check the pickup code and phone at the counter, then hand the order over (admin)
+  async verifyPickup(req: AuthRequest, res: Response) {
+    try {
+      const { order_number, code, phone, cash_collected, cash_reference } = req.body;
+
+      const verification = await pickupService.verify({ order_number, code, phone });
+      if (!verification.success) {
+        return res.status(verification.status).json({
+          success: false,
+          message: verification.message,
+          ...(verification.data ? { data: verification.data } : {}),
+        });
+      }
+
+      const { order } = verification;
+
+      if (order.payment_status !== 'paid') {
+        if (order.payment_method !== 'pay_on_pickup' || !cash_collected) {
+          return res.status(409).json({
+            success: false,
+            message: 'This order has not been paid. Collect payment before handing it over.',
+            data: {
+              payment_method: order.payment_method,
+              payment_status: order.payment_status,
+              amount_due: Number(order.total) || 0,
+            },
+          });
+        }
+
+        const collection = await cashPaymentService.recordCollection(
+          order.id,
+          { reference: cash_reference, notes: 'Paid at store pickup' },
+          req.user
+        );
+        if (!collection.success) {
+          return res.status(collection.status).json({
+            success: false,
+            message: collection.message,
+            ...(collection.data ? { data: collection.data } : {}),
+          });
+        }
+      }
+
+      const result = await this.orderController.applyStatusChange(
+        order.id,
+        { status: 'delivered', notes: 'Collected at store' },
+        req.user
+      );
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Order collected',
+        data: result.order,
+      });
+    } catch (error) {
+      console.error('Error verifying pickup:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to verify pickup',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { supabaseAdmin } from '../utils/supabaseClient';
 import { successResponse, errorResponse, paginatedResponse } from '../utils/responseHandlers';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { settingsService } from '../services/settings.service';
+import { inventoryService } from '../services/inventory.service';
 
 export const getAllProducts = async (req: Request, res: Response) => {
   try {
@@ -98,7 +99,21 @@ export const getProductBySlug = async (req: Request, res: Response) => {
       return errorResponse(res, 'Product not found', 404);
     }
 
-    return successResponse(res, data);
+    // Per-combination availability so the storefront can disable sold-out variants
+    const variantStock = await inventoryService.getVariantStock([data.id]);
+    const variantAvailability = variantStock.map((row) => ({
+      id: row.id,
+      variant_combination: row.variant_combination,
+      sku: row.sku || null,
+      stock_quantity: row.stock_quantity,
+      in_stock: row.is_available !== false && row.stock_quantity > 0,
+    }));
+
+    return successResponse(res, {
+      ...data,
+      variant_stock: variantAvailability,
+      has_variant_stock: variantAvailability.length > 0,
+    });
   } catch (error: any) {
     console.error('Get product error:', error);
     return errorResponse(res, error.message);
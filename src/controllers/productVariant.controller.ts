@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { supabaseAdmin } from '../utils/supabaseClient';
 import { successResponse, errorResponse } from '../utils/responseHandlers';
+import { inventoryService } from '../services/inventory.service';
 
 export const updateOptionPrice = async (req: AuthRequest, res: Response) => {
   const { optionId } = req.params;
@@ -98,3 +99,83 @@ export const deleteAttribute = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const getVariantStock = async (req: AuthRequest, res: Response) => {
+  const productId = String(req.params.id);
+
+  try {
+    const data = await inventoryService.getVariantStock([productId]);
+    return successResponse(res, data);
+  } catch (error: any) {
+    console.error('Error fetching variant stock:', error);
+    return errorResponse(res, 'Failed to fetch variant stock');
+  }
+};
+
+export const setVariantStock = async (req: AuthRequest, res: Response) => {
+  const productId = String(req.params.id);
+  const { items } = req.body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return errorResponse(res, 'items must be a non-empty array of variant stock entries', 400);
+  }
+
+  const invalid = items.find(
+    (item: any) =>
+      !item ||
+      typeof item.variant_combination !== 'object' ||
+      item.variant_combination === null ||
+      Object.keys(item.variant_combination).length === 0 ||
+      !Number.isInteger(Number(item.stock_quantity)) ||
+      Number(item.stock_quantity) < 0
+  );
+  if (invalid) {
+    return errorResponse(res, 'Each entry needs a variant_combination object and a non-negative integer stock_quantity', 400);
+  }
+
+  try {
+    const { data: product, error: productError } = await supabaseAdmin
+      .from('products')
+      .select('id')
+      .eq('id', productId)
+      .maybeSingle();
+
+    if (productError) throw productError;
+    if (!product) {
+      return errorResponse(res, 'Product not found', 404);
+    }
+
+    const data = await inventoryService.setVariantStock(
+      productId,
+      items.map((item: any) => ({
+        variant_combination: item.variant_combination,
+        stock_quantity: Number(item.stock_quantity),
+        sku: item.sku,
+        is_available: item.is_available,
+      })),
+      req.user?.id
+    );
+
+    return successResponse(res, data, 'Variant stock updated successfully');
+  } catch (error: any) {
+    console.error('Error updating variant stock:', error);
+    return errorResponse(res, 'Failed to update variant stock');
+  }
+};
+
+export const deleteVariantStock = async (req: AuthRequest, res: Response) => {
+  const { stockId } = req.params;
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('product_variant_stock')
+      .delete()
+      .eq('id', stockId);
+
+    if (error) throw error;
+
+    return successResponse(res, { stockId }, 'Variant stock entry deleted successfully');
+  } catch (error: any) {
+    console.error('Error deleting variant stock:', error);
+    return errorResponse(res, 'Failed to delete variant stock entry');
+  }
+};
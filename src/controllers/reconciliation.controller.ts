@@ -0,0 +1,149 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { RECONCILIATION_ITEM_TYPES, reconciliationService } from '../services/reconciliation.service';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export class ReconciliationController {
+  // Reconcile provider charges for a date range (admin)
+  async createRun(req: AuthRequest, res: Response) {
+    try {
+      const { date_from, date_to, provider } = req.body;
+
+      const result = await reconciliationService.run({
+        from: new Date(date_from),
+        to: new Date(date_to),
+        provider,
+        actorId: req.user?.id,
+      });
+
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      const run = await reconciliationService.getRun(result.data.id);
+      res.status(201).json({
+        success: true,
+        message: 'Reconciliation completed',
+        data: run,
+      });
+    } catch (error) {
+      console.error('Error running payment reconciliation:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to run payment reconciliation',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Past reconciliation runs, newest first (admin)
+  async getRuns(req: AuthRequest, res: Response) {
+    try {
+      const { provider, status } = req.query;
+      const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit || DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE));
+
+      const { runs, total } = await reconciliationService.listRuns({
+        provider: provider ? String(provider) : undefined,
+        status: status ? String(status) : undefined,
+        page,
+        limit,
+      });
+
+      res.json({
+        success: true,
+        data: runs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching reconciliation runs:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch reconciliation runs',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // A run with its mismatches, optionally filtered by type or status (admin)
+  async getRun(req: AuthRequest, res: Response) {
+    try {
+      const { type, status } = req.query;
+
+      if (type && !(RECONCILIATION_ITEM_TYPES as readonly string[]).includes(String(type))) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid type. Must be one of: ${RECONCILIATION_ITEM_TYPES.join(', ')}`,
+        });
+      }
+
+      const run = await reconciliationService.getRun(String(req.params.runId), {
+        type: type ? String(type) : undefined,
+        status: status ? String(status) : undefined,
+      });
+
+      if (!run) {
+        return res.status(404).json({
+          success: false,
+          message: 'Reconciliation run not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      console.error('Error fetching reconciliation run:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch reconciliation run',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Apply a one-click fix to a mismatch, or ignore it (admin)
+  async fixItem(req: AuthRequest, res: Response) {
+    try {
+      const { action, order_id } = req.body;
+
+      const result = await reconciliationService.fixItem(String(req.params.itemId), action, {
+        orderId: order_id,
+        actorId: req.user?.id,
+      });
+
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      res.json({
+        success: true,
+        message: action === 'ignore' ? 'Mismatch ignored' : 'Mismatch fixed',
+        data: result.data,
+      });
+    } catch (error) {
+      console.error('Error fixing reconciliation item:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fix reconciliation item',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { refundService } from '../services/refund.service';
+
+export class RefundController {
+  // Refunds of a transaction or order (admin)
+  async getRefunds(req: AuthRequest, res: Response) {
+    try {
+      const { transaction_id, order_id } = req.query;
+
+      const refunds = await refundService.listRefunds({
+        transaction_id: typeof transaction_id === 'string' ? transaction_id : undefined,
+        order_id: typeof order_id === 'string' ? order_id : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: refunds,
+      });
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch refunds',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Full or partial refund of a Paystack transaction (admin)
+  async createRefund(req: AuthRequest, res: Response) {
+    try {
+      const { transaction_id, amount, reason } = req.body;
+
+      const result = await refundService.createRefund({ transaction_id, amount, reason }, req.user);
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: result.refund.status === 'processed' ? 'Refund processed' : 'Refund submitted to Paystack',
+        data: result.refund,
+      });
+    } catch (error) {
+      console.error('Error creating refund:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create refund',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { supabaseAdmin } from '../utils/supabaseClient';
 import enhancedEmailService from '../services/enhanced-email.service';
+import { documentNumberService, isUniqueViolation } from '../services/documentNumber.service';
 
 export class ReturnRequestController {
   // Create a return request (user)
@@ -268,7 +269,7 @@ export class ReturnRequestController {
       // Optional: Check if order status allows returns
       // Typically, returns are only allowed for delivered orders
       // But we allow all statuses for flexibility (you can restrict this if needed)
-      const allowedStatusesForReturn = ['delivered', 'shipped', 'processing', 'pending'];
+      const allowedStatusesForReturn = ['delivered', 'shipped', 'partially_shipped', 'processing', 'pending'];
       if (!allowedStatusesForReturn.includes(order.status)) {
         console.warn('⚠️ Return request for order with status:', order.status);
         // Still allow it, but log a warning
@@ -587,19 +588,10 @@ export class ReturnRequestController {
       let returnAuthorizationNumber = currentRequest.return_authorization_number;
       let approvedAt = currentRequest.approved_at;
 
-      if (status === 'approved' && !returnAuthorizationNumber) {
-        // Generate RA number using the database function
-        const { data: raData, error: raError } = await supabaseAdmin.rpc('generate_ra_number');
-        
-        if (raError) {
-          // Fallback: generate manually if function doesn't exist
-          const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
-          const randomPart = Math.floor(Math.random() * 100000).toString().padStart(5, '0');
-          returnAuthorizationNumber = `RA-${datePart}-${randomPart}`;
-        } else {
-          returnAuthorizationNumber = raData;
-        }
-
+      const generatesRaNumber = status === 'approved' && !returnAuthorizationNumber;
+      if (generatesRaNumber) {
+        // Sequence-backed RA number, formatted from the ra_number_format setting
+        returnAuthorizationNumber = await documentNumberService.next('return');
         approvedAt = new Date().toISOString();
       }
 
@@ -616,7 +608,7 @@ export class ReturnRequestController {
       if (approvedAt) updateData.approved_at = approvedAt;
       if (status === 'completed') updateData.completed_at = new Date().toISOString();
 
-      const { data: updatedRequest, error: updateError } = await supabaseAdmin
+      const saveRequest = () => supabaseAdmin
         .from('return_requests')
         .update(updateData)
         .eq('id', id)
@@ -632,6 +624,15 @@ export class ReturnRequestController {
           )
         `)
         .single();
+
+      let { data: updatedRequest, error: updateError } = await saveRequest();
+
+      // RA numbers are unique; draw a new one if the counter collided with an existing number
+      for (let attempt = 1; generatesRaNumber && isUniqueViolation(updateError) && attempt <= 5; attempt++) {
+        returnAuthorizationNumber = await documentNumberService.next('return');
+        updateData.return_authorization_number = returnAuthorizationNumber;
+        ({ data: updatedRequest, error: updateError } = await saveRequest());
+      }
       
       // Fetch order items separately to avoid relationship query issues (error 42703)
       if (updatedRequest && !updateError && updatedRequest.order) {
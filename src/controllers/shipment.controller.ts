@@ -0,0 +1,177 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import {
+  SHIPMENT_STATUS_TRANSITIONS,
+  ShipmentStatus,
+  shipmentService,
+} from '../services/shipment.service';
+import { customerOrderService } from '../services/customerOrder.service';
+
+export class ShipmentController {
+  // List shipments of an order with per-item progress (admin, or the owner with the customer-facing view)
+  async getOrderShipments(req: AuthRequest, res: Response) {
+    try {
+      const orderId = String(req.params.id);
+
+      const { data: order, error: orderError } = await supabaseAdmin
+        .from('orders')
+        .select('id, user_id, customer_id, status, order_items:order_items(id, product_name, quantity)')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (orderError) throw orderError;
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const isAdminUser = req.user?.role === 'admin' || req.user?.role === 'superadmin';
+      if (!isAdminUser) {
+        // Owners include customers whose record is linked to this user (orders placed as guest or by an admin)
+        const customerIds = req.user ? await customerOrderService.getLinkedCustomerIds(req.user.id) : [];
+        const isOwner =
+          (!!req.user && order.user_id === req.user.id) || (!!order.customer_id && customerIds.includes(order.customer_id));
+        if (!isOwner) {
+          return res.status(403).json({
+            success: false,
+            message: 'You do not have access to this order',
+          });
+        }
+      }
+
+      const shipments = await shipmentService.getShipments(orderId);
+
+      res.json({
+        success: true,
+        data: {
+          order_status: order.status,
+          shipments: isAdminUser
+            ? shipments
+            : shipments
+                .filter((shipment: any) => shipment.status !== 'cancelled')
+                .map((shipment: any) => shipmentService.toPublicShipment(shipment)),
+          items: shipmentService.summarize(order.order_items || [], shipments),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching shipments:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch shipments',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Create a shipment for some of an order's items (admin)
+  async createShipment(req: AuthRequest, res: Response) {
+    try {
+      const result = await shipmentService.createShipment(String(req.params.id), req.body, req.user);
+      if (!result.success) {
+        return res.status(result.status).json({
+          success: false,
+          message: result.message,
+          ...(result.data ? { data: result.data } : {}),
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Shipment created successfully',
+        data: {
+          shipment: result.shipment,
+          order_status: result.order_status,
+        },
+      });
+    } catch (error) {
+      console.error('Error creating shipment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create shipment',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Update carrier/tracking details or move a shipment along (admin)
+  async updateShipment(req: AuthRequest, res: Response) {
+    try {
+      const shipmentId = String(req.params.shipmentId);
+      const { status, carrier, tracking_number, tracking_url, notes } = req.body;
+
+      const current = await shipmentService.getShipment(shipmentId);
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          message: 'Shipment not found',
+        });
+      }
+
+      const statusChanged = status !== undefined && status !== current.status;
+      if (statusChanged && !SHIPMENT_STATUS_TRANSITIONS[current.status as ShipmentStatus]?.includes(status)) {
+        return res.status(409).json({
+          success: false,
+          message: `Cannot change shipment status from ${current.status} to ${status}`,
+          data: {
+            current_status: current.status,
+            allowed_statuses: SHIPMENT_STATUS_TRANSITIONS[current.status as ShipmentStatus] || [],
+          },
+        });
+      }
+
+      const now = new Date().toISOString();
+      const updateData: Record<string, any> = { updated_at: now };
+      if (carrier !== undefined) updateData.carrier = carrier || null;
+      if (tracking_number !== undefined) updateData.tracking_number = tracking_number || null;
+      if (tracking_url !== undefined) updateData.tracking_url = tracking_url || null;
+      if (notes !== undefined) updateData.notes = notes || null;
+      if (statusChanged) {
+        updateData.status = status;
+        if ((status === 'shipped' || status === 'delivered') && !current.shipped_at) updateData.shipped_at = now;
+        if (status === 'delivered') updateData.delivered_at = now;
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('shipments')
+        .update(updateData)
+        .eq('id', shipmentId)
+        .eq('status', current.status)
+        .select('id')
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      if (!updated) {
+        return res.status(409).json({
+          success: false,
+          message: 'Shipment was changed by another request. Please refresh and try again.',
+        });
+      }
+
+      const sync = await shipmentService.syncOrderStatus(current.order_id, req.user, notes || null);
+      const savedShipment = await shipmentService.getShipment(shipmentId);
+
+      if (statusChanged && (status === 'shipped' || status === 'delivered')) {
+        await shipmentService.notifyCustomer(current.order_id, savedShipment);
+      }
+
+      res.json({
+        success: true,
+        message: 'Shipment updated successfully',
+        data: {
+          shipment: savedShipment,
+          order_status: sync.status,
+        },
+      });
+    } catch (error) {
+      console.error('Error updating shipment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update shipment',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
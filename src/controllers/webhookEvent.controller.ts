@@ -0,0 +1,87 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { PaymentController } from './payment.controller';
+import { WEBHOOK_EVENT_STATUSES, webhookEventService } from '../services/webhookEvent.service';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export class WebhookEventController {
+  private paymentController = new PaymentController();
+
+  // Logged provider webhooks, newest first (admin)
+  async getWebhookEvents(req: AuthRequest, res: Response) {
+    try {
+      const { status, provider, event_type, reference } = req.query;
+      const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit || DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE));
+
+      if (status && !(WEBHOOK_EVENT_STATUSES as readonly string[]).includes(String(status))) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid status. Must be one of: ${WEBHOOK_EVENT_STATUSES.join(', ')}`,
+        });
+      }
+
+      const { events, total } = await webhookEventService.listEvents({
+        status: status ? String(status) : undefined,
+        provider: provider ? String(provider) : undefined,
+        event_type: event_type ? String(event_type) : undefined,
+        reference: reference ? String(reference) : undefined,
+        page,
+        limit,
+      });
+
+      res.json({
+        success: true,
+        data: events,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch webhook events',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  // Run a failed event again with its stored payload (admin)
+  async replayWebhookEvent(req: AuthRequest, res: Response) {
+    try {
+      const claim = await webhookEventService.claimForReplay(String(req.params.eventId), req.user?.id);
+      if (!claim.success) {
+        return res.status(claim.status).json({
+          success: false,
+          message: claim.message,
+          ...('data' in claim && claim.data ? { data: claim.data } : {}),
+        });
+      }
+
+      const result = await this.paymentController.runWebhookEvent(claim.event.id, claim.event.payload);
+      const event = await webhookEventService.getEvent(claim.event.id);
+
+      res.status(result.status < 400 ? 200 : 422).json({
+        success: result.status < 400,
+        message: result.status < 400 ? 'Webhook event replayed' : 'Webhook event failed again',
+        data: {
+          event,
+          result: result.body,
+        },
+      });
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to replay webhook event',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
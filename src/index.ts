@@ -4,6 +4,7 @@ dotenv.config();
 
 // Now import app after env vars are loaded
 import app from './app';
+import { startScheduledJobs } from './jobs';
 
 const PORT = Number(process.env.PORT) || 5000;
 
@@ -13,5 +14,9 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 API URL: http://localhost:${PORT}`);
   console.log(`🌐 Listening on 0.0.0.0:${PORT} (all interfaces)`);
-});
 
+  // Background jobs (pickup reminders, unpaid order expiry, ...); turn off on extra instances so they run once
+  if (process.env.ENABLE_SCHEDULED_JOBS !== 'false') {
+    startScheduledJobs();
+  }
+});
@@ -0,0 +1,14 @@
+import { registerJob } from './scheduler';
+import { deleteExpiredIdempotencyKeys } from '../middleware/idempotency.middleware';
+
+// Delete Idempotency-Keys past their replay window
+registerJob({
+  name: 'idempotency-key-cleanup',
+  intervalMs: 60 * 60 * 1000,
+  run: async () => {
+    const deleted = await deleteExpiredIdempotencyKeys();
+    if (deleted > 0) {
+      console.log(`🧹 Deleted ${deleted} expired idempotency key(s)`);
+    }
+  },
+});
@@ -0,0 +1,6 @@
+import './pickup.jobs';
+import './orderExpiry.jobs';
+import './reconciliation.jobs';
+import './idempotency.jobs';
+
+export { startScheduledJobs, stopScheduledJobs } from './scheduler';
@@ -0,0 +1,54 @@
+import { registerJob } from './scheduler';
+import { OrderController } from '../controllers/order.controller';
+import { orderExpiryService } from '../services/orderExpiry.service';
+import { settingsService } from '../services/settings.service';
+
+const orderController = new OrderController();
+
+// Cancel orders still unpaid after the expiry window (or their quote's expiry), unless Paystack shows the payment went through
+registerJob({
+  name: 'pending-order-expiry',
+  intervalMs: 5 * 60 * 1000,
+  run: async () => {
+    const expired = await orderExpiryService.findExpired();
+    if (expired.length === 0) return;
+
+    const [minutes, emailEnabled] = await Promise.all([
+      orderExpiryService.getExpiryMinutes(),
+      settingsService.isEnabled('pending_order_expiry_email_enabled'),
+    ]);
+
+    for (const order of expired) {
+      try {
+        const payment = await orderExpiryService.findMissedPayment(order);
+        if (payment) {
+          await orderExpiryService.recordMissedPayment(order, payment);
+          console.log(`✅ Recovered missed payment ${payment.reference} for order ${order.order_number}`);
+          continue;
+        }
+
+        // A quote order is not sent a checkout retry link; the customer asks for a new quote instead
+        const fromQuote = !!order.shipping_address?.quote_number;
+        const result = await orderController.applyStatusChange(
+          order.id,
+          {
+            status: 'cancelled',
+            notes: fromQuote ? 'Quote expired before payment was received' : `Payment not received within ${minutes} minutes`,
+          },
+          null,
+          { notifyCustomer: fromQuote || !emailEnabled }
+        );
+        if (!result.success) {
+          console.warn(`Could not expire unpaid order ${order.order_number}: ${result.message}`);
+          continue;
+        }
+
+        if (emailEnabled && !fromQuote) {
+          await orderExpiryService.notifyCustomer(order);
+        }
+      } catch (error) {
+        console.error(`Unpaid order expiry failed for order ${order.order_number}:`, error);
+      }
+    }
+  },
+});
@@ -0,0 +1,53 @@
+import { registerJob } from './scheduler';
+import { OrderController } from '../controllers/order.controller';
+import { pickupService } from '../services/pickup.service';
+
+const orderController = new OrderController();
+
+// Remind customers whose pickup order is still waiting at the store
+registerJob({
+  name: 'pickup-reminders',
+  intervalMs: 60 * 60 * 1000,
+  run: async () => {
+    const due = await pickupService.findDueReminders();
+    for (const pickup of due) {
+      try {
+        await pickupService.notifyCustomer(pickup.order_id, pickup, { reminder: true });
+        await pickupService.recordReminder(pickup);
+      } catch (error) {
+        console.error(`Pickup reminder failed for order ${pickup.order_id}:`, error);
+      }
+    }
+  },
+});
+
+// Cancel unpaid pickup orders not collected within the hold period (this releases stock and closes
+// the pickup); prepaid ones are flagged for a refund instead
+registerJob({
+  name: 'pickup-expiry',
+  intervalMs: 60 * 60 * 1000,
+  run: async () => {
+    const expired = await pickupService.findExpired();
+    for (const pickup of expired) {
+      try {
+        if (pickup.order && pickupService.isPrepaid(pickup.order)) {
+          await pickupService.flagForRefund(pickup);
+          continue;
+        }
+
+        const result = await orderController.applyStatusChange(
+          pickup.order_id,
+          { status: 'cancelled', notes: 'Not collected before the pickup deadline' },
+          null
+        );
+        if (!result.success) {
+          // The order already moved on (e.g. an admin changed it); stop tracking the pickup
+          console.warn(`Could not cancel expired pickup order ${pickup.order_id}: ${result.message}`);
+          await pickupService.closePickup(pickup.order_id, 'cancelled');
+        }
+      } catch (error) {
+        console.error(`Pickup expiry failed for order ${pickup.order_id}:`, error);
+      }
+    }
+  },
+});
@@ -0,0 +1,30 @@
+import { registerJob } from './scheduler';
+import { reconciliationService } from '../services/reconciliation.service';
+import { DEFAULT_PAYMENT_PROVIDER, paymentProviderService } from '../services/paymentProvider.service';
+
+// Reconcile yesterday's charges (UTC) once; checking hourly means a restart or failed run is picked up again
+registerJob({
+  name: 'payment-reconciliation',
+  intervalMs: 60 * 60 * 1000,
+  run: async () => {
+    const provider = paymentProviderService.get(DEFAULT_PAYMENT_PROVIDER);
+    if (!provider || !provider.isConfigured()) return;
+
+    const to = new Date();
+    to.setUTCHours(0, 0, 0, 0);
+    const from = new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+    if (await reconciliationService.hasRun(provider.name, from, to)) return;
+
+    const result = await reconciliationService.run({ from, to, provider: provider.name });
+    if (!result.success) {
+      console.warn(`Payment reconciliation skipped: ${result.message}`);
+      return;
+    }
+
+    const { mismatches } = result.data.summary || {};
+    if (mismatches > 0) {
+      console.warn(`⚠️ Payment reconciliation for ${from.toISOString().split('T')[0]} found ${mismatches} mismatch(es)`);
+    }
+  },
+});
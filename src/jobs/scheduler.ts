@@ -0,0 +1,41 @@
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const jobs: ScheduledJob[] = [];
+const timers: NodeJS.Timeout[] = [];
+
+export const registerJob = (job: ScheduledJob) => {
+  jobs.push(job);
+};
+
+// Run each job on its interval in this process. A run that is still going when
+// the next tick arrives is skipped rather than started twice.
+export const startScheduledJobs = () => {
+  for (const job of jobs) {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Scheduled job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    const timer = setInterval(tick, job.intervalMs);
+    timer.unref();
+    timers.push(timer);
+    console.log(`⏱️  Scheduled job ${job.name} every ${Math.round(job.intervalMs / 60000)} min`);
+  }
+};
+
+export const stopScheduledJobs = () => {
+  timers.splice(0).forEach(clearInterval);
+};
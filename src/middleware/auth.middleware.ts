@@ -1,9 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../utils/supabaseClient';
 import { errorResponse } from '../utils/responseHandlers';
+import { orderAccessService } from '../services/orderAccess.service';
 
 export interface AuthRequest extends Request {
   user?: any;
+  // Set by orderAccessToken: the single order a guest link grants access to
+  orderAccess?: { tokenId: string; orderId: string };
 }
 
 export const SPECIAL_AUDIT_EMAILS = new Set([
@@ -123,3 +126,26 @@ export const optionalAuthenticate = async (
   }
 };
 
+
+// Guest order links - verifies the :token param and exposes the order as :id,
+// so owner-only order handlers can serve the link holder
+export const orderAccessToken = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await orderAccessService.verifyToken(String(req.params.token || ''));
+
+    if (!result.success) {
+      return errorResponse(res, result.message, result.status);
+    }
+
+    req.orderAccess = { tokenId: result.tokenId, orderId: result.orderId };
+    req.params.id = result.orderId;
+    next();
+  } catch (error) {
+    console.error('Order access token error:', error);
+    return errorResponse(res, 'Failed to verify order link', 500);
+  }
+};
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { NextFunction, Response } from 'express';
+import { AuthRequest } from './auth.middleware';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { isUniqueViolation } from '../services/documentNumber.service';
+
+// How long a key can be replayed, and how long an unfinished attempt blocks retries
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const LOCK_TIMEOUT_MS = 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// Key order must not change the hash, so objects are serialized with sorted keys
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Keys belong to the caller, so one client can never replay another's response.
+// Guests have no account, so their client address and user agent stand in for one.
+const identifyCaller = (req: AuthRequest) => {
+  if (req.user?.id) return `user:${req.user.id}`;
+
+  const fingerprint = crypto
+    .createHash('sha256')
+    .update(`${req.ip || ''}\n${req.get('User-Agent') || ''}`)
+    .digest('hex');
+  return `guest:${fingerprint}`;
+};
+
+const hashRequest = (req: AuthRequest) =>
+  crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${stableStringify(req.body ?? {})}`)
+    .digest('hex');
+
+/**
+ * Idempotency-Key support. The first request with a key runs normally and its
+ * response (below 500) is stored; retries with the same key and body replay
+ * it, the same key with a different body gets 422, and a retry while the first
+ * attempt is still running gets 409. Server errors and timeouts release the
+ * key so the client can retry. Keys are scoped to the caller (see
+ * identifyCaller). Requests without the header are not affected.
+ */
+export const idempotency = (scope: string) => async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const key = req.get('Idempotency-Key')?.trim();
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  try {
+    const caller = identifyCaller(req);
+    const requestHash = hashRequest(req);
+    const now = new Date();
+
+    const { data: claimed, error: insertError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .insert({
+        scope,
+        caller,
+        idempotency_key: key,
+        request_hash: requestHash,
+        user_id: req.user?.id || null,
+        status: 'processing',
+        locked_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + KEY_TTL_MS).toISOString(),
+      })
+      .select('id')
+      .maybeSingle();
+
+    let recordId: string | null = claimed?.id || null;
+
+    if (insertError) {
+      if (!isUniqueViolation(insertError)) throw insertError;
+
+      const { data: existing, error: fetchError } = await supabaseAdmin
+        .from('idempotency_keys')
+        .select('id, request_hash, status, response_status, response_body, locked_at, expires_at')
+        .eq('scope', scope)
+        .eq('caller', caller)
+        .eq('idempotency_key', key)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      if (!existing) {
+        // Released between our insert and read; let the client retry cleanly
+        return res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key is being retried. Please try again.',
+        });
+      }
+
+      const expired = new Date(existing.expires_at).getTime() < now.getTime();
+
+      if (!expired && existing.request_hash !== requestHash) {
+        return res.status(422).json({
+          success: false,
+          message: 'This Idempotency-Key was already used with a different request body',
+        });
+      }
+
+      if (!expired && existing.status === 'completed') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.response_status || 200).json(existing.response_body);
+      }
+
+      const stale = new Date(existing.locked_at).getTime() < now.getTime() - LOCK_TIMEOUT_MS;
+      if (!expired && !stale) {
+        return res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key is still being processed',
+        });
+      }
+
+      // Expired key or abandoned attempt: take it over, unless another retry got there first
+      const { data: takenOver, error: takeoverError } = await supabaseAdmin
+        .from('idempotency_keys')
+        .update({
+          request_hash: requestHash,
+          user_id: req.user?.id || null,
+          status: 'processing',
+          response_status: null,
+          response_body: null,
+          locked_at: now.toISOString(),
+          expires_at: new Date(now.getTime() + KEY_TTL_MS).toISOString(),
+          updated_at: now.toISOString(),
+        })
+        .eq('id', existing.id)
+        .eq('locked_at', existing.locked_at)
+        .select('id')
+        .maybeSingle();
+
+      if (takeoverError) throw takeoverError;
+      if (!takenOver) {
+        return res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key is still being processed',
+        });
+      }
+
+      recordId = takenOver.id;
+    }
+
+    // Store the response before it is sent, so a retry racing the first request never misses it
+    const originalJson = res.json.bind(res);
+    res.json = ((body: any) => {
+      const statusCode = res.statusCode;
+      // Server errors and timeouts may not reflect what happened, so the key is released
+      const store =
+        statusCode >= 500 || statusCode === 408
+          ? supabaseAdmin.from('idempotency_keys').delete().eq('id', recordId)
+          : supabaseAdmin
+              .from('idempotency_keys')
+              .update({
+                status: 'completed',
+                response_status: statusCode,
+                response_body: body ?? null,
+                updated_at: new Date().toISOString(),
+              })
+              .eq('id', recordId);
+
+      Promise.resolve(store)
+        .then(({ error }) => {
+          if (error) console.error(`Failed to store idempotent response for ${scope}:`, error);
+        })
+        .catch((error) => console.error(`Failed to store idempotent response for ${scope}:`, error))
+        .finally(() => originalJson(body));
+
+      return res;
+    }) as Response['json'];
+
+    next();
+  } catch (error) {
+    console.error('Idempotency check failed:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to process Idempotency-Key',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Expired keys can no longer be replayed; the scheduler clears them out. Returns how many were removed.
+export const deleteExpiredIdempotencyKeys = async () => {
+  const { data, error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length;
+};
@@ -1,19 +1,23 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+import type { Request } from 'express';
 
 const createLimiter = ({
   windowMs,
   max,
   message,
+  keyGenerator,
 }: {
   windowMs: number;
   max: number;
   message: string;
+  keyGenerator?: (req: Request) => string;
 }) =>
   rateLimit({
     standardHeaders: true,
     legacyHeaders: false,
     windowMs,
     max,
+    ...(keyGenerator ? { keyGenerator } : {}),
     handler: (req, res) => {
       console.warn('Rate limit exceeded', {
         path: req.originalUrl,
@@ -44,12 +48,42 @@ export const orderTrackRateLimiter = createLimiter({
   message: 'Too many order tracking attempts. Please wait a moment and try again.',
 });
 
+export const orderAccessRateLimiter = createLimiter({
+  windowMs: 5 * 60 * 1000,
+  max: 60,
+  message: 'Too many requests for this order link. Please wait a moment and try again.',
+});
+
 export const paymentVerifyRateLimiter = createLimiter({
   windowMs: 5 * 60 * 1000,
   max: 30,
   message: 'Too many payment verification attempts. Please wait and try again.',
 });
 
+// Every mobile money charge sends a real prompt or OTP to the phone, so callers and target numbers are both capped
+export const mobileMoneyChargeRateLimiter = createLimiter({
+  windowMs: 10 * 60 * 1000,
+  max: 10,
+  message: 'Too many mobile money payment attempts. Please wait a few minutes and try again.',
+});
+
+export const mobileMoneyPhoneRateLimiter = createLimiter({
+  windowMs: 10 * 60 * 1000,
+  max: 5,
+  message: 'Too many payment prompts sent to this number. Please wait a few minutes and try again.',
+  keyGenerator: (req) => {
+    const phone = String(req.body?.phone || '').replace(/\D/g, '').slice(-9);
+    return phone ? `phone:${phone}` : ipKeyGenerator(req.ip || '');
+  },
+});
+
+// Public webhook endpoints: generous enough for provider bursts and retries, but caps unsigned floods
+export const webhookRateLimiter = createLimiter({
+  windowMs: 60 * 1000,
+  max: 120,
+  message: 'Too many webhook requests. Please retry later.',
+});
+
 export const checkoutRateLimiter = createLimiter({
   windowMs: 2 * 60 * 1000,
   max: 8,
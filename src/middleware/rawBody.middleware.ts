@@ -0,0 +1,21 @@
+import { IncomingMessage } from 'http';
+
+export type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+// Webhook signatures are computed over the exact bytes the provider sent
+const RAW_BODY_PATHS = ['/api/payments/webhook'];
+
+export const isRawBodyPath = (path: string) => {
+  const pathname = path.split('?')[0];
+  return RAW_BODY_PATHS.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+};
+
+/**
+ * `verify` hook for express.json: keeps the unparsed body on req.rawBody for
+ * webhook routes so signatures can be checked against it.
+ */
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+  if (isRawBodyPath(req.url || '')) {
+    (req as RawBodyRequest).rawBody = Buffer.from(buf);
+  }
+};
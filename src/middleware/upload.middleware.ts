@@ -43,3 +43,19 @@ export const uploadMultiple = upload.array('images', 10);
 
 
 
+// CSV uploads (imports); kept in memory and parsed by the controller
+export const uploadCsv = multer({
+  storage,
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const allowedMimes = ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'];
+
+    if (allowedMimes.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only CSV files are allowed.'));
+    }
+  },
+  limits: {
+    fileSize: 1 * 1024 * 1024, // 1MB max file size
+  },
+}).single('file');
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { customerController } from '../controllers/customer.controller';
 import { authenticate, isAdmin } from '../middleware/auth.middleware';
 import { adminAuditLogger } from '../middleware/audit.middleware';
+import { validateBody } from '../middleware/validation.middleware';
+import { customerFlagSchema } from '../validation/schemas';
 
 const router = Router();
 
@@ -19,4 +21,13 @@ router.get(
   customerController.listCustomers.bind(customerController)
 );
 
+router.patch(
+  '/:id/flag',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('customers:flag'),
+  validateBody(customerFlagSchema),
+  customerController.setCustomerFlag.bind(customerController)
+);
+
 export default router;
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import {
+  getDeliveryOptions,
+  getAllDeliveryOptions,
+  createDeliveryOption,
+  updateDeliveryOption,
+  deleteDeliveryOption,
+  getZoneRates,
+  createZoneRate,
+  updateZoneRate,
+  deleteZoneRate,
+  quoteDelivery,
+} from '../controllers/delivery.controller';
+import { authenticate, isAdmin } from '../middleware/auth.middleware';
+import { publicApiRateLimiter } from '../middleware/rateLimit.middleware';
+import { validateBody } from '../middleware/validation.middleware';
+import { adminAuditLogger } from '../middleware/audit.middleware';
+import { deliveryOptionUpsertSchema, deliveryQuoteSchema, deliveryZoneRateSchema } from '../validation/schemas';
+
+const router = Router();
+
+// Public routes
+router.get('/options', publicApiRateLimiter, getDeliveryOptions);
+router.post('/quote', publicApiRateLimiter, validateBody(deliveryQuoteSchema), quoteDelivery);
+
+// Admin routes - delivery options
+router.get('/admin/options', authenticate, isAdmin, getAllDeliveryOptions);
+router.post(
+  '/options',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('delivery:create-option'),
+  validateBody(deliveryOptionUpsertSchema),
+  createDeliveryOption
+);
+router.put(
+  '/options/:id',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('delivery:update-option'),
+  validateBody(deliveryOptionUpsertSchema.partial()),
+  updateDeliveryOption
+);
+router.delete('/options/:id', authenticate, isAdmin, adminAuditLogger('delivery:delete-option'), deleteDeliveryOption);
+
+// Admin routes - zone rates
+router.get('/options/:id/rates', authenticate, isAdmin, getZoneRates);
+router.post(
+  '/options/:id/rates',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('delivery:create-rate'),
+  validateBody(deliveryZoneRateSchema),
+  createZoneRate
+);
+router.put(
+  '/rates/:rateId',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('delivery:update-rate'),
+  validateBody(deliveryZoneRateSchema.partial()),
+  updateZoneRate
+);
+router.delete('/rates/:rateId', authenticate, isAdmin, adminAuditLogger('delivery:delete-rate'), deleteZoneRate);
+
+export default router;
@@ -0,0 +1,99 @@
+import express from 'express';
+import { DraftOrderController } from '../controllers/draftOrder.controller';
+import { authenticate, isAdmin } from '../middleware/auth.middleware';
+import { checkoutRateLimiter, publicApiRateLimiter } from '../middleware/rateLimit.middleware';
+import { validateBody } from '../middleware/validation.middleware';
+import { draftOrderCreateSchema, draftOrderSendSchema, draftOrderUpdateSchema } from '../validation/schemas';
+import { adminAuditLogger } from '../middleware/audit.middleware';
+
+const router = express.Router();
+const draftOrderController = new DraftOrderController();
+
+// Public: quote behind a payment link
+router.get(
+  '/pay/:token',
+  publicApiRateLimiter,
+  draftOrderController.getQuoteByToken.bind(draftOrderController)
+);
+
+// Public: quote PDF behind a payment link
+router.get(
+  '/pay/:token/pdf',
+  publicApiRateLimiter,
+  draftOrderController.downloadQuotePDFByToken.bind(draftOrderController)
+);
+
+// Public: convert the quote to an order and start payment
+router.post(
+  '/pay/:token',
+  checkoutRateLimiter,
+  draftOrderController.payQuote.bind(draftOrderController)
+);
+
+// List draft orders (admin)
+router.get(
+  '/',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('draft-orders:list'),
+  draftOrderController.getDraftOrders.bind(draftOrderController)
+);
+
+// Create draft order (admin)
+router.post(
+  '/',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('draft-orders:create'),
+  validateBody(draftOrderCreateSchema),
+  draftOrderController.createDraftOrder.bind(draftOrderController)
+);
+
+// Get draft order (admin)
+router.get(
+  '/:id',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('draft-orders:get'),
+  draftOrderController.getDraftOrder.bind(draftOrderController)
+);
+
+// Update and re-price draft order (admin)
+router.put(
+  '/:id',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('draft-orders:update'),
+  validateBody(draftOrderUpdateSchema),
+  draftOrderController.updateDraftOrder.bind(draftOrderController)
+);
+
+// Cancel draft order (admin)
+router.delete(
+  '/:id',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('draft-orders:cancel'),
+  draftOrderController.cancelDraftOrder.bind(draftOrderController)
+);
+
+// Issue the payment link and email the PDF quote (admin)
+router.post(
+  '/:id/send',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('draft-orders:send'),
+  validateBody(draftOrderSendSchema),
+  draftOrderController.sendQuote.bind(draftOrderController)
+);
+
+// Download quote PDF (admin)
+router.get(
+  '/:id/pdf',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('draft-orders:pdf'),
+  draftOrderController.downloadQuotePDF.bind(draftOrderController)
+);
+
+export default router;
@@ -1,13 +1,44 @@
 import express from 'express';
 import { OrderController } from '../controllers/order.controller';
-import { authenticate, isAdmin } from '../middleware/auth.middleware';
-import { checkoutRateLimiter, orderTrackRateLimiter } from '../middleware/rateLimit.middleware';
+import { BulkOrderController } from '../controllers/bulkOrder.controller';
+import { OrderEditController } from '../controllers/orderEdit.controller';
+import { OrderAccessController } from '../controllers/orderAccess.controller';
+import { OrderSearchController } from '../controllers/orderSearch.controller';
+import { CashPaymentController } from '../controllers/cashPayment.controller';
+import { PickupController } from '../controllers/pickup.controller';
+import { ShipmentController } from '../controllers/shipment.controller';
+import { authenticate, isAdmin, optionalAuthenticate, orderAccessToken } from '../middleware/auth.middleware';
+import { checkoutRateLimiter, orderAccessRateLimiter, orderTrackRateLimiter } from '../middleware/rateLimit.middleware';
 import { validateBody } from '../middleware/validation.middleware';
-import { orderCreateSchema, trackOrderSchema } from '../validation/schemas';
+import { uploadCsv } from '../middleware/upload.middleware';
+import { idempotency } from '../middleware/idempotency.middleware';
+import {
+  bulkOrderDocumentsSchema,
+  bulkOrderStatusSchema,
+  cashCollectionSchema,
+  orderAccessLinkSchema,
+  orderAccessReturnSchema,
+  orderCreateSchema,
+  orderItemsEditSchema,
+  pickupVerifySchema,
+  reorderSchema,
+  savedOrderSearchSchema,
+  savedOrderSearchUpdateSchema,
+  shipmentCreateSchema,
+  shipmentUpdateSchema,
+  trackOrderSchema,
+} from '../validation/schemas';
 import { adminAuditLogger } from '../middleware/audit.middleware';
 
 const router = express.Router();
 const orderController = new OrderController();
+const shipmentController = new ShipmentController();
+const orderEditController = new OrderEditController();
+const bulkOrderController = new BulkOrderController();
+const orderAccessController = new OrderAccessController();
+const orderSearchController = new OrderSearchController();
+const cashPaymentController = new CashPaymentController();
+const pickupController = new PickupController();
 
 // Get all orders (admin only)
 router.get(
@@ -18,6 +49,56 @@ router.get(
   orderController.getAllOrders.bind(orderController)
 );
 
+// Signed-in customer's own orders (cursor paginated)
+router.get(
+  '/mine',
+  authenticate,
+  orderController.getMyOrders.bind(orderController)
+);
+
+// Advanced order search with cursor pagination (admin)
+router.get(
+  '/search',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:search'),
+  orderSearchController.searchOrders.bind(orderSearchController)
+);
+
+// The admin's saved order searches
+router.get(
+  '/search/saved',
+  authenticate,
+  isAdmin,
+  orderSearchController.getSavedSearches.bind(orderSearchController)
+);
+
+router.post(
+  '/search/saved',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:create-saved-search'),
+  validateBody(savedOrderSearchSchema),
+  orderSearchController.createSavedSearch.bind(orderSearchController)
+);
+
+router.patch(
+  '/search/saved/:searchId',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:update-saved-search'),
+  validateBody(savedOrderSearchUpdateSchema),
+  orderSearchController.updateSavedSearch.bind(orderSearchController)
+);
+
+router.delete(
+  '/search/saved/:searchId',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:delete-saved-search'),
+  orderSearchController.deleteSavedSearch.bind(orderSearchController)
+);
+
 // Track order by order number and email (public, for guest customers)
 router.post(
   '/track',
@@ -26,6 +107,79 @@ router.post(
   orderController.trackOrder.bind(orderController)
 );
 
+// View an order from a guest link (public, token scoped to one order)
+router.get(
+  '/access/:token',
+  orderAccessRateLimiter,
+  orderAccessToken,
+  orderController.getOrderByAccessToken.bind(orderController)
+);
+
+// Download the invoice PDF from a guest link
+router.get(
+  '/access/:token/pdf',
+  orderAccessRateLimiter,
+  orderAccessToken,
+  orderController.downloadOrderPDF.bind(orderController)
+);
+
+// Cancel a pending order from a guest link
+router.post(
+  '/access/:token/cancel',
+  orderAccessRateLimiter,
+  orderAccessToken,
+  orderController.cancelOrder.bind(orderController)
+);
+
+// Start a return from a guest link
+router.post(
+  '/access/:token/returns',
+  orderAccessRateLimiter,
+  orderAccessToken,
+  validateBody(orderAccessReturnSchema),
+  orderAccessController.startReturn.bind(orderAccessController)
+);
+
+// Bulk status update by order ids or filter (admin)
+router.post(
+  '/bulk/status',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:bulk-status'),
+  validateBody(bulkOrderStatusSchema),
+  bulkOrderController.updateStatus.bind(bulkOrderController)
+);
+
+// Bulk tracking import from a CSV upload (admin)
+router.post(
+  '/bulk/tracking',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:bulk-tracking'),
+  uploadCsv,
+  bulkOrderController.importTracking.bind(bulkOrderController)
+);
+
+// Merged invoice or packing slip PDF for many orders (admin)
+router.post(
+  '/bulk/documents',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:bulk-documents'),
+  validateBody(bulkOrderDocumentsSchema),
+  bulkOrderController.downloadDocuments.bind(bulkOrderController)
+);
+
+// Verify a pickup code and phone at the store and mark the order collected (admin)
+router.post(
+  '/pickups/verify',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:verify-pickup'),
+  validateBody(pickupVerifySchema),
+  pickupController.verifyPickup.bind(pickupController)
+);
+
 // Download order PDF (admin or owner)
 router.get(
   '/:id/pdf',
@@ -34,6 +188,70 @@ router.get(
   orderController.downloadOrderPDF.bind(orderController)
 );
 
+// Update a shipment (admin)
+router.patch(
+  '/shipments/:shipmentId',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:update-shipment'),
+  validateBody(shipmentUpdateSchema),
+  shipmentController.updateShipment.bind(shipmentController)
+);
+
+// List shipments of an order (admin or owner)
+router.get(
+  '/:id/shipments',
+  authenticate,
+  adminAuditLogger('orders:list-shipments'),
+  shipmentController.getOrderShipments.bind(shipmentController)
+);
+
+// Create a shipment for some or all of an order's items (admin)
+router.post(
+  '/:id/shipments',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:create-shipment'),
+  validateBody(shipmentCreateSchema),
+  shipmentController.createShipment.bind(shipmentController)
+);
+
+// Buy again: copy an order's available items into the customer's cart
+router.post(
+  '/:id/reorder',
+  authenticate,
+  validateBody(reorderSchema),
+  orderController.reorderOrder.bind(orderController)
+);
+
+// Guest links issued for an order (admin)
+router.get(
+  '/:id/access-links',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:list-access-links'),
+  orderAccessController.getAccessLinks.bind(orderAccessController)
+);
+
+// Issue a new guest link (admin)
+router.post(
+  '/:id/access-links',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:create-access-link'),
+  validateBody(orderAccessLinkSchema),
+  orderAccessController.createAccessLink.bind(orderAccessController)
+);
+
+// Revoke a guest link (admin)
+router.delete(
+  '/:id/access-links/:tokenId',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:revoke-access-link'),
+  orderAccessController.revokeAccessLink.bind(orderAccessController)
+);
+
 // Get order by ID (admin or owner)
 router.get(
   '/:id',
@@ -60,6 +278,25 @@ router.patch(
   orderController.updateOrderDetails.bind(orderController)
 );
 
+// Replace order line items with repricing and stock adjustment (admin)
+router.put(
+  '/:id/items',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:edit-items'),
+  validateBody(orderItemsEditSchema),
+  orderEditController.updateOrderItems.bind(orderEditController)
+);
+
+// Line-item edit history with before/after snapshots (admin)
+router.get(
+  '/:id/edits',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:get-edits'),
+  orderEditController.getOrderEdits.bind(orderEditController)
+);
+
 // Update payment status
 router.patch(
   '/:id/payment-status',
@@ -69,6 +306,16 @@ router.patch(
   orderController.updatePaymentStatus.bind(orderController)
 );
 
+// Confirm cash collected on delivery or at pickup (admin)
+router.post(
+  '/:id/cash-collection',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('orders:cash-collection'),
+  validateBody(cashCollectionSchema),
+  cashPaymentController.confirmCollection.bind(cashPaymentController)
+);
+
 // Cancel order (admin only for now)
 router.patch(
   '/:id/cancel',
@@ -81,6 +328,8 @@ router.patch(
 router.post(
   '/',
   checkoutRateLimiter,
+  optionalAuthenticate, // Idempotency keys are scoped to the signed-in user
+  idempotency('orders:create'),
   validateBody(orderCreateSchema),
   orderController.createOrder.bind(orderController)
 );
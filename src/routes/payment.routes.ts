@@ -1,16 +1,42 @@
 import express from 'express';
 import { PaymentController } from '../controllers/payment.controller';
-import { authenticate, isAdmin } from '../middleware/auth.middleware';
-import { paymentVerifyRateLimiter } from '../middleware/rateLimit.middleware';
+import { CashPaymentController } from '../controllers/cashPayment.controller';
+import { RefundController } from '../controllers/refund.controller';
+import { MockPaymentController } from '../controllers/mockPayment.controller';
+import { WebhookEventController } from '../controllers/webhookEvent.controller';
+import { ReconciliationController } from '../controllers/reconciliation.controller';
+import { MobileMoneyController } from '../controllers/mobileMoney.controller';
+import { authenticate, isAdmin, optionalAuthenticate } from '../middleware/auth.middleware';
+import {
+  mobileMoneyChargeRateLimiter,
+  mobileMoneyPhoneRateLimiter,
+  paymentVerifyRateLimiter,
+  webhookRateLimiter,
+} from '../middleware/rateLimit.middleware';
 import { validateBody } from '../middleware/validation.middleware';
-import { paymentVerifySchema } from '../validation/schemas';
+import { idempotency } from '../middleware/idempotency.middleware';
+import {
+  cashPaymentOptionsSchema,
+  mobileMoneyChargeSchema,
+  mobileMoneyOtpSchema,
+  paymentVerifySchema,
+  reconciliationFixSchema,
+  reconciliationRunSchema,
+  refundCreateSchema,
+} from '../validation/schemas';
 import { adminAuditLogger } from '../middleware/audit.middleware';
 
 const router = express.Router();
 const paymentController = new PaymentController();
+const cashPaymentController = new CashPaymentController();
+const refundController = new RefundController();
+const mockPaymentController = new MockPaymentController();
+const webhookEventController = new WebhookEventController();
+const reconciliationController = new ReconciliationController();
+const mobileMoneyController = new MobileMoneyController();
 
 // Initialize Paystack transaction
-router.post('/initialize', paymentController.initializeTransaction);
+router.post('/initialize', optionalAuthenticate, idempotency('payments:initialize'), paymentController.initializeTransaction);
 
 // Verify Paystack transaction
 router.post(
@@ -20,8 +46,123 @@ router.post(
   paymentController.verifyTransaction
 );
 
+// Direct mobile money charge (MTN MoMo, Vodafone Cash, AirtelTigo Money)
+router.post(
+  '/momo/charge',
+  mobileMoneyChargeRateLimiter,
+  mobileMoneyPhoneRateLimiter,
+  optionalAuthenticate,
+  idempotency('payments:momo-charge'),
+  validateBody(mobileMoneyChargeSchema),
+  mobileMoneyController.startCharge.bind(mobileMoneyController)
+);
+
+// Submit the OTP a mobile money charge is waiting for
+router.post(
+  '/momo/submit-otp',
+  paymentVerifyRateLimiter,
+  validateBody(mobileMoneyOtpSchema),
+  mobileMoneyController.submitOtp.bind(mobileMoneyController)
+);
+
+// Poll a mobile money charge
+router.get(
+  '/momo/:reference',
+  paymentVerifyRateLimiter,
+  mobileMoneyController.getStatus.bind(mobileMoneyController)
+);
+
+// Cash on delivery / pay on pickup availability for checkout
+router.post(
+  '/cash-options',
+  optionalAuthenticate,
+  validateBody(cashPaymentOptionsSchema),
+  cashPaymentController.getOptions.bind(cashPaymentController)
+);
+
+// Refunds of a transaction or order (admin)
+router.get(
+  '/refunds',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:list-refunds'),
+  refundController.getRefunds.bind(refundController)
+);
+
+// Full or partial Paystack refund (admin)
+router.post(
+  '/refunds',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:refund'),
+  validateBody(refundCreateSchema),
+  refundController.createRefund.bind(refundController)
+);
+
 // Paystack webhook (for automatic order creation)
-router.post('/webhook', paymentController.handleWebhook);
+router.post('/webhook', webhookRateLimiter, paymentController.handleWebhook.bind(paymentController));
+
+// Webhooks from other providers, e.g. /webhook/mock
+router.post('/webhook/:provider', webhookRateLimiter, paymentController.handleWebhook.bind(paymentController));
+
+// Logged provider webhooks (admin)
+router.get(
+  '/webhook-events',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:list-webhook-events'),
+  webhookEventController.getWebhookEvents.bind(webhookEventController)
+);
+
+// Replay a failed webhook event (admin)
+router.post(
+  '/webhook-events/:eventId/replay',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:replay-webhook-event'),
+  webhookEventController.replayWebhookEvent.bind(webhookEventController)
+);
+
+// Reconcile provider charges with transactions and orders for a date range (admin)
+router.post(
+  '/reconciliation/runs',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:reconcile'),
+  validateBody(reconciliationRunSchema),
+  reconciliationController.createRun.bind(reconciliationController)
+);
+
+// Past reconciliation runs (admin)
+router.get(
+  '/reconciliation/runs',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:list-reconciliation-runs'),
+  reconciliationController.getRuns.bind(reconciliationController)
+);
+
+// A reconciliation run with its mismatches (admin)
+router.get(
+  '/reconciliation/runs/:runId',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:view-reconciliation-run'),
+  reconciliationController.getRun.bind(reconciliationController)
+);
+
+// Fix or ignore a reconciliation mismatch (admin)
+router.post(
+  '/reconciliation/items/:itemId/fix',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('payments:fix-reconciliation-item'),
+  validateBody(reconciliationFixSchema),
+  reconciliationController.fixItem.bind(reconciliationController)
+);
+
+// Hosted checkout page of the mock provider (local development only)
+router.get('/mock/checkout/:reference', mockPaymentController.checkout.bind(mockPaymentController));
 
 // Update transaction-order link (admin only)
 router.post(
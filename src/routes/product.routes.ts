@@ -9,7 +9,14 @@ import {
   getAllCategories,
   getLowStockProducts,
 } from '../controllers/product.controller';
-import { updateOptionPrice, deleteOption, deleteAttribute } from '../controllers/productVariant.controller';
+import {
+  updateOptionPrice,
+  deleteOption,
+  deleteAttribute,
+  getVariantStock,
+  setVariantStock,
+  deleteVariantStock,
+} from '../controllers/productVariant.controller';
 import { authenticate, isAdmin } from '../middleware/auth.middleware';
 import { adminAuditLogger } from '../middleware/audit.middleware';
 import { publicApiRateLimiter } from '../middleware/rateLimit.middleware';
@@ -49,6 +56,24 @@ router.delete(
   deleteAttribute
 );
 
+router.delete(
+  '/variants/stock/:stockId',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('products:variant-delete-stock'),
+  deleteVariantStock
+);
+
+router.get('/:id/variant-stock', authenticate, isAdmin, getVariantStock);
+
+router.put(
+  '/:id/variant-stock',
+  authenticate,
+  isAdmin,
+  adminAuditLogger('products:variant-set-stock'),
+  setVariantStock
+);
+
 router.get('/:slug', publicApiRateLimiter, cacheMiddleware(60), getProductBySlug);
 
 // Admin routes
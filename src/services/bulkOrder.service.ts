@@ -0,0 +1,244 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { parseCSV } from '../utils/csv.utils';
+import { SHIPPABLE_ORDER_STATUSES, shipmentService } from './shipment.service';
+import { orderSearchService } from './orderSearch.service';
+
+// Most orders a single bulk request may touch
+export const BULK_ORDER_LIMIT = 100;
+
+export interface BulkOrderSelection {
+  order_ids?: string[];
+  filter?: Record<string, unknown>; // order search filter grammar
+}
+
+export interface BulkOrderResult {
+  order_id: string | null;
+  order_number: string | null;
+  row?: number;
+  success: boolean;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface TrackingImportRow {
+  row: number;
+  order_id?: string;
+  order_number?: string;
+  tracking_number: string;
+  carrier?: string;
+  tracking_url?: string;
+}
+
+type Actor = { id?: string | null; role?: string | null } | null | undefined;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const bulkOrderService = {
+  /**
+   * Orders picked by explicit ids (kept in request order) or by an order
+   * search filter (oldest first). Ids that match no order are returned as missing; a filter
+   * matching more than BULK_ORDER_LIMIT orders is flagged instead of truncated.
+   */
+  async resolveOrders(selection: BulkOrderSelection, columns: string = 'id, order_number, status') {
+    if (selection.order_ids && selection.order_ids.length > 0) {
+      const orderIds = Array.from(new Set(selection.order_ids));
+      const { data, error } = await supabaseAdmin.from('orders').select(columns).in('id', orderIds);
+
+      if (error) throw error;
+
+      const byId = new Map((data || []).map((order: any) => [order.id, order]));
+      return {
+        orders: orderIds.filter((id) => byId.has(id)).map((id) => byId.get(id)),
+        missing: orderIds.filter((id) => !byId.has(id)),
+        exceedsLimit: false,
+        errors: [] as string[],
+      };
+    }
+
+    const { filters, errors } = orderSearchService.parseFilters(selection.filter || {});
+    if (errors.length > 0) {
+      return { orders: [] as any[], missing: [] as string[], exceedsLimit: false, errors };
+    }
+
+    const { query } = await orderSearchService.buildQuery(filters, columns);
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(BULK_ORDER_LIMIT + 1);
+
+    if (error) throw error;
+
+    const orders = data || [];
+    return {
+      orders: orders.slice(0, BULK_ORDER_LIMIT),
+      missing: [] as string[],
+      exceedsLimit: orders.length > BULK_ORDER_LIMIT,
+      errors: [] as string[],
+    };
+  },
+
+  summarize(results: BulkOrderResult[]) {
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+    };
+  },
+
+  /**
+   * Read a tracking CSV with an order_number or order_id column, a
+   * tracking_number column and optional carrier and tracking_url columns.
+   * Rows are numbered as in the file (header is row 1); unusable rows come
+   * back as failed results.
+   */
+  parseTrackingCsv(content: Buffer | string) {
+    const records = parseCSV(content.toString());
+    const rows: TrackingImportRow[] = [];
+    const errors: BulkOrderResult[] = [];
+
+    records.forEach((record, index) => {
+      const row = index + 2;
+      const orderId = record.order_id || '';
+      const orderNumber = record.order_number || '';
+      const trackingNumber = record.tracking_number || '';
+
+      if (!orderId && !orderNumber) {
+        errors.push({ order_id: null, order_number: null, row, success: false, message: 'Missing order_number or order_id' });
+        return;
+      }
+
+      if (orderId && !UUID_PATTERN.test(orderId)) {
+        errors.push({ order_id: orderId, order_number: orderNumber || null, row, success: false, message: 'Invalid order_id' });
+        return;
+      }
+
+      if (!trackingNumber) {
+        errors.push({ order_id: orderId || null, order_number: orderNumber || null, row, success: false, message: 'Missing tracking_number' });
+        return;
+      }
+
+      rows.push({
+        row,
+        order_id: orderId || undefined,
+        order_number: orderNumber || undefined,
+        tracking_number: trackingNumber,
+        carrier: record.carrier || undefined,
+        tracking_url: record.tracking_url || undefined,
+      });
+    });
+
+    return { rows, errors };
+  },
+
+  /**
+   * Attach one imported tracking number to its order. A pending shipment is
+   * filled in and marked shipped; otherwise everything still left to ship goes
+   * out as a new shipment. An order already fully shipped only has its
+   * untracked shipment filled in. The order status follows its shipments and
+   * the customer gets the shipment email.
+   */
+  async assignTracking(row: TrackingImportRow, actor?: Actor): Promise<BulkOrderResult> {
+    let query = supabaseAdmin
+      .from('orders')
+      .select('id, order_number, status, order_items:order_items(id, product_name, quantity)');
+    query = row.order_id ? query.eq('id', row.order_id) : query.eq('order_number', row.order_number!);
+
+    const { data: order, error: orderError } = await query.maybeSingle();
+    if (orderError) throw orderError;
+
+    const base = { order_id: order?.id || row.order_id || null, order_number: order?.order_number || row.order_number || null, row: row.row };
+    if (!order) {
+      return { ...base, success: false, message: 'Order not found' };
+    }
+
+    const shipments = await shipmentService.getShipments(order.id);
+    const note = 'Tracking imported from CSV';
+    const now = new Date().toISOString();
+
+    const pendingShipment = shipments.find((shipment: any) => shipment.status === 'pending');
+    const untrackedShipment = shipments.find(
+      (shipment: any) => (shipment.status === 'shipped' || shipment.status === 'delivered') && !shipment.tracking_number
+    );
+    const target = pendingShipment || (SHIPPABLE_ORDER_STATUSES.includes(order.status) ? null : untrackedShipment);
+
+    if (target) {
+      const updateData: Record<string, any> = {
+        tracking_number: row.tracking_number,
+        updated_at: now,
+      };
+      if (row.carrier) updateData.carrier = row.carrier;
+      if (row.tracking_url) updateData.tracking_url = row.tracking_url;
+      if (target.status === 'pending') {
+        updateData.status = 'shipped';
+        updateData.shipped_at = now;
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('shipments')
+        .update(updateData)
+        .eq('id', target.id)
+        .eq('status', target.status)
+        .select('id')
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      if (!updated) {
+        return { ...base, success: false, message: 'Shipment was changed by another request' };
+      }
+
+      const sync = await shipmentService.syncOrderStatus(order.id, actor, note);
+      const savedShipment = await shipmentService.getShipment(target.id);
+
+      if (target.status === 'pending') {
+        await shipmentService.notifyCustomer(order.id, savedShipment);
+      }
+
+      return {
+        ...base,
+        success: true,
+        message: target.status === 'pending' ? 'Pending shipment marked as shipped' : 'Tracking added to shipment',
+        data: { shipment_id: target.id, order_status: sync.status },
+      };
+    }
+
+    const remainingItems = shipmentService
+      .summarize(order.order_items || [], shipments)
+      .filter((line) => line.remaining > 0)
+      .map((line) => ({ order_item_id: line.order_item_id, quantity: line.remaining }));
+
+    if (remainingItems.length === 0 || !SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      return {
+        ...base,
+        success: false,
+        message: remainingItems.length === 0
+          ? 'Order has nothing left to ship'
+          : `Shipments can only be created for orders that are ${SHIPPABLE_ORDER_STATUSES.join(' or ')}`,
+        data: { current_status: order.status },
+      };
+    }
+
+    const result = await shipmentService.createShipment(
+      order.id,
+      {
+        items: remainingItems,
+        carrier: row.carrier || null,
+        tracking_number: row.tracking_number,
+        tracking_url: row.tracking_url || null,
+        status: 'shipped',
+        notes: note,
+      },
+      actor
+    );
+
+    if (!result.success) {
+      return { ...base, success: false, message: result.message, ...(result.data ? { data: result.data } : {}) };
+    }
+
+    return {
+      ...base,
+      success: true,
+      message: 'Shipment created',
+      data: { shipment_id: result.shipment?.id, order_status: result.order_status },
+    };
+  },
+};
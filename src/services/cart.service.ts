@@ -0,0 +1,58 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+
+export interface CartLineInput {
+  product_id: string;
+  quantity: number;
+  selected_variants?: Record<string, any> | null;
+}
+
+export const CART_SELECT = `id, quantity, selected_variants, product:products(*)`;
+
+export const cartService = {
+  async getCart(userId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('cart_items')
+      .select(CART_SELECT)
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * Replace the user's cart with the given lines (one row per product) and
+   * return the saved cart. An empty list clears the cart.
+   */
+  async replaceCart(userId: string, items: CartLineInput[]) {
+    // Clear existing cart for user
+    const { error: deleteError } = await supabaseAdmin
+      .from('cart_items')
+      .delete()
+      .eq('user_id', userId);
+
+    if (deleteError) throw deleteError;
+
+    if (items.length === 0) {
+      return [];
+    }
+
+    const now = new Date().toISOString();
+    const payload = items.map((item) => ({
+      user_id: userId,
+      product_id: item.product_id,
+      quantity: Number(item.quantity) || 1,
+      selected_variants: item.selected_variants || {},
+      created_at: now,
+      updated_at: now,
+    }));
+
+    const { data, error } = await supabaseAdmin
+      .from('cart_items')
+      .upsert(payload, { onConflict: 'user_id,product_id' })
+      .select(CART_SELECT);
+
+    if (error) throw error;
+    return data || [];
+  },
+};
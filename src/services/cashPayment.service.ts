@@ -0,0 +1,279 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+
+export const CASH_PAYMENT_METHODS = ['cash_on_delivery', 'pay_on_pickup'] as const;
+export type CashPaymentMethod = (typeof CASH_PAYMENT_METHODS)[number];
+
+export const isCashPaymentMethod = (value: unknown): value is CashPaymentMethod =>
+  typeof value === 'string' && (CASH_PAYMENT_METHODS as readonly string[]).includes(value);
+
+// Settings are read as `${prefix}_enabled`, `${prefix}_max_order_value`, ...
+const SETTING_PREFIX: Record<CashPaymentMethod, string> = {
+  cash_on_delivery: 'cod',
+  pay_on_pickup: 'pay_on_pickup',
+};
+
+// Cash is handed to a rider for deliveries and paid at the counter for pickups
+const REQUIRED_DELIVERY_TYPE: Record<CashPaymentMethod, 'delivery' | 'pickup'> = {
+  cash_on_delivery: 'delivery',
+  pay_on_pickup: 'pickup',
+};
+
+export interface CashEligibilityInput {
+  method: CashPaymentMethod;
+  total: number;
+  region?: string | null;
+  deliveryType?: 'delivery' | 'pickup' | null;
+  customerId?: string | null;
+  userId?: string | null;
+}
+
+export type CashEligibility =
+  | { eligible: true }
+  | {
+      eligible: false;
+      reason: 'disabled' | 'delivery_type' | 'max_order_value' | 'region' | 'flagged_customer';
+      message: string;
+    };
+
+export type CashCollectionResult =
+  | { success: true; order: any; transaction: any }
+  | { success: false; status: number; message: string; data?: Record<string, unknown> };
+
+type Actor = { id?: string | null; email?: string | null } | null | undefined;
+
+const normalizeRegion = (value?: string | null) => (value || '').trim().toLowerCase();
+
+const METHOD_LABELS: Record<CashPaymentMethod, string> = {
+  cash_on_delivery: 'Cash on delivery',
+  pay_on_pickup: 'Pay on pickup',
+};
+
+export const cashPaymentService = {
+  async getRules(method: CashPaymentMethod) {
+    const prefix = SETTING_PREFIX[method];
+    const [enabled, maxOrderValue, regions] = await Promise.all([
+      settingsService.isEnabled(`${prefix}_enabled`),
+      settingsService.getNumberSetting(`${prefix}_max_order_value`, 0),
+      settingsService.getSetting(`${prefix}_allowed_regions`),
+    ]);
+
+    return {
+      enabled,
+      maxOrderValue,
+      allowedRegions: (regions || '').split(',').map(normalizeRegion).filter(Boolean),
+    };
+  },
+
+  // A customer is flagged if the order's customer record, or any record linked to the account, is
+  async isFlaggedCustomer(customerId?: string | null, userId?: string | null) {
+    const owners = [
+      ...(customerId ? [`id.eq.${customerId}`] : []),
+      ...(userId ? [`user_id.eq.${userId}`] : []),
+    ];
+    if (owners.length === 0) return false;
+
+    const { data, error } = await supabaseAdmin
+      .from('customers')
+      .select('id')
+      .eq('is_flagged', true)
+      .or(owners.join(','))
+      .limit(1);
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  },
+
+  async checkEligibility(input: CashEligibilityInput): Promise<CashEligibility> {
+    const label = METHOD_LABELS[input.method];
+    const rules = await this.getRules(input.method);
+
+    if (!rules.enabled) {
+      return { eligible: false, reason: 'disabled', message: `${label} is not available` };
+    }
+
+    const requiredType = REQUIRED_DELIVERY_TYPE[input.method];
+    if ((input.deliveryType || 'delivery') !== requiredType) {
+      return {
+        eligible: false,
+        reason: 'delivery_type',
+        message: `${label} requires a ${requiredType === 'pickup' ? 'store pickup' : 'delivery'} option`,
+      };
+    }
+
+    if (rules.maxOrderValue > 0 && input.total > rules.maxOrderValue) {
+      return {
+        eligible: false,
+        reason: 'max_order_value',
+        message: `${label} is only available for orders up to GHS ${rules.maxOrderValue.toFixed(2)}`,
+      };
+    }
+
+    if (rules.allowedRegions.length > 0 && !rules.allowedRegions.includes(normalizeRegion(input.region))) {
+      return { eligible: false, reason: 'region', message: `${label} is not available in your region` };
+    }
+
+    if (await this.isFlaggedCustomer(input.customerId, input.userId)) {
+      return { eligible: false, reason: 'flagged_customer', message: `${label} is not available for this account` };
+    }
+
+    return { eligible: true };
+  },
+
+  async getOptions(input: Omit<CashEligibilityInput, 'method'>) {
+    const entries = await Promise.all(
+      CASH_PAYMENT_METHODS.map(async (method) => [method, await this.checkEligibility({ ...input, method })] as const)
+    );
+    return Object.fromEntries(entries) as Record<CashPaymentMethod, CashEligibility>;
+  },
+
+  /**
+   * Record cash handed over for a cash order. The order is claimed first, so
+   * two confirmations cannot both succeed, then its transaction is marked
+   * paid (or created if missing). If the transaction cannot be written the
+   * order goes back to its previous payment status.
+   */
+  async recordCollection(
+    orderId: string,
+    input: { amount?: number; reference?: string | null; notes?: string | null },
+    actor?: Actor
+  ): Promise<CashCollectionResult> {
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select(`
+        id,
+        order_number,
+        status,
+        payment_status,
+        payment_method,
+        total,
+        user_id,
+        shipping_address,
+        created_at,
+        user:users!orders_user_id_fkey(email, full_name),
+        customer:customers!orders_customer_id_fkey(email, full_name, phone)
+      `)
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+    if (!order) {
+      return { success: false, status: 404, message: 'Order not found' };
+    }
+
+    const orderData: any = order;
+
+    if (!isCashPaymentMethod(orderData.payment_method)) {
+      return { success: false, status: 409, message: 'This order is not paid in cash' };
+    }
+
+    if (orderData.status === 'cancelled') {
+      return { success: false, status: 409, message: 'Cannot collect payment for a cancelled order' };
+    }
+
+    if (orderData.payment_status === 'paid') {
+      return { success: false, status: 409, message: 'Payment for this order has already been collected' };
+    }
+
+    const total = Number(orderData.total) || 0;
+    const amount = input.amount ?? total;
+    if (Math.abs(amount - total) > 0.01) {
+      return {
+        success: false,
+        status: 400,
+        message: 'Collected amount does not match the order total',
+        data: { expected: total, received: amount },
+      };
+    }
+
+    const now = new Date().toISOString();
+    const previousPaymentStatus = orderData.payment_status || 'pending';
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('orders')
+      .update({ payment_status: 'paid', updated_at: now })
+      .eq('id', orderId)
+      .eq('payment_status', previousPaymentStatus)
+      .select('*')
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!claimed) {
+      return { success: false, status: 409, message: 'Payment for this order was updated by someone else. Please refresh.' };
+    }
+
+    const collection = {
+      amount,
+      collected_by: actor?.id || null,
+      collected_by_email: actor?.email || null,
+      collected_at: now,
+      reference: input.reference || null,
+      notes: input.notes || null,
+    };
+
+    try {
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from('transactions')
+        .select('id, metadata')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+
+      const paidFields = {
+        payment_method: orderData.payment_method,
+        payment_provider: 'cash',
+        amount,
+        currency: 'GHS',
+        status: 'success',
+        payment_status: 'paid',
+        paid_at: now,
+        updated_at: now,
+      };
+
+      const write = existing
+        ? supabaseAdmin
+            .from('transactions')
+            .update({
+              ...paidFields,
+              metadata: { ...((existing as any).metadata || {}), cash_collection: collection },
+            })
+            .eq('id', existing.id)
+        : supabaseAdmin.from('transactions').insert({
+            ...paidFields,
+            order_id: orderId,
+            user_id: orderData.user_id || null,
+            transaction_reference: input.reference || `CASH-${orderData.order_number}`,
+            customer_email:
+              orderData.customer?.email || orderData.user?.email || orderData.shipping_address?.email || 'no-email@example.com',
+            metadata: {
+              order_number: orderData.order_number,
+              customer_name:
+                orderData.customer?.full_name || orderData.user?.full_name || orderData.shipping_address?.full_name || 'Customer',
+              total,
+              payment_method: orderData.payment_method,
+              order_id: orderId,
+              cash_collection: collection,
+            },
+            initiated_at: orderData.created_at || now,
+          });
+
+      const { data: transaction, error: transactionError } = await write.select('*').single();
+      if (transactionError) throw transactionError;
+
+      return { success: true, order: claimed, transaction };
+    } catch (error) {
+      const { error: revertError } = await supabaseAdmin
+        .from('orders')
+        .update({ payment_status: previousPaymentStatus, updated_at: new Date().toISOString() })
+        .eq('id', orderId);
+
+      if (revertError) {
+        console.error(`Failed to revert payment status of order ${orderId} after cash collection error:`, revertError);
+      }
+      throw error;
+    }
+  },
+};
@@ -16,6 +16,26 @@ const normalizeEmail = (email?: string | null) => {
 };
 
 export const customerService = {
+  // Who to email about an order: the customer record, then the account, then the guest address
+  getOrderContact(order: any): { email: string | null; name: string } {
+    if (order?.customer?.email) {
+      return { email: order.customer.email, name: order.customer.full_name || 'Customer' };
+    }
+    if (order?.user?.email) {
+      return {
+        email: order.user.email,
+        name: `${order.user.first_name || ''} ${order.user.last_name || ''}`.trim() || 'Customer',
+      };
+    }
+    if (order?.shipping_address?.email) {
+      return {
+        email: order.shipping_address.email,
+        name: order.shipping_address.full_name || order.shipping_address.first_name || 'Guest Customer',
+      };
+    }
+    return { email: null, name: 'Customer' };
+  },
+
   async findById(customerId: string) {
     const { data, error } = await supabaseAdmin
       .from('customers')
@@ -147,6 +167,25 @@ export const customerService = {
     return data || [];
   },
 
+  // Flagged customers lose access to cash payment modes
+  async setFlag(customerId: string, flagged: boolean, reason?: string | null, flaggedBy?: string | null) {
+    const { data, error } = await supabaseAdmin
+      .from('customers')
+      .update({
+        is_flagged: flagged,
+        flag_reason: flagged ? reason || null : null,
+        flagged_at: flagged ? new Date().toISOString() : null,
+        flagged_by: flagged ? flaggedBy || null : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', customerId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data || null;
+  },
+
   async touchLastOrder(customerId: string) {
     await supabaseAdmin
       .from('customers')
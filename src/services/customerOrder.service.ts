@@ -0,0 +1,225 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+import { orderStatusService } from './orderStatus.service';
+import { shipmentService } from './shipment.service';
+
+export const CUSTOMER_ORDERS_DEFAULT_LIMIT = 10;
+export const CUSTOMER_ORDERS_MAX_LIMIT = 50;
+
+// Return requests that still block a new one for the same order
+export const OPEN_RETURN_STATUSES = ['pending', 'approved', 'processing'];
+
+const DEFAULT_RETURN_WINDOW_DAYS = 14;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface CustomerOrderFilters {
+  status?: string[];
+  date_from?: string;
+  date_to?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ReturnEligibility {
+  eligible: boolean;
+  reason: 'not_delivered' | 'window_expired' | 'return_in_progress' | null;
+  deadline: string | null;
+}
+
+interface OrderCursor {
+  created_at: string;
+  id: string;
+}
+
+export const customerOrderService = {
+  // Customers records linked to the account, so orders placed before signing up are included
+  async getLinkedCustomerIds(userId: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin.from('customers').select('id').eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []).map((customer: any) => customer.id);
+  },
+
+  encodeCursor(order: { created_at: string; id: string }) {
+    return Buffer.from(JSON.stringify({ created_at: order.created_at, id: order.id })).toString('base64url');
+  },
+
+  decodeCursor(cursor: string): OrderCursor | null {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      // Both values end up in a PostgREST filter, so only a UUID and a re-serialized timestamp get through
+      if (typeof parsed?.created_at !== 'string' || typeof parsed?.id !== 'string') return null;
+      if (!UUID_PATTERN.test(parsed.id)) return null;
+      const createdAt = new Date(parsed.created_at);
+      if (isNaN(createdAt.getTime())) return null;
+      return { created_at: createdAt.toISOString(), id: parsed.id };
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * One page of a user's orders, newest first. Orders match on user_id or on
+   * a customer record linked to the user. Pages are keyed on
+   * (created_at, id) so new orders never shift the next page.
+   */
+  async listOrders(userId: string, filters: CustomerOrderFilters) {
+    const limit = Math.min(Math.max(filters.limit || CUSTOMER_ORDERS_DEFAULT_LIMIT, 1), CUSTOMER_ORDERS_MAX_LIMIT);
+    const customerIds = await this.getLinkedCustomerIds(userId);
+
+    const owners = [`user_id.eq.${userId}`];
+    if (customerIds.length > 0) {
+      owners.push(`customer_id.in.(${customerIds.join(',')})`);
+    }
+
+    // Ownership and the cursor both need OR, so they are combined into one filter
+    const cursor = filters.cursor ? this.decodeCursor(filters.cursor) : null;
+    const afterCursor = cursor
+      ? `or(created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id}))`
+      : null;
+
+    let query = supabaseAdmin
+      .from('orders')
+      .select('*, order_items:order_items(*)')
+      .or(owners.map((owner) => (afterCursor ? `and(${owner},${afterCursor})` : owner)).join(','));
+
+    if (filters.status && filters.status.length > 0) {
+      query = query.in('status', filters.status);
+    }
+
+    if (filters.date_from) {
+      const fromDate = new Date(filters.date_from);
+      if (!isNaN(fromDate.getTime())) {
+        query = query.gte('created_at', fromDate.toISOString());
+      }
+    }
+
+    if (filters.date_to) {
+      const toDate = new Date(filters.date_to);
+      if (!isNaN(toDate.getTime())) {
+        toDate.setHours(23, 59, 59, 999);
+        query = query.lte('created_at', toDate.toISOString());
+      }
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const orders = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return {
+      orders,
+      nextCursor: hasMore && orders.length > 0 ? this.encodeCursor(orders[orders.length - 1]) : null,
+      hasMore,
+      limit,
+    };
+  },
+
+  async getReturnWindowDays() {
+    return settingsService.getNumberSetting('return_window_days', DEFAULT_RETURN_WINDOW_DAYS);
+  },
+
+  /**
+   * Returns can be started for delivered orders within the return window,
+   * counted from the latest delivery, as long as no return is already open.
+   */
+  getReturnEligibility(
+    order: { status: string; updated_at?: string | null },
+    context: { deliveredAt: string | null; hasOpenReturn: boolean; windowDays: number }
+  ): ReturnEligibility {
+    if (order.status !== 'delivered') {
+      return { eligible: false, reason: 'not_delivered', deadline: null };
+    }
+
+    const deliveredAt = new Date(context.deliveredAt || order.updated_at || Date.now());
+    const deadline = new Date(deliveredAt.getTime() + context.windowDays * 24 * 60 * 60 * 1000);
+
+    if (context.hasOpenReturn) {
+      return { eligible: false, reason: 'return_in_progress', deadline: deadline.toISOString() };
+    }
+
+    if (Date.now() > deadline.getTime()) {
+      return { eligible: false, reason: 'window_expired', deadline: deadline.toISOString() };
+    }
+
+    return { eligible: true, reason: null, deadline: deadline.toISOString() };
+  },
+
+  /**
+   * Customer-facing view of orders: items with raw thumbnails, shipments,
+   * status timeline and return eligibility. Related data is loaded in one
+   * query per table for the whole page.
+   */
+  async presentOrders(orders: any[]) {
+    const orderIds = orders.map((order) => order.id);
+    const productIds = Array.from(
+      new Set(orders.flatMap((order) => (order.order_items || []).map((item: any) => item.product_id).filter(Boolean)))
+    );
+
+    const [productsResult, returnsResult, shipmentsByOrder, timelines, windowDays] = await Promise.all([
+      productIds.length > 0
+        ? supabaseAdmin.from('products').select('id, slug, thumbnail, image_url').in('id', productIds)
+        : Promise.resolve({ data: [] as any[], error: null }),
+      orderIds.length > 0
+        ? supabaseAdmin.from('return_requests').select('id, order_id, status').in('order_id', orderIds).in('status', OPEN_RETURN_STATUSES)
+        : Promise.resolve({ data: [] as any[], error: null }),
+      shipmentService.getPublicShipmentsForOrders(orderIds),
+      orderStatusService.getPublicHistoryForOrders(orderIds),
+      this.getReturnWindowDays(),
+    ]);
+
+    if (productsResult.error) {
+      console.error('Failed to fetch products for order thumbnails:', productsResult.error);
+    }
+    if (returnsResult.error) {
+      console.error('Failed to fetch return requests for orders:', returnsResult.error);
+    }
+
+    const products = new Map((productsResult.data || []).map((product: any) => [product.id, product]));
+    const openReturns = new Set((returnsResult.data || []).map((request: any) => request.order_id));
+
+    return orders.map((order) => {
+      const { order_items: orderItems, ...rest } = order;
+      const shipments = shipmentsByOrder.get(order.id) || [];
+      const timeline = timelines.get(order.id) || [];
+
+      const deliveredAt =
+        shipments
+          .map((shipment: any) => shipment.delivered_at)
+          .filter(Boolean)
+          .sort()
+          .pop() ||
+        [...timeline].reverse().find((entry: any) => entry.status === 'delivered')?.created_at ||
+        null;
+
+      const items = (orderItems || []).map((item: any) => {
+        const product: any = item.product_id ? products.get(item.product_id) : null;
+        return {
+          ...item,
+          product_slug: product?.slug || null,
+          thumbnail: item.product_image || product?.thumbnail || product?.image_url || null,
+        };
+      });
+
+      return {
+        ...rest,
+        items,
+        item_count: items.reduce((sum: number, item: any) => sum + (Number(item.quantity) || 0), 0),
+        shipments,
+        timeline,
+        return_eligibility: this.getReturnEligibility(order, {
+          deliveredAt,
+          hasOpenReturn: openReturns.has(order.id),
+          windowDays,
+        }),
+      };
+    });
+  },
+};
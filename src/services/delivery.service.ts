@@ -0,0 +1,135 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+
+export interface DeliveryQuoteInput {
+  region?: string | null;
+  city?: string | null;
+  items: Array<{ product_id?: string | null; quantity: number }>;
+  order_value: number;
+}
+
+export interface DeliveryQuote {
+  id: string;
+  name: string;
+  description: string | null;
+  type: 'delivery' | 'pickup';
+  base_price: number;
+  price: number;
+  estimated_days: number | null;
+  is_free: boolean;
+  zone_rate_id: string | null;
+  total_weight: number;
+}
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const normalize = (value?: string | null) => String(value ?? '').trim().toLowerCase();
+
+const inBand = (value: number, min: any, max: any) =>
+  (min === null || min === undefined || value >= Number(min)) &&
+  (max === null || max === undefined || value <= Number(max));
+
+// City + region beats region only, which beats a catch-all rule
+const specificity = (rate: any) => (rate.city ? 2 : 0) + (rate.region ? 1 : 0);
+
+export const deliveryService = {
+  async getTotalWeight(items: DeliveryQuoteInput['items']): Promise<number> {
+    const productIds = Array.from(
+      new Set(items.map((item) => item.product_id).filter((id): id is string => !!id))
+    );
+    if (productIds.length === 0) return 0;
+
+    const { data, error } = await supabaseAdmin
+      .from('products')
+      .select('id, weight')
+      .in('id', productIds);
+
+    if (error) throw error;
+
+    const weights = new Map<string, number>((data || []).map((product: any) => [product.id, Number(product.weight) || 0]));
+    return items.reduce((sum, item) => sum + (weights.get(item.product_id || '') || 0) * (Number(item.quantity) || 0), 0);
+  },
+
+  /**
+   * Pick the zone rule for an option. Returns `undefined` when the option has
+   * no rules (base price applies) and `null` when it has rules but none match.
+   */
+  matchZoneRate(rates: any[], input: DeliveryQuoteInput, totalWeight: number) {
+    const activeRates = rates.filter((rate) => rate.is_active !== false);
+    if (activeRates.length === 0) return undefined;
+
+    const region = normalize(input.region);
+    const city = normalize(input.city);
+
+    const matches = activeRates.filter(
+      (rate) =>
+        (!rate.region || normalize(rate.region) === region) &&
+        (!rate.city || normalize(rate.city) === city) &&
+        inBand(totalWeight, rate.min_weight, rate.max_weight) &&
+        inBand(input.order_value, rate.min_order_value, rate.max_order_value)
+    );
+
+    if (matches.length === 0) return null;
+
+    return matches.sort((a, b) => specificity(b) - specificity(a) || (b.priority || 0) - (a.priority || 0))[0];
+  },
+
+  /**
+   * Price every active delivery option for an address and cart. Options whose
+   * zone rules do not cover the address are left out.
+   */
+  async quote(input: DeliveryQuoteInput, optionId?: string): Promise<DeliveryQuote[]> {
+    let query = supabaseAdmin
+      .from('delivery_options')
+      .select('id, name, description, price, estimated_days, type, display_order, zone_rates:delivery_zone_rates(*)')
+      .eq('is_active', true)
+      .order('display_order', { ascending: true });
+
+    if (optionId) {
+      query = query.eq('id', optionId);
+    }
+
+    const { data: options, error } = await query;
+    if (error) throw error;
+
+    const totalWeight = await this.getTotalWeight(input.items);
+    const quotes: DeliveryQuote[] = [];
+
+    for (const option of options || []) {
+      const rate = this.matchZoneRate((option as any).zone_rates || [], input, totalWeight);
+      if (rate === null) continue;
+
+      const basePrice = Number(option.price) || 0;
+      let price = rate ? Number(rate.price || 0) + Number(rate.price_per_kg || 0) * totalWeight : basePrice;
+
+      const threshold = rate?.free_shipping_threshold;
+      const isFree = threshold !== null && threshold !== undefined && input.order_value >= Number(threshold);
+      if (isFree) {
+        price = 0;
+      }
+
+      quotes.push({
+        id: option.id,
+        name: option.name,
+        description: option.description || null,
+        type: option.type === 'pickup' ? 'pickup' : 'delivery',
+        base_price: basePrice,
+        price: roundMoney(price),
+        estimated_days: rate?.estimated_days ?? option.estimated_days ?? null,
+        is_free: isFree || price === 0,
+        zone_rate_id: rate ? rate.id : null,
+        total_weight: roundMoney(totalWeight),
+      });
+    }
+
+    return quotes;
+  },
+
+  // Quote a single option; null when it is inactive or does not serve the address
+  async quoteOption(optionId: string, input: DeliveryQuoteInput): Promise<DeliveryQuote | null> {
+    if (!UUID_PATTERN.test(optionId)) return null;
+    const quotes = await this.quote(input, optionId);
+    return quotes[0] || null;
+  },
+};
@@ -0,0 +1,87 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+
+export type DocumentScope = 'order' | 'return' | 'quote';
+
+const BUSINESS_TIME_ZONE = 'Africa/Accra';
+
+const DEFAULT_FORMATS: Record<DocumentScope, { format: string; reset: 'daily' | 'never' }> = {
+  order: { format: 'ORD-{SEQ:3}{DDMMYY}', reset: 'daily' },
+  return: { format: 'RA-{YYYYMMDD}-{SEQ:5}', reset: 'daily' },
+  quote: { format: 'QT-{YYYYMMDD}-{SEQ:4}', reset: 'daily' },
+};
+
+const SETTING_KEYS: Record<DocumentScope, { format: string; reset: string }> = {
+  order: { format: 'order_number_format', reset: 'order_number_reset' },
+  return: { format: 'ra_number_format', reset: 'ra_number_reset' },
+  quote: { format: 'quote_number_format', reset: 'quote_number_reset' },
+};
+
+// Calendar date in Africa/Accra, regardless of the server's time zone
+export const getBusinessDateParts = (date: Date = new Date()) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: BUSINESS_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '';
+  return { year: get('year'), month: get('month'), day: get('day') };
+};
+
+/**
+ * Render a number template. `{SEQ:n}` is the counter padded to at least n
+ * digits (it never wraps); any brace group made of YYYY, YY, MM and DD is a
+ * date part, e.g. `{DDMMYY}` or `{YYYYMMDD}`.
+ */
+export const formatDocumentNumber = (template: string, sequence: number, date: Date = new Date()) => {
+  const { year, month, day } = getBusinessDateParts(date);
+
+  return template
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_match, padding) => String(sequence).padStart(Number(padding || 0), '0'))
+    .replace(/\{((?:YYYY|YY|MM|DD)+)\}/g, (_match, pattern: string) =>
+      pattern.replace(/YYYY|YY|MM|DD/g, (token) => {
+        if (token === 'YYYY') return year;
+        if (token === 'YY') return year.slice(-2);
+        if (token === 'MM') return month;
+        return day;
+      })
+    );
+};
+
+export const isUniqueViolation = (error: any) => error?.code === '23505';
+
+export const documentNumberService = {
+  async getFormat(scope: DocumentScope) {
+    const keys = SETTING_KEYS[scope];
+    const defaults = DEFAULT_FORMATS[scope];
+    const [format, reset] = await Promise.all([
+      settingsService.getSetting(keys.format),
+      settingsService.getSetting(keys.reset),
+    ]);
+
+    return {
+      format: format && format.includes('{SEQ') ? format : defaults.format,
+      reset: reset === 'never' ? 'never' : reset === 'daily' ? 'daily' : defaults.reset,
+    };
+  },
+
+  /**
+   * Next number for a document type. The counter comes from the database
+   * (next_document_number RPC), so concurrent callers never share a value.
+   */
+  async next(scope: DocumentScope, date: Date = new Date()): Promise<string> {
+    const { format, reset } = await this.getFormat(scope);
+    const { year, month, day } = getBusinessDateParts(date);
+
+    const { data, error } = await supabaseAdmin.rpc('next_document_number', {
+      p_scope: scope,
+      p_period: reset === 'daily' ? `${year}-${month}-${day}` : null,
+    });
+
+    if (error) throw error;
+
+    return formatDocumentNumber(format, Number(data), date);
+  },
+};
@@ -0,0 +1,412 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { customerService } from './customer.service';
+import { commitDiscountUsage, evaluateDiscount } from './discount.service';
+import { DeliveryQuote, deliveryService } from './delivery.service';
+import { documentNumberService, isUniqueViolation } from './documentNumber.service';
+import { inventoryService, StockShortage } from './inventory.service';
+import { orderStatusService } from './orderStatus.service';
+import { paymentVerificationService } from './paymentVerification.service';
+import { PriceMismatch, pricingService } from './pricing.service';
+import { settingsService } from './settings.service';
+import { TaxLine, taxService } from './tax.service';
+
+export const DRAFT_ORDER_STATUSES = ['draft', 'sent', 'converted', 'cancelled'] as const;
+
+export type DraftOrderStatus = (typeof DRAFT_ORDER_STATUSES)[number];
+
+// Drafts that can still be edited, sent or cancelled
+export const OPEN_DRAFT_STATUSES: DraftOrderStatus[] = ['draft', 'sent'];
+
+export interface DraftOrderInput {
+  items: Array<{
+    product_id?: string | null;
+    deal_product_id?: string | null;
+    quantity: number;
+    selected_variants?: Record<string, any> | null;
+  }>;
+  delivery_address?: Record<string, any> | null;
+  delivery_option_id?: string | null;
+  discount_code?: string | null;
+}
+
+export interface DraftOrderLine {
+  product_id: string | null;
+  deal_product_id: string | null;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  subtotal: number;
+  selected_variants: Record<string, any>;
+}
+
+export interface DraftOrderPricing {
+  items: DraftOrderLine[];
+  subtotal: number;
+  discount: number;
+  discount_code: string | null;
+  discount_id: string | null;
+  tax: number;
+  tax_breakdown: TaxLine[];
+  shipping_fee: number;
+  total: number;
+  delivery_option: DeliveryQuote | null;
+}
+
+export type DraftOrderPricingResult =
+  | { success: true; pricing: DraftOrderPricing }
+  | { success: false; status: number; message: string; data?: Record<string, any> };
+
+export type DraftOrderConversionResult =
+  | { success: true; order: any }
+  | { success: false; shortages: StockShortage[] };
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+export const draftOrderService = {
+  async getValidityDays(): Promise<number> {
+    return settingsService.getNumberSetting('quote_validity_days', 7);
+  },
+
+  generatePaymentToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  },
+
+  isExpired(draft: { expires_at?: string | null }, now: Date = new Date()): boolean {
+    return !!draft.expires_at && new Date(draft.expires_at).getTime() <= now.getTime();
+  },
+
+  async getDraft(id: string) {
+    const { data, error } = await supabaseAdmin
+      .from('draft_orders')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async getDraftByToken(token: string) {
+    const { data, error } = await supabaseAdmin
+      .from('draft_orders')
+      .select('*')
+      .eq('payment_token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Customer-facing view of a quote: no internal ids, notes or token
+  toPublicQuote(draft: any) {
+    return {
+      quote_number: draft.quote_number,
+      status: this.isExpired(draft) && draft.status === 'sent' ? 'expired' : draft.status,
+      customer_name: draft.customer_name,
+      items: draft.items || [],
+      subtotal: Number(draft.subtotal) || 0,
+      discount: Number(draft.discount) || 0,
+      discount_code: draft.discount_code,
+      tax: Number(draft.tax) || 0,
+      tax_breakdown: draft.tax_breakdown || [],
+      shipping_fee: Number(draft.shipping_fee) || 0,
+      total: Number(draft.total) || 0,
+      delivery_option: draft.delivery_option,
+      delivery_address: draft.delivery_address,
+      expires_at: draft.expires_at,
+    };
+  },
+
+  /**
+   * Price a draft the same way checkout prices an order: catalogue prices,
+   * zone-based delivery fee, discount on products only, then tax.
+   */
+  async price(input: DraftOrderInput): Promise<DraftOrderPricingResult> {
+    const pricing = await pricingService.priceOrderItems(
+      input.items.map((item) => ({
+        product_id: item.product_id || null,
+        deal_product_id: item.deal_product_id || null,
+        quantity: item.quantity,
+        selected_variants: item.selected_variants || null,
+      }))
+    );
+
+    const unavailable: PriceMismatch[] = pricing.mismatches.filter((mismatch) => mismatch.reason === 'unavailable');
+    if (unavailable.length > 0) {
+      return {
+        success: false,
+        status: 409,
+        message: 'Some items are not available',
+        data: { unavailable_items: unavailable },
+      };
+    }
+
+    const items: DraftOrderLine[] = pricing.lines.map((line) => ({
+      product_id: line.product_id,
+      deal_product_id: line.deal_product_id,
+      product_name: line.product_name,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      subtotal: line.subtotal,
+      selected_variants: input.items[line.index].selected_variants || {},
+    }));
+
+    let deliveryOption: DeliveryQuote | null = null;
+    if (input.delivery_option_id) {
+      deliveryOption = await deliveryService.quoteOption(input.delivery_option_id, {
+        region: input.delivery_address?.region,
+        city: input.delivery_address?.city,
+        items: items.map((item) => ({ product_id: item.product_id, quantity: item.quantity })),
+        order_value: pricing.subtotal,
+      });
+
+      if (!deliveryOption) {
+        return {
+          success: false,
+          status: 400,
+          message: 'The selected delivery option is not available for this address',
+        };
+      }
+    }
+
+    let shippingFee = deliveryOption ? deliveryOption.price : 0;
+    let discount = 0;
+    let discountCode: string | null = null;
+    let discountId: string | null = null;
+
+    if (input.discount_code) {
+      try {
+        const discountResult = await evaluateDiscount({
+          code: input.discount_code,
+          subtotal: pricing.subtotal,
+          deliveryFee: shippingFee,
+          items,
+        });
+        discount = discountResult.discountAmount;
+        discountCode = discountResult.code;
+        discountId = discountResult.discountId;
+        if (discountResult.type === 'free_shipping') {
+          shippingFee = discountResult.adjustedDeliveryFee;
+        }
+      } catch (discountError: any) {
+        // Unlike checkout, staff should know the code was not applied
+        return {
+          success: false,
+          status: 400,
+          message: discountError?.message || 'Invalid discount code',
+        };
+      }
+    }
+
+    const discountedSubtotal = Math.max(0, pricing.subtotal - discount);
+    const taxResult = await taxService.calculateOrderTax({ subtotal: discountedSubtotal, shipping: shippingFee });
+
+    return {
+      success: true,
+      pricing: {
+        items,
+        subtotal: pricing.subtotal,
+        discount,
+        discount_code: discountCode,
+        discount_id: discountId,
+        tax: taxResult.total,
+        tax_breakdown: taxResult.breakdown,
+        shipping_fee: shippingFee,
+        total: roundMoney(discountedSubtotal + taxResult.total + shippingFee),
+        delivery_option: deliveryOption,
+      },
+    };
+  },
+
+  /**
+   * Turn a sent quote into a pending, unpaid order at the quoted prices and
+   * reserve its stock. Only one caller can convert a draft; a concurrent
+   * caller gets the order the winner created.
+   */
+  async convertToOrder(draft: any): Promise<DraftOrderConversionResult> {
+    let customerId: string | null = draft.customer_id || null;
+    if (!customerId && (draft.customer_email || draft.customer_phone)) {
+      try {
+        const customer = await customerService.upsertCustomer({
+          userId: draft.user_id || null,
+          email: draft.customer_email,
+          fullName: draft.customer_name,
+          phone: draft.customer_phone,
+          createdBy: draft.created_by || null,
+          source: 'admin_manual_order',
+        });
+        customerId = customer?.id || null;
+      } catch (customerError) {
+        console.error(`Customer upsert failed while converting quote ${draft.quote_number}:`, customerError);
+      }
+    }
+
+    const orderInsertData: Record<string, any> = {
+      user_id: draft.user_id || null,
+      customer_id: customerId,
+      order_number: await documentNumberService.next('order'),
+      subtotal: Number(draft.subtotal) || 0,
+      discount: Number(draft.discount) || 0,
+      tax: Number(draft.tax) || 0,
+      tax_breakdown: draft.tax_breakdown || [],
+      shipping_fee: Number(draft.shipping_fee) || 0,
+      total: Number(draft.total) || 0,
+      payment_method: 'paystack',
+      shipping_address: {
+        ...(draft.delivery_address || {}),
+        full_name: draft.delivery_address?.full_name || draft.customer_name || null,
+        email: draft.delivery_address?.email || draft.customer_email || null,
+        phone: draft.delivery_address?.phone || draft.customer_phone || null,
+        ...(draft.delivery_option ? { delivery_option: draft.delivery_option } : {}),
+        quote_number: draft.quote_number,
+      },
+      notes: draft.notes || null,
+      discount_code: draft.discount_code || null,
+      status: 'pending',
+      payment_status: 'pending',
+    };
+
+    let { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .insert([orderInsertData])
+      .select()
+      .single();
+
+    for (let attempt = 1; isUniqueViolation(orderError) && attempt <= 5; attempt++) {
+      orderInsertData.order_number = await documentNumberService.next('order');
+      ({ data: order, error: orderError } = await supabaseAdmin
+        .from('orders')
+        .insert([orderInsertData])
+        .select()
+        .single());
+    }
+
+    if (orderError) throw orderError;
+
+    const lines: DraftOrderLine[] = draft.items || [];
+    const { error: itemsError } = await supabaseAdmin
+      .from('order_items')
+      .insert(
+        lines.map((line) => ({
+          order_id: order.id,
+          product_id: line.product_id,
+          product_name: line.product_name,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          subtotal: line.subtotal,
+          variant_options: line.selected_variants || {},
+          ...(line.deal_product_id && !line.product_id ? { deal_product_id: line.deal_product_id } : {}),
+        }))
+      );
+
+    if (itemsError) {
+      await supabaseAdmin.from('orders').delete().eq('id', order.id);
+      throw itemsError;
+    }
+
+    const reservation = await inventoryService.reserveOrderStock(
+      order.id,
+      lines
+        .filter((line) => !!line.product_id)
+        .map((line) => ({
+          product_id: line.product_id as string,
+          product_name: line.product_name,
+          quantity: line.quantity,
+          selected_variants: line.selected_variants || null,
+        })),
+      draft.created_by || null
+    );
+
+    if (!reservation.success) {
+      await supabaseAdmin.from('orders').delete().eq('id', order.id);
+      return { success: false, shortages: reservation.shortages };
+    }
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('draft_orders')
+      .update({
+        status: 'converted',
+        order_id: order.id,
+        customer_id: customerId,
+        converted_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', draft.id)
+      .eq('status', 'sent')
+      .select('id')
+      .maybeSingle();
+
+    if (claimError || !claimed) {
+      // Someone else converted (or cancelled) the draft first: undo ours
+      await inventoryService.releaseOrderStock(order.id, 'Duplicate quote conversion', null);
+      await supabaseAdmin.from('orders').delete().eq('id', order.id);
+      if (claimError) throw claimError;
+
+      const current = await this.getDraft(draft.id);
+      if (current?.order_id) {
+        const { data: existingOrder, error: existingError } = await supabaseAdmin
+          .from('orders')
+          .select('*')
+          .eq('id', current.order_id)
+          .single();
+        if (existingError) throw existingError;
+        return { success: true, order: existingOrder };
+      }
+      throw new Error('Quote is no longer open');
+    }
+
+    await orderStatusService.recordChange({
+      orderId: order.id,
+      fromStatus: null,
+      toStatus: 'pending',
+      changedBy: null,
+      note: `Order placed from quote ${draft.quote_number}`,
+    });
+
+    if (draft.discount_id) {
+      await commitDiscountUsage(draft.discount_id).catch((error: unknown) => {
+        console.error(`Failed to commit discount usage for quote ${draft.quote_number}:`, error);
+      });
+    }
+
+    if (customerId) {
+      await customerService.touchLastOrder(customerId).catch((touchError) => {
+        console.error('Failed to update customer last order timestamp:', touchError);
+      });
+    }
+
+    return { success: true, order };
+  },
+
+  /**
+   * Settle the order behind a paid quote (called from the Paystack webhook).
+   * Safe to call more than once for the same payment.
+   */
+  async recordPayment(paystackTransaction: any) {
+    const metadata = paystackTransaction.metadata || {};
+    const orderId = metadata.order_id;
+    const now = new Date().toISOString();
+    const paidAt = paystackTransaction.paid_at ? new Date(paystackTransaction.paid_at).toISOString() : now;
+
+    const { error: transactionError } = await supabaseAdmin
+      .from('transactions')
+      .update({
+        paystack_reference: paystackTransaction.reference,
+        status: 'success',
+        channel: paystackTransaction.channel || null,
+        authorization_code: paystackTransaction.authorization?.authorization_code || null,
+        customer_code: paystackTransaction.customer?.customer_code || null,
+        paid_at: paidAt,
+        updated_at: now,
+      })
+      .eq('transaction_reference', paystackTransaction.reference);
+
+    if (transactionError) {
+      console.error(`Failed to update transaction ${paystackTransaction.reference} for quote payment:`, transactionError);
+    }
+
+    // Paid, or partially paid if the charge fell short of the quote
+    await paymentVerificationService.settle(orderId, paystackTransaction);
+  },
+};
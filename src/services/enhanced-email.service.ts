@@ -12,6 +12,7 @@ interface EmailOptions {
     filename: string;
     content: Buffer;
     contentType: string;
+    contentId?: string; // Inline image, referenced as cid:<contentId> in the HTML
   }>;
 }
 
@@ -120,6 +121,7 @@ class EnhancedEmailService {
       const attachments = options.attachments?.map(att => ({
         filename: att.filename,
         content: att.content.toString('base64'),
+        ...(att.contentId ? { contentId: att.contentId } : {}),
       })) || [];
 
       // Use support email for customer-facing emails, noreply for automated notifications
@@ -221,6 +223,7 @@ class EnhancedEmailService {
         discount: discountAmount,
         discountCode: orderData.discount_code || null,
         tax: taxAmount,
+        taxBreakdown: orderData.tax_breakdown || null,
         shipping: shippingFee,
         total,
       });
@@ -235,7 +238,10 @@ class EnhancedEmailService {
       // Generate tracking URL
       const frontendUrl = process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_API_URL || 'https://hogtechgh.com';
       const normalizedFrontendUrl = frontendUrl.replace(/\/$/, '');
-      const trackingUrl = `${normalizedFrontendUrl}/track-order?order=${encodeURIComponent(orderData.order_number || '')}`;
+      // Guests get their signed order link instead of the order-number lookup page
+      const trackingUrl =
+        orderData.order_access_url ||
+        `${normalizedFrontendUrl}/track-order?order=${encodeURIComponent(orderData.order_number || '')}`;
       const contactUrl = `${normalizedFrontendUrl}/contact`;
 
       // Replace placeholders with actual data
@@ -364,6 +370,7 @@ class EnhancedEmailService {
         'pending': 'Your order is being processed. We will update you soon.',
         'confirmed': 'Your order has been confirmed and is being prepared for shipment.',
         'processing': 'Your order is being processed and will be shipped soon.',
+        'partially_shipped': 'Part of your order has been shipped. The remaining items will follow in a separate shipment.',
         'shipped': 'Your order has been shipped! You can track it using the tracking number below.',
         'delivered': 'Your order has been delivered! We hope you enjoy your purchase.',
         'cancelled': 'Your order has been cancelled. If you have any questions, please contact us.',
@@ -373,7 +380,7 @@ class EnhancedEmailService {
       const trackingNumber = orderData.tracking_number || 'Not available yet';
       
       // Format status for display (capitalize first letter)
-      const statusDisplay = newStatus.charAt(0).toUpperCase() + newStatus.slice(1);
+      const statusDisplay = (newStatus.charAt(0).toUpperCase() + newStatus.slice(1)).replace(/_/g, ' ');
       
       // Generate public tracking URL (works for guest customers using order number)
       const frontendUrl = process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_API_URL || 'https://hogtechgh.com';
@@ -410,6 +417,7 @@ class EnhancedEmailService {
         discount: discountAmount,
         discountCode: orderData.discount_code || null,
         tax: taxAmount,
+        taxBreakdown: orderData.tax_breakdown || null,
         shipping: shippingFee,
         total,
       });
@@ -489,6 +497,10 @@ class EnhancedEmailService {
       old_shipping_fee?: number;
       new_shipping_fee?: number;
       notes?: string | null;
+      items_changed?: boolean;
+      item_changes?: string[];
+      old_total?: number;
+      new_total?: number;
     }
   ): Promise<{ success: boolean; skipped?: boolean; reason?: string }> {
     try {
@@ -544,6 +556,14 @@ class EnhancedEmailService {
         }
       }
 
+      if (updateInfo.items_changed && updateInfo.item_changes && updateInfo.item_changes.length > 0) {
+        updateDetails.push(`Items in your order were changed:\n${updateInfo.item_changes.join('\n')}`);
+      }
+
+      if (updateInfo.items_changed && updateInfo.old_total !== undefined && updateInfo.new_total !== undefined && updateInfo.old_total !== updateInfo.new_total) {
+        updateDetails.push(`Order total changed from GHS ${updateInfo.old_total.toFixed(2)} to GHS ${updateInfo.new_total.toFixed(2)}`);
+      }
+
       if (updateInfo.notes_added && updateInfo.notes) {
         updateDetails.push(`Admin note: ${updateInfo.notes}`);
       }
@@ -561,6 +581,15 @@ class EnhancedEmailService {
         .replace(/{{ORDER_DATE}}/g, new Date(orderData.created_at || new Date()).toLocaleDateString())
         .replace(/{{TOTAL_AMOUNT}}/g, `GHS ${orderData.total?.toFixed(2) || '0.00'}`)
         .replace(/{{ORDER_ITEMS}}/g, this.formatOrderItemsForEmail(orderData.items || orderData.order_items || []))
+        .replace(/{{PRICE_BREAKDOWN}}/g, this.generatePriceBreakdownHtml({
+          subtotal: orderData.subtotal || 0,
+          discount: orderData.discount || 0,
+          discountCode: orderData.discount_code || null,
+          tax: orderData.tax || 0,
+          taxBreakdown: orderData.tax_breakdown || null,
+          shipping: orderData.shipping_fee || 0,
+          total: orderData.total || 0,
+        }))
         .replace(/{{TRACKING_URL}}/g, trackingUrl)
         .replace(/{{CONTACT_URL}}/g, contactUrl)
         .replace(/{{LOGO_URL}}/g, 'https://files.hogtechgh.com/IMG_0718.PNG');
@@ -587,6 +616,392 @@ class EnhancedEmailService {
     }
   }
 
+  // Send a draft-order quote with its PDF and payment link
+  async sendQuote(
+    quote: any,
+    pdfBuffer: Buffer,
+    paymentUrl: string
+  ): Promise<{ success: boolean; skipped?: boolean; reason?: string }> {
+    try {
+      console.log('📧 sendQuote called:', {
+        quote_number: quote.quote_number,
+        customer_email: quote.customer_email,
+      });
+
+      if (!quote.customer_email) {
+        console.error('❌ No customer email provided for quote:', quote.quote_number);
+        return { success: false, reason: 'No customer email provided' };
+      }
+
+      const templatePath = resolveTemplatePath('order-quote.html');
+      let template = fs.readFileSync(templatePath, 'utf8');
+
+      const expiresAt = quote.expires_at ? new Date(quote.expires_at).toLocaleDateString() : 'further notice';
+      const items = await this.enrichOrderItemsWithImages(quote.items || []);
+
+      template = template
+        .replace(/{{QUOTE_NUMBER}}/g, quote.quote_number || '')
+        .replace(/{{CUSTOMER_NAME}}/g, quote.customer_name || 'Customer')
+        .replace(/{{TOTAL_AMOUNT}}/g, `GHS ${Number(quote.total || 0).toFixed(2)}`)
+        .replace(/{{EXPIRES_AT}}/g, expiresAt)
+        .replace(/{{ORDER_ITEMS}}/g, this.formatOrderItemsForEmail(items))
+        .replace(/{{PRICE_BREAKDOWN}}/g, this.generatePriceBreakdownHtml({
+          subtotal: Number(quote.subtotal) || 0,
+          discount: Number(quote.discount) || 0,
+          discountCode: quote.discount_code || null,
+          tax: Number(quote.tax) || 0,
+          taxBreakdown: quote.tax_breakdown || null,
+          shipping: Number(quote.shipping_fee) || 0,
+          total: Number(quote.total) || 0,
+        }))
+        .replace(/{{PAYMENT_URL}}/g, paymentUrl);
+
+      const success = await this.sendEmail(
+        {
+          to: quote.customer_email,
+          subject: `Your Quote ${quote.quote_number} - Hogtech`,
+          html: template,
+          attachments: [
+            {
+              filename: `quote-${quote.quote_number}.pdf`,
+              content: pdfBuffer,
+              contentType: 'application/pdf',
+            },
+          ],
+        },
+        true // use support email
+      );
+
+      return { success };
+    } catch (error) {
+      console.error('Error sending quote:', error);
+      return { success: false, reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Send shipment email (one parcel of an order shipped or delivered)
+  async sendShipmentUpdate(
+    orderData: any,
+    shipment: {
+      id: string;
+      status: string;
+      carrier?: string | null;
+      tracking_number?: string | null;
+      tracking_url?: string | null;
+      items: any[];
+    },
+    remainingItemsCount: number = 0
+  ): Promise<{ success: boolean; skipped?: boolean; reason?: string }> {
+    try {
+      console.log('📧 sendShipmentUpdate called:', {
+        order_number: orderData.order_number,
+        customer_email: orderData.customer_email,
+        shipment_id: shipment.id,
+        shipment_status: shipment.status,
+      });
+
+      if (orderData.user_id) {
+        try {
+          const shouldSend = await this.shouldSendEmail(orderData.user_id, 'transactional');
+          if (!shouldSend) {
+            console.log(`⚠️ Skipping shipment email for user ${orderData.user_id} - email notifications disabled`);
+            return { success: true, skipped: true, reason: 'User has disabled email notifications' };
+          }
+        } catch (prefError: any) {
+          console.error('❌ Error checking user preferences (sending email anyway):', prefError?.message || prefError);
+        }
+      }
+
+      if (!orderData.customer_email) {
+        console.error('❌ No customer email provided for shipment update:', orderData.order_number);
+        return { success: false, reason: 'No customer email provided' };
+      }
+
+      const templatePath = resolveTemplatePath('order-status-update.html');
+      let template = fs.readFileSync(templatePath, 'utf8');
+
+      const frontendUrl = process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_API_URL || 'https://hogtechgh.com';
+      const normalizedFrontendUrl = frontendUrl.replace(/\/$/, '');
+      const trackingUrl = shipment.tracking_url ||
+        `${normalizedFrontendUrl}/track-order?order=${encodeURIComponent(orderData.order_number || '')}`;
+
+      const customerName =
+        orderData.customer_name ||
+        orderData.shipping_address?.full_name ||
+        orderData.delivery_address?.full_name ||
+        'Customer';
+
+      const delivered = shipment.status === 'delivered';
+      const carrierText = shipment.carrier ? ` with ${shipment.carrier}` : '';
+      let statusMessage = delivered
+        ? 'A shipment from your order has been delivered. The items in this parcel are listed below.'
+        : `A shipment from your order is on its way${carrierText}. The items in this parcel are listed below.`;
+
+      if (remainingItemsCount > 0) {
+        statusMessage += ` ${remainingItemsCount} item(s) from your order will follow in a later shipment.`;
+      }
+
+      const shipmentItems = await this.enrichOrderItemsWithImages(shipment.items || []);
+
+      template = template
+        .replace(/{{ORDER_NUMBER}}/g, orderData.order_number || '')
+        .replace(/{{CUSTOMER_NAME}}/g, customerName)
+        .replace(/{{NEW_STATUS}}/g, delivered ? 'Shipment delivered' : 'Shipment on its way')
+        .replace(/{{STATUS_MESSAGE}}/g, statusMessage)
+        .replace(/{{TRACKING_NUMBER}}/g, shipment.tracking_number || 'Not available yet')
+        .replace(/{{ORDER_ITEMS}}/g, this.formatOrderItemsForEmail(shipmentItems))
+        .replace(/{{PRICE_BREAKDOWN}}/g, '')
+        .replace(/{{TRACKING_URL}}/g, trackingUrl);
+
+      const success = await this.sendEmail(
+        {
+          to: orderData.customer_email,
+          subject: delivered
+            ? `Shipment Delivered - ${orderData.order_number}`
+            : `Your Shipment Is On Its Way - ${orderData.order_number}`,
+          html: template,
+        },
+        true // use support email
+      );
+
+      return { success };
+    } catch (error) {
+      console.error('Error sending shipment update:', error);
+      return { success: false, reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Pickup code and QR for an order ready at the store; also used for collection reminders
+  async sendPickupReady(
+    orderData: any,
+    pickup: { code: string; expiresAt: string; qrCode: Buffer },
+    reminder: boolean = false
+  ): Promise<{ success: boolean; skipped?: boolean; reason?: string }> {
+    try {
+      console.log('📧 sendPickupReady called:', {
+        order_number: orderData.order_number,
+        customer_email: orderData.customer_email,
+        reminder,
+      });
+
+      if (orderData.user_id) {
+        try {
+          const shouldSend = await this.shouldSendEmail(orderData.user_id, 'transactional');
+          if (!shouldSend) {
+            console.log(`⚠️ Skipping pickup email for user ${orderData.user_id} - email notifications disabled`);
+            return { success: true, skipped: true, reason: 'User has disabled email notifications' };
+          }
+        } catch (prefError: any) {
+          console.error('❌ Error checking user preferences (sending email anyway):', prefError?.message || prefError);
+        }
+      }
+
+      if (!orderData.customer_email) {
+        console.error('❌ No customer email provided for pickup email:', orderData.order_number);
+        return { success: false, reason: 'No customer email provided' };
+      }
+
+      const templatePath = resolveTemplatePath('order-pickup-ready.html');
+      let template = fs.readFileSync(templatePath, 'utf8');
+
+      const frontendUrl = process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_API_URL || 'https://hogtechgh.com';
+      const normalizedFrontendUrl = frontendUrl.replace(/\/$/, '');
+      const trackingUrl = `${normalizedFrontendUrl}/track-order?order=${encodeURIComponent(orderData.order_number || '')}`;
+
+      const customerName =
+        orderData.customer_name ||
+        orderData.shipping_address?.full_name ||
+        orderData.delivery_address?.full_name ||
+        'Customer';
+
+      const deliveryOption = orderData.shipping_address?.delivery_option || {};
+      const pickupLocation = deliveryOption.description || deliveryOption.name || 'Hogtech store';
+      const deadline = new Date(pickup.expiresAt).toLocaleDateString();
+      const amountDue = orderData.payment_status === 'paid' ? 'Nothing, already paid' : `GHS ${Number(orderData.total || 0).toFixed(2)}`;
+
+      const pickupMessage = reminder
+        ? `Your order <strong>${orderData.order_number}</strong> is still waiting for you. Please collect it by ${deadline}.`
+        : `Good news! Your order <strong>${orderData.order_number}</strong> is packed and ready for pickup.`;
+
+      const orderItems = await this.enrichOrderItemsWithImages(orderData.items || orderData.order_items || []);
+
+      template = template
+        .replace(/{{HEADLINE}}/g, reminder ? 'Your Order Is Waiting for You' : 'Your Order Is Ready for Pickup')
+        .replace(/{{CUSTOMER_NAME}}/g, customerName)
+        .replace(/{{ORDER_NUMBER}}/g, orderData.order_number || '')
+        .replace(/{{PICKUP_MESSAGE}}/g, pickupMessage)
+        .replace(/{{PICKUP_CODE}}/g, pickup.code)
+        .replace(/{{PICKUP_LOCATION}}/g, pickupLocation)
+        .replace(/{{PICKUP_DEADLINE}}/g, deadline)
+        .replace(/{{AMOUNT_DUE}}/g, amountDue)
+        .replace(/{{ORDER_ITEMS}}/g, this.formatOrderItemsForEmail(orderItems))
+        .replace(/{{TRACKING_URL}}/g, trackingUrl);
+
+      const success = await this.sendEmail(
+        {
+          to: orderData.customer_email,
+          subject: reminder
+            ? `Reminder: Your Order Is Waiting for Pickup - ${orderData.order_number}`
+            : `Ready for Pickup - ${orderData.order_number}`,
+          html: template,
+          attachments: [
+            {
+              filename: `pickup-${orderData.order_number}.png`,
+              content: pickup.qrCode,
+              contentType: 'image/png',
+              contentId: 'pickup-qr',
+            },
+          ],
+        },
+        true // use support email
+      );
+
+      return { success };
+    } catch (error) {
+      console.error('Error sending pickup email:', error);
+      return { success: false, reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Unpaid order expired: offer a fresh payment link that places the order again
+  async sendPaymentExpired(
+    orderData: any,
+    paymentUrl: string
+  ): Promise<{ success: boolean; skipped?: boolean; reason?: string }> {
+    try {
+      console.log('📧 sendPaymentExpired called:', {
+        order_number: orderData.order_number,
+        customer_email: orderData.customer_email,
+      });
+
+      if (orderData.user_id) {
+        try {
+          const shouldSend = await this.shouldSendEmail(orderData.user_id, 'transactional');
+          if (!shouldSend) {
+            console.log(`⚠️ Skipping payment expired email for user ${orderData.user_id} - email notifications disabled`);
+            return { success: true, skipped: true, reason: 'User has disabled email notifications' };
+          }
+        } catch (prefError: any) {
+          console.error('❌ Error checking user preferences (sending email anyway):', prefError?.message || prefError);
+        }
+      }
+
+      if (!orderData.customer_email) {
+        console.error('❌ No customer email provided for payment expired email:', orderData.order_number);
+        return { success: false, reason: 'No customer email provided' };
+      }
+
+      const templatePath = resolveTemplatePath('order-payment-expired.html');
+      let template = fs.readFileSync(templatePath, 'utf8');
+
+      const customerName =
+        orderData.customer_name ||
+        orderData.shipping_address?.full_name ||
+        orderData.delivery_address?.full_name ||
+        'Customer';
+
+      const orderItems = await this.enrichOrderItemsWithImages(orderData.items || orderData.order_items || []);
+
+      template = template
+        .replace(/{{CUSTOMER_NAME}}/g, customerName)
+        .replace(/{{ORDER_NUMBER}}/g, orderData.order_number || '')
+        .replace(/{{TOTAL_AMOUNT}}/g, `GHS ${Number(orderData.total || 0).toFixed(2)}`)
+        .replace(
+          /{{EXPIRY_MESSAGE}}/g,
+          'The order was cancelled because payment was not completed in time, and the items were released. You can still complete your purchase below.'
+        )
+        .replace(/{{ORDER_ITEMS}}/g, this.formatOrderItemsForEmail(orderItems))
+        .replace(/{{PAYMENT_URL}}/g, paymentUrl);
+
+      const success = await this.sendEmail(
+        {
+          to: orderData.customer_email,
+          subject: `Complete Your Payment - ${orderData.order_number}`,
+          html: template,
+        },
+        true // use support email
+      );
+
+      return { success };
+    } catch (error) {
+      console.error('Error sending payment expired email:', error);
+      return { success: false, reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Full or partial refund processed by the payment provider
+  async sendRefundProcessed(
+    orderData: any,
+    refund: { amount: number; reason?: string | null; fullyRefunded: boolean }
+  ): Promise<{ success: boolean; skipped?: boolean; reason?: string }> {
+    try {
+      console.log('📧 sendRefundProcessed called:', {
+        order_number: orderData.order_number,
+        customer_email: orderData.customer_email,
+        amount: refund.amount,
+      });
+
+      if (orderData.user_id) {
+        try {
+          const shouldSend = await this.shouldSendEmail(orderData.user_id, 'transactional');
+          if (!shouldSend) {
+            console.log(`⚠️ Skipping refund email for user ${orderData.user_id} - email notifications disabled`);
+            return { success: true, skipped: true, reason: 'User has disabled email notifications' };
+          }
+        } catch (prefError: any) {
+          console.error('❌ Error checking user preferences (sending email anyway):', prefError?.message || prefError);
+        }
+      }
+
+      if (!orderData.customer_email) {
+        console.error('❌ No customer email provided for refund email:', orderData.order_number);
+        return { success: false, reason: 'No customer email provided' };
+      }
+
+      const templatePath = resolveTemplatePath('order-refund.html');
+      let template = fs.readFileSync(templatePath, 'utf8');
+
+      const frontendUrl = process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_API_URL || 'https://hogtechgh.com';
+      const normalizedFrontendUrl = frontendUrl.replace(/\/$/, '');
+      const trackingUrl = `${normalizedFrontendUrl}/track-order?order=${encodeURIComponent(orderData.order_number || '')}`;
+
+      const customerName =
+        orderData.customer_name ||
+        orderData.shipping_address?.full_name ||
+        orderData.delivery_address?.full_name ||
+        'Customer';
+      const refundAmount = `GHS ${refund.amount.toFixed(2)}`;
+
+      template = template
+        .replace(/{{HEADLINE}}/g, refund.fullyRefunded ? 'Your Refund Has Been Processed' : 'Part of Your Payment Has Been Refunded')
+        .replace(/{{CUSTOMER_NAME}}/g, customerName)
+        .replace(/{{REFUND_STATUS}}/g, refund.fullyRefunded ? 'Refunded' : 'Partially refunded')
+        .replace(
+          /{{REFUND_MESSAGE}}/g,
+          `We have refunded <strong>${refundAmount}</strong> for your order <strong>${orderData.order_number}</strong>.`
+        )
+        .replace(/{{ORDER_NUMBER}}/g, orderData.order_number || '')
+        .replace(/{{REFUND_AMOUNT}}/g, refundAmount)
+        .replace(/{{TOTAL_AMOUNT}}/g, `GHS ${Number(orderData.total || 0).toFixed(2)}`)
+        .replace(/{{REFUND_REASON}}/g, refund.reason || 'Not specified')
+        .replace(/{{TRACKING_URL}}/g, trackingUrl);
+
+      const success = await this.sendEmail(
+        {
+          to: orderData.customer_email,
+          subject: `Refund Processed - ${orderData.order_number}`,
+          html: template,
+        },
+        true // use support email
+      );
+
+      return { success };
+    } catch (error) {
+      console.error('Error sending refund email:', error);
+      return { success: false, reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   async sendOrderCancellation(orderData: any): Promise<{ success: boolean; skipped?: boolean; reason?: string }> {
     try {
       console.log('📧 sendOrderCancellation called:', {
@@ -960,6 +1375,7 @@ class EnhancedEmailService {
     discount,
     discountCode,
     tax,
+    taxBreakdown,
     shipping,
     total,
   }: {
@@ -967,6 +1383,7 @@ class EnhancedEmailService {
     discount: number;
     discountCode: string | null;
     tax: number;
+    taxBreakdown?: Array<{ name: string; rate: number; type: string; amount: number }> | null;
     shipping: number;
     total: number;
   }): string {
@@ -989,7 +1406,18 @@ class EnhancedEmailService {
       `;
     }
 
-    if (tax > 0) {
+    if (Array.isArray(taxBreakdown) && taxBreakdown.length > 0) {
+      // One row per tax line (e.g. NHIL, GETFund, VAT)
+      taxBreakdown.forEach((line) => {
+        const rateLabel = line.type === 'percentage' ? ` (${Number((Number(line.rate) * 100).toFixed(2))}%)` : '';
+        html += `
+        <tr>
+          <td style="padding: 8px 0; text-align: right; color: #3A3A3A; font-size: 14px;"><strong>${line.name}${rateLabel}:</strong></td>
+          <td style="padding: 8px 0; text-align: right; color: #1A1A1A; font-size: 14px; font-weight: 500;">GHS ${Number(line.amount).toFixed(2)}</td>
+        </tr>
+      `;
+      });
+    } else if (tax > 0) {
       html += `
         <tr>
           <td style="padding: 8px 0; text-align: right; color: #3A3A3A; font-size: 14px;"><strong>Tax:</strong></td>
@@ -1149,6 +1577,7 @@ class EnhancedEmailService {
         discount: discountAmount,
         discountCode,
         tax: taxAmount,
+        taxBreakdown: orderData.tax_breakdown || null,
         shipping: shippingFee,
         total,
       });
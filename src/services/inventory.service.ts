@@ -0,0 +1,317 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+
+export interface StockLine {
+  product_id: string;
+  quantity: number;
+  product_name?: string | null;
+  selected_variants?: Record<string, any> | null;
+}
+
+export interface StockShortage {
+  product_id: string;
+  product_name?: string | null;
+  variant_stock_id?: string | null;
+  selected_variants?: Record<string, any> | null;
+  requested: number;
+  available: number;
+}
+
+export interface StockReservationResult {
+  success: boolean;
+  shortages: StockShortage[];
+}
+
+export interface VariantStockRow {
+  id: string;
+  product_id: string;
+  variant_combination: Record<string, any>;
+  stock_quantity: number;
+  sku?: string | null;
+  is_available?: boolean | null;
+  // 'option' rows are product_attribute_option_mappings, stocked per single option
+  source?: 'variant' | 'option';
+}
+
+type OptionStockRow = VariantStockRow & { aliases: string[] };
+
+const variantValue = (value: any): string => {
+  if (value && typeof value === 'object') {
+    return String(value.value ?? value.label ?? value.name ?? '');
+  }
+  return String(value ?? '');
+};
+
+/**
+ * Canonical form of a variant selection so `{ Color: "Black" }`,
+ * `{ color: "black" }` and `{ color: { value: "Black" } }` compare equal.
+ */
+export const normalizeVariantCombination = (combination?: Record<string, any> | null): string => {
+  if (!combination || typeof combination !== 'object') return '';
+  return Object.entries(combination)
+    .map(([key, value]) => [key.trim().toLowerCase(), variantValue(value).trim().toLowerCase()] as const)
+    .filter(([, value]) => value.length > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('|');
+};
+
+export const inventoryService = {
+  async getVariantStock(productIds: string[]): Promise<VariantStockRow[]> {
+    if (productIds.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+      .from('product_variant_stock')
+      .select('id, product_id, variant_combination, stock_quantity, sku, is_available')
+      .in('product_id', productIds);
+
+    if (error) throw error;
+    return (data || []) as VariantStockRow[];
+  },
+
+  /**
+   * Per-option stock from product_attribute_option_mappings, shaped like
+   * variant stock rows with a one-attribute combination. An attribute only
+   * counts as stocked per option once one of its options carries stock, so
+   * products that never used option stock keep product-level tracking.
+   */
+  async getOptionStock(productIds: string[]): Promise<OptionStockRow[]> {
+    if (productIds.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+      .from('product_attribute_option_mappings')
+      .select('id, product_id, attribute_id, stock_quantity, is_available, attribute:product_attributes(name, slug), option:product_attribute_options(value, label)')
+      .in('product_id', productIds);
+
+    if (error) throw error;
+
+    const mappings = (data || []) as any[];
+    const stockedAttributes = new Set(
+      mappings
+        .filter((mapping) => (Number(mapping.stock_quantity) || 0) > 0)
+        .map((mapping) => `${mapping.product_id}:${mapping.attribute_id}`)
+    );
+
+    return mappings
+      .filter((mapping) => stockedAttributes.has(`${mapping.product_id}:${mapping.attribute_id}`))
+      .map((mapping) => ({
+        id: mapping.id,
+        product_id: mapping.product_id,
+        variant_combination: { [mapping.attribute?.name || '']: mapping.option?.value || '' },
+        // Selections may name the attribute by slug and the option by label
+        aliases: [mapping.attribute?.name, mapping.attribute?.slug].flatMap((key) =>
+          [mapping.option?.value, mapping.option?.label].map((value) => normalizeVariantCombination({ [key || '']: value || '' }))
+        ),
+        stock_quantity: Number(mapping.stock_quantity) || 0,
+        is_available: mapping.is_available,
+        source: 'option' as const,
+      }));
+  },
+
+  /**
+   * Find the stock row for each line: a product_variant_stock row, or for
+   * products stocked per single option, the option mapping. Products with
+   * neither are tracked at product level. A stocked product whose line has
+   * no matching selection (including none at all) resolves to `null` and is
+   * reported as unavailable.
+   */
+  async resolveVariantStock(lines: StockLine[]) {
+    const productIds = Array.from(new Set(lines.map((line) => line.product_id)));
+    const [rows, optionRows] = await Promise.all([this.getVariantStock(productIds), this.getOptionStock(productIds)]);
+
+    return lines.map((line) => {
+      const selection = normalizeVariantCombination(line.selected_variants);
+      const productRows = rows.filter((row) => row.product_id === line.product_id);
+
+      if (productRows.length > 0) {
+        const match = productRows.find((row) => normalizeVariantCombination(row.variant_combination) === selection) || null;
+        return { line, tracked: true, variantStock: selection ? match : null };
+      }
+
+      const productOptions = optionRows.filter((row) => row.product_id === line.product_id);
+      if (productOptions.length > 0) {
+        // Only the stocked attribute is compared; other choices (e.g. engraving) do not affect stock
+        const match = selection
+          ? productOptions.find((row) => selection.split('|').some((part) => row.aliases.includes(part)))
+          : null;
+        if (!match) return { line, tracked: true, variantStock: null };
+
+        const { aliases: _aliases, ...variantStock } = match;
+        return { line, tracked: true, variantStock: variantStock as VariantStockRow | null };
+      }
+
+      return { line, tracked: false, variantStock: null as VariantStockRow | null };
+    });
+  },
+
+  /**
+   * Atomically reserve stock for every line of an order. Either all lines are
+   * decremented or none are, in which case the shortages are returned.
+   */
+  async reserveOrderStock(orderId: string, lines: StockLine[], createdBy?: string | null): Promise<StockReservationResult> {
+    const validLines = lines.filter((line) => line.product_id && line.quantity > 0);
+
+    if (validLines.length === 0) {
+      return { success: true, shortages: [] };
+    }
+
+    const resolved = await this.resolveVariantStock(validLines);
+
+    const unmatched: StockShortage[] = resolved
+      .filter((entry) => entry.tracked && !entry.variantStock)
+      .map(({ line }) => ({
+        product_id: line.product_id,
+        product_name: line.product_name || null,
+        variant_stock_id: null,
+        selected_variants: line.selected_variants || null,
+        requested: line.quantity,
+        available: 0,
+      }));
+
+    if (unmatched.length > 0) {
+      return { success: false, shortages: unmatched };
+    }
+
+    const items = resolved.map(({ line, variantStock }) => ({
+      product_id: line.product_id,
+      quantity: line.quantity,
+      variant_stock_id: variantStock && variantStock.source !== 'option' ? variantStock.id : null,
+      option_mapping_id: variantStock?.source === 'option' ? variantStock.id : null,
+    }));
+
+    const { data, error } = await supabaseAdmin.rpc('reserve_order_stock', {
+      p_order_id: orderId,
+      p_items: items,
+      p_created_by: createdBy || null,
+    });
+
+    if (error) throw error;
+
+    const shortages: StockShortage[] = (data?.shortages || []).map((shortage: any) => {
+      const source = resolved.find(
+        ({ line, variantStock }) =>
+          line.product_id === shortage.product_id &&
+          (variantStock?.id || null) === (shortage.variant_stock_id || shortage.option_mapping_id || null)
+      );
+      return {
+        ...shortage,
+        product_name: source?.line.product_name || null,
+        selected_variants: source?.line.selected_variants || null,
+      };
+    });
+
+    return { success: !!data?.success, shortages };
+  },
+
+  /**
+   * Reserve the lines that are in stock and return the rest as shortages
+   * (backordered), for orders that must be kept whatever the stock, i.e.
+   * ones already paid for. Short lines are left out whole, so they carry no
+   * reservation movement.
+   */
+  async reserveAvailableStock(orderId: string, lines: StockLine[], createdBy?: string | null): Promise<StockReservationResult> {
+    const lineKey = (line: { product_id: string; selected_variants?: Record<string, any> | null }) =>
+      `${line.product_id}:${normalizeVariantCombination(line.selected_variants)}`;
+
+    let remaining = lines;
+    const backordered: StockShortage[] = [];
+
+    // Each failed attempt leaves out at least one line, so this ends
+    while (remaining.length > 0) {
+      const result = await this.reserveOrderStock(orderId, remaining, createdBy);
+      if (result.success) break;
+
+      backordered.push(...result.shortages);
+      const short = new Set(result.shortages.map(lineKey));
+      const next = remaining.filter((line) => !short.has(lineKey(line)));
+      if (next.length === remaining.length) break;
+      remaining = next;
+    }
+
+    return { success: backordered.length === 0, shortages: backordered };
+  },
+
+  /**
+   * Give back whatever is still reserved for an order. Idempotent: calling it
+   * twice for the same order restores stock only once.
+   */
+  async releaseOrderStock(orderId: string, reason?: string | null, createdBy?: string | null) {
+    const { data, error } = await supabaseAdmin.rpc('release_order_stock', {
+      p_order_id: orderId,
+      p_reason: reason || null,
+      p_created_by: createdBy || null,
+    });
+
+    if (error) throw error;
+    return (data?.released || []) as Array<{ product_id: string; variant_stock_id: string | null; quantity: number }>;
+  },
+
+  /**
+   * Set stock for variant combinations of a product, log the difference as an
+   * adjustment movement and recompute the product total from its variants.
+   */
+  async setVariantStock(
+    productId: string,
+    entries: Array<{ variant_combination: Record<string, any>; stock_quantity: number; sku?: string | null; is_available?: boolean }>,
+    createdBy?: string | null
+  ) {
+    const existing = await this.getVariantStock([productId]);
+    const saved: VariantStockRow[] = [];
+
+    for (const entry of entries) {
+      const key = normalizeVariantCombination(entry.variant_combination);
+      const current = existing.find((row) => normalizeVariantCombination(row.variant_combination) === key);
+
+      const payload: Record<string, any> = {
+        product_id: productId,
+        variant_combination: current?.variant_combination || entry.variant_combination,
+        stock_quantity: entry.stock_quantity,
+        updated_at: new Date().toISOString(),
+      };
+      if (entry.sku !== undefined) payload.sku = entry.sku;
+      if (entry.is_available !== undefined) payload.is_available = entry.is_available;
+
+      const query = current
+        ? supabaseAdmin.from('product_variant_stock').update(payload).eq('id', current.id)
+        : supabaseAdmin.from('product_variant_stock').insert(payload);
+
+      const { data, error } = await query.select('id, product_id, variant_combination, stock_quantity, sku, is_available').single();
+      if (error) throw error;
+      saved.push(data as VariantStockRow);
+
+      const delta = entry.stock_quantity - (current?.stock_quantity || 0);
+      if (delta !== 0) {
+        const { error: movementError } = await supabaseAdmin
+          .from('inventory_movements')
+          .insert({
+            product_id: productId,
+            variant_stock_id: data.id,
+            variant_combination: data.variant_combination,
+            movement_type: 'adjustment',
+            quantity: delta,
+            stock_before: current?.stock_quantity || 0,
+            stock_after: entry.stock_quantity,
+            reason: 'Variant stock updated by admin',
+            created_by: createdBy || null,
+          });
+
+        if (movementError) {
+          console.error('Failed to record variant stock adjustment:', movementError);
+        }
+      }
+    }
+
+    // Keep the product total in line with its variants
+    const allRows = await this.getVariantStock([productId]);
+    const total = allRows.reduce((sum, row) => sum + (row.stock_quantity || 0), 0);
+    const { error: productError } = await supabaseAdmin
+      .from('products')
+      .update({ stock_quantity: total, in_stock: total > 0, updated_at: new Date().toISOString() })
+      .eq('id', productId);
+
+    if (productError) {
+      console.error(`Failed to sync product stock for ${productId}:`, productError);
+    }
+
+    return saved;
+  },
+};
@@ -0,0 +1,209 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { paymentProviderService } from './paymentProvider.service';
+import type { MobileMoneyProvider, ProviderCharge } from './paymentProvider.service';
+
+// Charges in these states will not change any more
+const FINAL_CHARGE_STATUSES = ['success', 'failed'];
+
+const TRANSACTION_SELECT =
+  'id, transaction_reference, payment_provider, status, payment_status, charge_status, charge_message, mobile_money_provider';
+
+// Ghana numbers as the networks expect them: 0XXXXXXXXX
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  const local = digits.startsWith('233') ? `0${digits.slice(3)}` : digits;
+  return /^0\d{9}$/.test(local) ? local : null;
+};
+
+const toProgress = (transaction: any) => ({
+  reference: transaction.transaction_reference,
+  status: transaction.charge_status,
+  display_text: transaction.charge_message || null,
+  payment_status: transaction.payment_status,
+});
+
+type MobileMoneyResult =
+  | { success: true; data: ReturnType<typeof toProgress> }
+  | { success: false; status: number; message: string; data?: any };
+
+const getTransaction = async (reference: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('transactions')
+    .select(TRANSACTION_SELECT)
+    .eq('transaction_reference', reference)
+    .eq('payment_method', 'mobile_money')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Store the provider's answer on the transaction. A failed charge fails the
+ * transaction; a successful one is only marked paid once the payment is
+ * verified (webhook or /verify), which also checks the amount.
+ */
+const recordProgress = async (transactionId: string, charge: ProviderCharge) => {
+  const failed = charge.status === 'failed';
+  const { data, error } = await supabaseAdmin
+    .from('transactions')
+    .update({
+      charge_status: charge.status,
+      charge_message: charge.display_text || null,
+      ...(failed ? { status: 'failed', payment_status: 'failed' } : {}),
+      ...(charge.status === 'success' ? { status: 'success' } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', transactionId)
+    .eq('payment_status', 'pending')
+    .select(TRANSACTION_SELECT)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data;
+
+  // Settled by the webhook in the meantime; report what is stored
+  const { data: current, error: currentError } = await supabaseAdmin
+    .from('transactions')
+    .select(TRANSACTION_SELECT)
+    .eq('id', transactionId)
+    .single();
+
+  if (currentError) throw currentError;
+  return current;
+};
+
+export const mobileMoneyService = {
+  /**
+   * Start a direct mobile money charge. The transaction is recorded before
+   * the provider is called, so the webhook finds it whatever the order of events.
+   */
+  async startCharge(input: {
+    email: string;
+    amount: number; // pesewas
+    reference: string;
+    phone: string;
+    provider: MobileMoneyProvider;
+    metadata?: Record<string, any>;
+    userId?: string | null; // The signed-in caller; a user_id in metadata is not trusted
+  }): Promise<MobileMoneyResult> {
+    const phone = normalizePhone(input.phone);
+    if (!phone) {
+      return { success: false, status: 400, message: 'Enter a valid Ghana mobile money number' };
+    }
+
+    const provider = await paymentProviderService.forMethod('mobile_money');
+    if (!provider.isConfigured()) {
+      return { success: false, status: 500, message: `Payment provider ${provider.name} is not configured` };
+    }
+    if (!provider.chargeMobileMoney) {
+      return { success: false, status: 400, message: `Payment provider ${provider.name} does not support direct mobile money charges` };
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('transactions')
+      .select('id')
+      .or(`transaction_reference.eq.${input.reference},paystack_reference.eq.${input.reference}`)
+      .limit(1)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) {
+      return { success: false, status: 409, message: 'A payment with this reference already exists' };
+    }
+
+    const metadata: Record<string, any> = {
+      ...(input.metadata || {}),
+      user_id: input.userId || 'guest',
+      payment_method: 'mobile_money',
+    };
+    const { data: transaction, error: insertError } = await supabaseAdmin
+      .from('transactions')
+      .insert({
+        user_id: input.userId || null,
+        transaction_reference: input.reference,
+        paystack_reference: input.reference,
+        payment_method: 'mobile_money',
+        payment_provider: provider.name,
+        amount: input.amount / 100,
+        currency: 'GHS',
+        status: 'pending',
+        payment_status: 'pending',
+        customer_email: input.email,
+        channel: 'mobile_money',
+        metadata,
+        charge_status: 'initiated',
+        mobile_money_provider: input.provider,
+        mobile_money_phone: phone,
+        initiated_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (insertError) throw insertError;
+
+    let charge: ProviderCharge;
+    try {
+      charge = await provider.chargeMobileMoney({
+        email: input.email,
+        amount: input.amount,
+        reference: input.reference,
+        phone,
+        provider: input.provider,
+        metadata,
+      });
+    } catch (error: any) {
+      await recordProgress(transaction.id, {
+        reference: input.reference,
+        status: 'failed',
+        display_text: error.response?.data?.message || 'Could not start the mobile money charge',
+      });
+      throw error;
+    }
+
+    return { success: true, data: toProgress(await recordProgress(transaction.id, charge)) };
+  },
+
+  // Pass on the code the customer's network sent them (Vodafone Cash)
+  async submitOtp(reference: string, otp: string): Promise<MobileMoneyResult> {
+    const transaction = await getTransaction(reference);
+    if (!transaction) {
+      return { success: false, status: 404, message: 'Mobile money charge not found' };
+    }
+    if (transaction.charge_status !== 'send_otp') {
+      return {
+        success: false,
+        status: 409,
+        message: 'This charge is not waiting for an OTP',
+        data: toProgress(transaction),
+      };
+    }
+
+    const provider = paymentProviderService.get(transaction.payment_provider);
+    if (!provider?.submitChargeOtp) {
+      return { success: false, status: 400, message: 'This charge cannot take an OTP' };
+    }
+
+    const charge = await provider.submitChargeOtp({ reference, otp });
+    return { success: true, data: toProgress(await recordProgress(transaction.id, charge)) };
+  },
+
+  // Current state of a charge, asking the provider while it is still in progress
+  async checkStatus(reference: string): Promise<MobileMoneyResult> {
+    const transaction = await getTransaction(reference);
+    if (!transaction) {
+      return { success: false, status: 404, message: 'Mobile money charge not found' };
+    }
+    if (FINAL_CHARGE_STATUSES.includes(transaction.charge_status) || transaction.payment_status !== 'pending') {
+      return { success: true, data: toProgress(transaction) };
+    }
+
+    const provider = paymentProviderService.get(transaction.payment_provider);
+    if (!provider?.checkCharge) {
+      return { success: true, data: toProgress(transaction) };
+    }
+
+    const charge = await provider.checkCharge(reference);
+    return { success: true, data: toProgress(await recordProgress(transaction.id, charge)) };
+  },
+};
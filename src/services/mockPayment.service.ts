@@ -0,0 +1,228 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import {
+  InitializePaymentInput,
+  ListTransactionsInput,
+  MobileMoneyChargeInput,
+  PaymentProvider,
+  ProviderCharge,
+  ProviderRefund,
+  ProviderTransaction,
+} from './paymentProvider.service';
+
+/**
+ * In-memory payment provider for local development and automated tests.
+ * Checkout happens on /api/payments/mock/checkout/:reference, and the result
+ * arrives as a signed webhook on /api/payments/webhook/mock after a delay,
+ * the same way Paystack reports charges. Per-payment behaviour comes from
+ * the metadata passed to initialize:
+ *   mock_outcome: 'success' | 'failed' (default success)
+ *   mock_webhook_delay_ms: delay before the webhook; -1 sends none (a missed webhook)
+ *   mock_refund_outcome: 'processed' | 'failed' (default processed)
+ *   mock_momo_otp: true makes a mobile money charge ask for an OTP (MOCK_MOMO_OTP)
+ * A mobile money charge is approved the first time its status is checked.
+ */
+
+type MockOutcome = 'success' | 'failed';
+
+interface MockTransaction extends ProviderTransaction {
+  callback_url?: string;
+  charge_status?: string;
+}
+
+const DEFAULT_WEBHOOK_DELAY_MS = 2000;
+const MOCK_MOMO_OTP = '123456';
+
+const transactions = new Map<string, MockTransaction>();
+let refundCounter = 0;
+
+// Never on in production, whatever the environment says
+export const isMockPaymentsEnabled = () =>
+  process.env.MOCK_PAYMENTS_ENABLED === 'true' && process.env.NODE_ENV !== 'production';
+
+const getSecret = () => process.env.MOCK_PAYMENT_SECRET || 'mock-payment-secret';
+
+const getApiUrl = () =>
+  (process.env.API_URL || `http://localhost:${Number(process.env.PORT) || 5000}`).replace(/\/$/, '');
+
+const sign = (payload: string) => crypto.createHmac('sha512', getSecret()).update(payload).digest('hex');
+
+const getWebhookDelay = (transaction: MockTransaction) => {
+  const delay = Number(transaction.metadata?.mock_webhook_delay_ms ?? process.env.MOCK_PAYMENT_WEBHOOK_DELAY_MS);
+  return Number.isFinite(delay) ? delay : DEFAULT_WEBHOOK_DELAY_MS;
+};
+
+// Deliver an event to our own webhook endpoint, like the real provider would
+const scheduleWebhook = (event: string, data: Record<string, unknown>, delayMs: number) => {
+  if (delayMs < 0) return;
+
+  const timer = setTimeout(async () => {
+    const payload = JSON.stringify({ event, data });
+    try {
+      await axios.post(`${getApiUrl()}/api/payments/webhook/mock`, payload, {
+        headers: { 'Content-Type': 'application/json', 'x-mock-signature': sign(payload) },
+      });
+    } catch (error: any) {
+      console.error(`Mock payment webhook ${event} failed:`, error.response?.data || error.message);
+    }
+  }, delayMs);
+  timer.unref();
+};
+
+export const mockPaymentService: PaymentProvider & {
+  getTransaction(reference: string): MockTransaction | null;
+  complete(reference: string, outcome?: MockOutcome): MockTransaction | null;
+  checkCharge(reference: string, options?: { approve?: boolean }): Promise<ProviderCharge>;
+} = {
+  name: 'mock',
+
+  isConfigured() {
+    return isMockPaymentsEnabled();
+  },
+
+  getTransaction(reference: string) {
+    return transactions.get(reference) || null;
+  },
+
+  async initialize(input: InitializePaymentInput) {
+    transactions.set(input.reference, {
+      id: crypto.randomInt(1_000_000_000),
+      reference: input.reference,
+      status: 'pending',
+      amount: Math.round(input.amount),
+      currency: 'GHS',
+      channel: 'mock',
+      created_at: new Date().toISOString(),
+      paid_at: null,
+      customer: { email: input.email, customer_code: `MOCK_CUS_${input.email}` },
+      authorization: null,
+      metadata: input.metadata || {},
+      callback_url: input.callback_url,
+    });
+
+    return {
+      authorization_url: `${getApiUrl()}/api/payments/mock/checkout/${encodeURIComponent(input.reference)}`,
+      access_code: `mock_${input.reference}`,
+      reference: input.reference,
+    };
+  },
+
+  // The customer finished the mock checkout page
+  complete(reference: string, outcome?: MockOutcome) {
+    const transaction = transactions.get(reference);
+    if (!transaction || transaction.status !== 'pending') return transaction || null;
+
+    const result: MockOutcome = outcome || (transaction.metadata?.mock_outcome === 'failed' ? 'failed' : 'success');
+    transaction.status = result;
+    if (result === 'success') {
+      transaction.paid_at = new Date().toISOString();
+      transaction.authorization = { authorization_code: `MOCK_AUTH_${reference}` };
+    }
+
+    const { callback_url: _callbackUrl, charge_status: _chargeStatus, ...data } = transaction;
+    scheduleWebhook(result === 'success' ? 'charge.success' : 'charge.failed', data, getWebhookDelay(transaction));
+    return transaction;
+  },
+
+  async verify(reference: string) {
+    const transaction = transactions.get(reference);
+    if (!transaction) return null;
+
+    const { callback_url: _callbackUrl, charge_status: _chargeStatus, ...data } = transaction;
+    return data;
+  },
+
+  verifyWebhook(payload: string, headers: Record<string, string | string[] | undefined>) {
+    const signature = headers['x-mock-signature'];
+    if (typeof signature !== 'string') return false;
+
+    const expected = sign(payload);
+    return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  },
+
+  async refund(input: { reference: string; amount?: number; note?: string }): Promise<ProviderRefund> {
+    const transaction = transactions.get(input.reference);
+    if (!transaction || transaction.status !== 'success') {
+      throw new Error('Transaction has not been paid');
+    }
+
+    const refund = {
+      id: `MOCK_RF_${++refundCounter}`,
+      status: 'pending',
+      amount: Math.round(input.amount ?? transaction.amount),
+      currency: transaction.currency,
+    };
+
+    const failed = transaction.metadata?.mock_refund_outcome === 'failed';
+    scheduleWebhook(
+      failed ? 'refund.failed' : 'refund.processed',
+      {
+        ...refund,
+        status: failed ? 'failed' : 'processed',
+        transaction_reference: transaction.reference,
+        ...(input.note ? { merchant_note: input.note } : {}),
+      },
+      getWebhookDelay(transaction)
+    );
+    return refund;
+  },
+
+  async listTransactions(input: ListTransactionsInput = {}) {
+    const page = input.page || 1;
+    const perPage = input.perPage || 100;
+
+    const matching = [...transactions.values()]
+      .filter((transaction) => !input.status || transaction.status === input.status)
+      .filter((transaction) => !input.from || (transaction.created_at || '') >= input.from)
+      .filter((transaction) => !input.to || (transaction.created_at || '') <= input.to)
+      .map(({ callback_url: _callbackUrl, charge_status: _chargeStatus, ...data }) => data);
+
+    return {
+      transactions: matching.slice((page - 1) * perPage, page * perPage),
+      hasMore: page * perPage < matching.length,
+    };
+  },
+
+  async chargeMobileMoney(input: MobileMoneyChargeInput) {
+    await this.initialize({ email: input.email, amount: input.amount, reference: input.reference, metadata: input.metadata });
+    const transaction = transactions.get(input.reference)!;
+    transaction.channel = 'mobile_money';
+    transaction.charge_status = transaction.metadata?.mock_momo_otp ? 'send_otp' : 'pay_offline';
+    return this.checkCharge(input.reference, { approve: false });
+  },
+
+  async submitChargeOtp(input: { reference: string; otp: string }) {
+    const transaction = transactions.get(input.reference);
+    if (transaction?.charge_status === 'send_otp') {
+      if (input.otp !== MOCK_MOMO_OTP) {
+        return { reference: input.reference, status: 'send_otp', display_text: `Invalid OTP. The mock OTP is ${MOCK_MOMO_OTP}` };
+      }
+      transaction.charge_status = 'pay_offline';
+    }
+    return this.checkCharge(input.reference, { approve: false });
+  },
+
+  async checkCharge(reference: string, options: { approve?: boolean } = {}): Promise<ProviderCharge> {
+    const transaction = transactions.get(reference);
+    if (!transaction) {
+      return { reference, status: 'failed', display_text: 'Charge not found' };
+    }
+
+    // The customer "approves" the prompt on their phone while the storefront polls
+    if (options.approve !== false && transaction.status === 'pending' && transaction.charge_status === 'pay_offline') {
+      this.complete(reference);
+    }
+
+    if (transaction.status !== 'pending') {
+      return { reference, status: transaction.status };
+    }
+    return {
+      reference,
+      status: transaction.charge_status || 'pending',
+      display_text:
+        transaction.charge_status === 'send_otp'
+          ? `Enter the OTP sent to your phone (mock: ${MOCK_MOMO_OTP})`
+          : 'Approve the payment prompt on your phone',
+    };
+  },
+};
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+
+const DEFAULT_TOKEN_DAYS = 30;
+
+interface OrderAccessPayload {
+  tid: string; // order_access_tokens.id
+  oid: string; // order id
+  exp: number; // expiry, seconds since epoch
+}
+
+export type OrderAccessVerification =
+  | { success: true; tokenId: string; orderId: string }
+  | { success: false; status: number; message: string };
+
+const getSecret = () => process.env.ORDER_ACCESS_TOKEN_SECRET || process.env.JWT_SECRET || null;
+
+const sign = (encodedPayload: string, secret: string) =>
+  crypto.createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+
+const getFrontendUrl = () =>
+  (process.env.FRONTEND_URL || process.env.NEXT_PUBLIC_API_URL || 'https://hogtechgh.com').split(',')[0].trim().replace(/\/$/, '');
+
+export const orderAccessService = {
+  async getValidityDays() {
+    return settingsService.getNumberSetting('order_access_token_days', DEFAULT_TOKEN_DAYS);
+  },
+
+  buildAccessUrl(token: string) {
+    return `${getFrontendUrl()}/orders/access/${token}`;
+  },
+
+  /**
+   * Issue a signed link for one order. Returns null when no signing secret is
+   * configured so callers can fall back to the order-number tracking page.
+   */
+  async issueToken(orderId: string, options: { email?: string | null; createdBy?: string | null; expiresInDays?: number } = {}) {
+    const secret = getSecret();
+    if (!secret) {
+      console.warn('ORDER_ACCESS_TOKEN_SECRET (or JWT_SECRET) is not set; guest order links are disabled');
+      return null;
+    }
+
+    const days = options.expiresInDays || (await this.getValidityDays());
+    const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+    const { data: record, error } = await supabaseAdmin
+      .from('order_access_tokens')
+      .insert({
+        order_id: orderId,
+        email: options.email || null,
+        expires_at: expiresAt.toISOString(),
+        created_by: options.createdBy || null,
+      })
+      .select('id, order_id, email, expires_at, created_at')
+      .single();
+
+    if (error) throw error;
+
+    const payload: OrderAccessPayload = {
+      tid: record.id,
+      oid: orderId,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const token = `${encodedPayload}.${sign(encodedPayload, secret)}`;
+
+    return {
+      ...record,
+      token,
+      url: this.buildAccessUrl(token),
+    };
+  },
+
+  /**
+   * Check the signature and expiry, then that the token still exists and has
+   * not been revoked. Every failure looks the same to the caller.
+   */
+  async verifyToken(token: string): Promise<OrderAccessVerification> {
+    const invalid = { success: false as const, status: 401, message: 'This order link is invalid or has expired' };
+    const secret = getSecret();
+    if (!secret || !token) return invalid;
+
+    const [encodedPayload, signature] = token.split('.');
+    if (!encodedPayload || !signature) return invalid;
+
+    const expected = Buffer.from(sign(encodedPayload, secret));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return invalid;
+    }
+
+    let payload: OrderAccessPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      return invalid;
+    }
+
+    if (!payload?.tid || !payload?.oid || !payload?.exp || payload.exp * 1000 < Date.now()) {
+      return invalid;
+    }
+
+    const { data: record, error } = await supabaseAdmin
+      .from('order_access_tokens')
+      .select('id, order_id, expires_at, revoked_at')
+      .eq('id', payload.tid)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (
+      !record ||
+      record.order_id !== payload.oid ||
+      record.revoked_at ||
+      new Date(record.expires_at).getTime() < Date.now()
+    ) {
+      return invalid;
+    }
+
+    const { error: touchError } = await supabaseAdmin
+      .from('order_access_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', record.id);
+
+    if (touchError) {
+      console.warn(`Failed to record use of order access token ${record.id}:`, touchError);
+    }
+
+    return { success: true, tokenId: record.id, orderId: record.order_id };
+  },
+
+  async listTokens(orderId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('order_access_tokens')
+      .select('id, email, expires_at, revoked_at, revoked_by, last_used_at, created_by, created_at')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Returns the revoked token, or null if it does not belong to the order or was already revoked
+  async revokeToken(orderId: string, tokenId: string, revokedBy?: string | null) {
+    const { data, error } = await supabaseAdmin
+      .from('order_access_tokens')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy || null })
+      .eq('id', tokenId)
+      .eq('order_id', orderId)
+      .is('revoked_at', null)
+      .select('id, email, expires_at, revoked_at')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+};
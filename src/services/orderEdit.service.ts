@@ -0,0 +1,168 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { normalizeVariantCombination } from './inventory.service';
+
+export interface OrderEditSnapshotItem {
+  id: string | null;
+  product_id: string | null;
+  deal_product_id: string | null;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  subtotal: number;
+  variant_options: Record<string, any> | null;
+}
+
+export interface OrderEditSnapshot {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  shipping_fee: number;
+  total: number;
+  items: OrderEditSnapshotItem[];
+}
+
+export interface OrderEditChange {
+  type: 'added' | 'removed' | 'quantity_changed' | 'variants_changed' | 'price_changed';
+  order_item_id: string | null;
+  product_name: string;
+  from?: any;
+  to?: any;
+}
+
+// Statuses in which line items may still be edited
+export const EDITABLE_ORDER_STATUSES = ['pending', 'processing'];
+
+const toNumber = (value: any) => Number(value) || 0;
+
+export const orderEditService = {
+  /**
+   * Why an order cannot be edited, or null when it can. Unpaid orders and
+   * orders still being prepared are editable; nothing that has left the
+   * warehouse is.
+   */
+  getEditBlocker(order: { status: string; payment_status?: string | null }, shipments: any[] = []): string | null {
+    if (!EDITABLE_ORDER_STATUSES.includes(order.status)) {
+      return `Only ${EDITABLE_ORDER_STATUSES.join(' or ')} orders can be edited`;
+    }
+    if (order.status === 'pending' && order.payment_status === 'paid') {
+      return 'Paid orders can only be edited once they are processing';
+    }
+    if (shipments.some((shipment: any) => shipment.status !== 'cancelled')) {
+      return 'Orders with shipments cannot be edited';
+    }
+    return null;
+  },
+
+  snapshot(order: any, items: any[]): OrderEditSnapshot {
+    return {
+      subtotal: toNumber(order.subtotal),
+      discount: toNumber(order.discount),
+      tax: toNumber(order.tax),
+      shipping_fee: toNumber(order.shipping_fee),
+      total: toNumber(order.total),
+      items: items.map((item) => ({
+        id: item.id || null,
+        product_id: item.product_id || null,
+        deal_product_id: item.deal_product_id || null,
+        product_name: item.product_name || 'Product',
+        quantity: toNumber(item.quantity),
+        unit_price: toNumber(item.unit_price),
+        subtotal: toNumber(item.subtotal),
+        variant_options: item.variant_options || null,
+      })),
+    };
+  },
+
+  // Line-level differences between two snapshots, matched by order item id
+  diff(before: OrderEditSnapshot, after: OrderEditSnapshot): OrderEditChange[] {
+    const changes: OrderEditChange[] = [];
+    const afterIds = new Set(after.items.map((item) => item.id).filter(Boolean));
+
+    for (const item of before.items) {
+      if (!afterIds.has(item.id)) {
+        changes.push({ type: 'removed', order_item_id: item.id, product_name: item.product_name, from: item.quantity });
+      }
+    }
+
+    for (const item of after.items) {
+      const previous = item.id ? before.items.find((entry) => entry.id === item.id) : undefined;
+      if (!previous) {
+        changes.push({ type: 'added', order_item_id: item.id, product_name: item.product_name, to: item.quantity });
+        continue;
+      }
+      if (previous.quantity !== item.quantity) {
+        changes.push({ type: 'quantity_changed', order_item_id: item.id, product_name: item.product_name, from: previous.quantity, to: item.quantity });
+      }
+      if (normalizeVariantCombination(previous.variant_options) !== normalizeVariantCombination(item.variant_options)) {
+        changes.push({ type: 'variants_changed', order_item_id: item.id, product_name: item.product_name, from: previous.variant_options, to: item.variant_options });
+      }
+      if (previous.unit_price !== item.unit_price) {
+        changes.push({ type: 'price_changed', order_item_id: item.id, product_name: item.product_name, from: previous.unit_price, to: item.unit_price });
+      }
+    }
+
+    return changes;
+  },
+
+  // Human-readable lines for the customer email
+  describeChanges(changes: OrderEditChange[]): string[] {
+    return changes
+      .map((change) => {
+        switch (change.type) {
+          case 'added':
+            return `Added ${change.to} x ${change.product_name}`;
+          case 'removed':
+            return `Removed ${change.product_name}`;
+          case 'quantity_changed':
+            return `${change.product_name}: quantity changed from ${change.from} to ${change.to}`;
+          case 'variants_changed':
+            return `${change.product_name}: options changed`;
+          default:
+            return null;
+        }
+      })
+      .filter((line): line is string => !!line);
+  },
+
+  /**
+   * Persist an edit in the audit trail. Failures are logged rather than thrown
+   * because the order itself has already been updated.
+   */
+  async recordEdit(edit: {
+    orderId: string;
+    editedBy?: { id?: string | null; role?: string | null } | null;
+    reason?: string | null;
+    before: OrderEditSnapshot;
+    after: OrderEditSnapshot;
+    changes: OrderEditChange[];
+    customerNotified: boolean;
+  }) {
+    const { error } = await supabaseAdmin
+      .from('order_edits')
+      .insert({
+        order_id: edit.orderId,
+        edited_by: edit.editedBy?.id || null,
+        edited_by_role: edit.editedBy?.role || null,
+        reason: edit.reason || null,
+        before_snapshot: edit.before,
+        after_snapshot: edit.after,
+        changes: edit.changes,
+        customer_notified: edit.customerNotified,
+      });
+
+    if (error) {
+      console.error(`Failed to record edit for order ${edit.orderId}:`, error);
+    }
+  },
+
+  async getEdits(orderId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('order_edits')
+      .select('id, edited_by, edited_by_role, reason, before_snapshot, after_snapshot, changes, customer_notified, created_at')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+};
@@ -0,0 +1,194 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+import { paymentProviderService } from './paymentProvider.service';
+import { CASH_PAYMENT_METHODS } from './cashPayment.service';
+import { paymentVerificationService } from './paymentVerification.service';
+import enhancedEmailService from './enhanced-email.service';
+import { customerService } from './customer.service';
+
+const DEFAULT_EXPIRY_MINUTES = 60;
+const SWEEP_BATCH_SIZE = 50;
+
+const ORDER_WITH_CUSTOMER_SELECT = `
+  *,
+  user:users!orders_user_id_fkey(id, first_name, last_name, email),
+  customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+  order_items:order_items(*)
+`;
+
+export const orderExpiryService = {
+  // 0 turns the sweeper off
+  async getExpiryMinutes() {
+    return settingsService.getNumberSetting('pending_order_expiry_minutes', DEFAULT_EXPIRY_MINUTES);
+  },
+
+  /**
+   * Online-payment orders still waiting for payment after the expiry window.
+   * Cash orders are paid later by design and are left alone. Orders made
+   * from a quote are given until the quote itself expires.
+   */
+  async findExpired(now: Date = new Date()) {
+    const minutes = await this.getExpiryMinutes();
+    if (minutes <= 0) return [];
+
+    const cutoff = new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+    const { data, error } = await supabaseAdmin
+      .from('orders')
+      .select(ORDER_WITH_CUSTOMER_SELECT)
+      .eq('status', 'pending')
+      .eq('payment_status', 'pending')
+      // NOT IN alone would also skip orders without a payment method
+      .or(`payment_method.is.null,payment_method.not.in.(${CASH_PAYMENT_METHODS.join(',')})`)
+      .is('shipping_address->>quote_number', null)
+      .lt('created_at', cutoff)
+      .order('created_at', { ascending: true })
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (error) throw error;
+    return [...(data || []), ...(await this.findExpiredQuoteOrders(now))];
+  },
+
+  // Unpaid orders whose quote expired; until then the customer can still pay through the quote link
+  async findExpiredQuoteOrders(now: Date = new Date()) {
+    const { data, error } = await supabaseAdmin
+      .from('orders')
+      .select(`${ORDER_WITH_CUSTOMER_SELECT}, draft_orders!inner(expires_at)`)
+      .eq('status', 'pending')
+      .eq('payment_status', 'pending')
+      .lt('draft_orders.expires_at', now.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Every reference the payment provider might know this order by
+  async getPaymentReferences(order: any) {
+    const { data: transactions, error } = await supabaseAdmin
+      .from('transactions')
+      .select('transaction_reference, paystack_reference')
+      .eq('order_id', order.id);
+
+    if (error) throw error;
+
+    const references = [
+      order.shipping_address?.payment_reference,
+      ...(transactions || []).flatMap((txn: any) => [txn.transaction_reference, txn.paystack_reference]),
+    ];
+    return [...new Set(references.filter((reference): reference is string => typeof reference === 'string' && !!reference))];
+  },
+
+  // A successful charge for the order whose webhook never arrived, if any
+  async findMissedPayment(order: any) {
+    for (const reference of await this.getPaymentReferences(order)) {
+      const provider = await paymentProviderService.forReference(reference, order.payment_method);
+      if (!provider.isConfigured()) continue;
+
+      const transaction = await provider.verify(reference);
+      if (transaction?.status === 'success') {
+        return transaction;
+      }
+    }
+    return null;
+  },
+
+  // Settle an order from a charge found by verification instead of cancelling it
+  async recordMissedPayment(order: any, providerTransaction: any) {
+    const now = new Date().toISOString();
+    const paidAt = providerTransaction.paid_at ? new Date(providerTransaction.paid_at).toISOString() : now;
+
+    const { error: transactionError } = await supabaseAdmin
+      .from('transactions')
+      .update({
+        order_id: order.id,
+        paystack_reference: providerTransaction.reference,
+        status: 'success',
+        channel: providerTransaction.channel || null,
+        authorization_code: providerTransaction.authorization?.authorization_code || null,
+        customer_code: providerTransaction.customer?.customer_code || null,
+        paid_at: paidAt,
+        updated_at: now,
+      })
+      .or(`transaction_reference.eq.${providerTransaction.reference},paystack_reference.eq.${providerTransaction.reference}`);
+
+    if (transactionError) {
+      console.error(`Failed to update transaction ${providerTransaction.reference} for recovered payment:`, transactionError);
+    }
+
+    await paymentVerificationService.settle(order.id, providerTransaction);
+  },
+
+  /**
+   * Start a new payment that carries the expired order's checkout
+   * data, so the payment webhook places the order again when it succeeds.
+   */
+  async createRetryPaymentLink(order: any, email: string) {
+    const { payment_reference: _reference, delivery_option, ...deliveryAddress } = order.shipping_address || {};
+    const items = (order.order_items || []).map((item: any) => ({
+      id: item.product_id,
+      name: item.product_name,
+      thumbnail: item.product_image || '',
+      quantity: item.quantity,
+      discount_price: Number(item.unit_price) || 0,
+      subtotal: Number(item.subtotal) || 0,
+      selected_variants: item.variant_options || {},
+    }));
+
+    const provider = await paymentProviderService.forMethod(order.payment_method);
+    const transaction = await provider.initialize({
+      email,
+      amount: (Number(order.total) || 0) * 100,
+      reference: `${order.order_number}-R${Date.now()}`,
+      metadata: {
+        user_id: order.user_id || 'guest',
+        customer_email: email,
+        expired_order_id: order.id,
+        checkout_data: {
+          items,
+          subtotal: Number(order.subtotal) || 0,
+          discount: Number(order.discount) || 0,
+          discount_code: order.discount_code || null,
+          tax: Number(order.tax) || 0,
+          delivery_fee: Number(order.shipping_fee) || 0,
+          delivery_option: delivery_option || null,
+          total: Number(order.total) || 0,
+          payment_method: order.payment_method || 'paystack',
+          delivery_address: deliveryAddress,
+          notes: order.notes || null,
+        },
+      },
+    });
+
+    return transaction.authorization_url;
+  },
+
+  // Email a "complete your payment" link; errors are logged so the sweep carries on
+  async notifyCustomer(order: any) {
+    try {
+      const { email: customerEmail, name: customerName } = customerService.getOrderContact(order);
+
+      if (!customerEmail) {
+        console.warn('No email found for expired order notification. Order:', order.id);
+        return;
+      }
+
+      const paymentUrl = await this.createRetryPaymentLink(order, customerEmail);
+      const result = await enhancedEmailService.sendPaymentExpired(
+        {
+          ...order,
+          customer_name: customerName,
+          customer_email: customerEmail,
+          items: order.order_items || [],
+        },
+        paymentUrl
+      );
+
+      if (!result.success && !result.skipped) {
+        console.error('Failed to send payment expired email:', result.reason);
+      }
+    } catch (emailError: any) {
+      console.error('Error sending payment expired email:', emailError?.message || emailError);
+    }
+  },
+};
@@ -0,0 +1,473 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { isOrderStatus } from './orderStatus.service';
+
+export const ORDER_SEARCH_DEFAULT_LIMIT = 25;
+export const ORDER_SEARCH_MAX_LIMIT = 100;
+
+// Cap on customers/users a name, email or phone search can expand to
+const CUSTOMER_MATCH_LIMIT = 500;
+
+/**
+ * Filter grammar shared by the admin order search, the CSV export, bulk
+ * actions and saved searches. Values arrive as query-string params or JSON;
+ * list filters take a comma-separated string or an array.
+ */
+export interface OrderSearchFilters {
+  date_from?: string;
+  date_to?: string;
+  status?: string[];
+  payment_status?: string[];
+  payment_method?: string[];
+  total_min?: number;
+  total_max?: number;
+  customer?: string; // name, email or phone
+  search?: string; // order number
+  product_id?: string;
+  discount_code?: string;
+  has_discount?: boolean;
+  region?: string;
+  delivery_option?: string; // delivery option id or name
+}
+
+// Sortable fields and the column (or shipping_address path) each one orders by
+const SORT_COLUMNS = {
+  created_at: 'created_at',
+  order_number: 'order_number',
+  total: 'total',
+  status: 'status',
+  payment_status: 'payment_status',
+  payment_method: 'payment_method',
+  discount_code: 'discount_code',
+  region: 'shipping_address->>region',
+  delivery_option: 'shipping_address->delivery_option->>name',
+} as const;
+
+export type OrderSortField = keyof typeof SORT_COLUMNS;
+export const ORDER_SORT_FIELDS = Object.keys(SORT_COLUMNS) as OrderSortField[];
+
+export interface OrderSearchSort {
+  sort: OrderSortField;
+  direction: 'asc' | 'desc';
+}
+
+interface OrderSearchCursor {
+  v: string | number | null; // sort value of the last row
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Export links predate the shared grammar and use camelCase date params
+const FILTER_ALIASES: Record<string, keyof OrderSearchFilters> = {
+  startDate: 'date_from',
+  endDate: 'date_to',
+};
+
+const FILTER_KEYS: (keyof OrderSearchFilters)[] = [
+  'date_from',
+  'date_to',
+  'status',
+  'payment_status',
+  'payment_method',
+  'total_min',
+  'total_max',
+  'customer',
+  'search',
+  'product_id',
+  'discount_code',
+  'has_discount',
+  'region',
+  'delivery_option',
+];
+
+const toText = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  return String(Array.isArray(value) ? value[0] : value).trim();
+};
+
+const toList = (value: unknown) =>
+  (Array.isArray(value) ? value : String(value ?? '').split(','))
+    .map((entry) => String(entry).trim())
+    .filter((entry) => entry && entry !== 'all');
+
+// Values inside a PostgREST or() filter are quoted so commas and dots survive
+const quote = (value: string | number) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Wildcards for ilike inside or() filters; user input must not add its own
+const likePattern = (value: string) => `*${value.replace(/[*%,()"\\]/g, ' ').trim()}*`;
+
+const getSortValue = (order: any, field: OrderSortField) => {
+  switch (field) {
+    case 'region':
+      return order.shipping_address?.region ?? null;
+    case 'delivery_option':
+      return order.shipping_address?.delivery_option?.name ?? null;
+    default:
+      return order[field] ?? null;
+  }
+};
+
+export const orderSearchService = {
+  /**
+   * Read filters from query params or a saved search. Unknown keys are
+   * ignored so the rest of the query string (sort, cursor, ...) can be passed
+   * in as-is; malformed values are collected in errors.
+   */
+  parseFilters(input: Record<string, unknown>): { filters: OrderSearchFilters; errors: string[] } {
+    const raw: Record<string, unknown> = {};
+    Object.entries(input || {}).forEach(([key, value]) => {
+      const name = FILTER_ALIASES[key] || key;
+      if ((FILTER_KEYS as string[]).includes(name) && value !== undefined && value !== null && value !== '') {
+        raw[name] = value;
+      }
+    });
+
+    const filters: OrderSearchFilters = {};
+    const errors: string[] = [];
+
+    (['date_from', 'date_to'] as const).forEach((key) => {
+      if (raw[key] === undefined) return;
+      const value = toText(raw[key]);
+      if (isNaN(new Date(value).getTime())) {
+        errors.push(`${key} must be a date`);
+      } else {
+        filters[key] = value;
+      }
+    });
+
+    (['status', 'payment_status', 'payment_method'] as const).forEach((key) => {
+      if (raw[key] === undefined) return;
+      const values = toList(raw[key]);
+      if (values.length > 0) filters[key] = values;
+    });
+
+    const invalidStatuses = (filters.status || []).filter((value) => !isOrderStatus(value));
+    if (invalidStatuses.length > 0) {
+      errors.push(`Invalid status filter: ${invalidStatuses.join(', ')}`);
+    }
+
+    (['total_min', 'total_max'] as const).forEach((key) => {
+      if (raw[key] === undefined) return;
+      const value = Number(toText(raw[key]));
+      if (!Number.isFinite(value) || value < 0) {
+        errors.push(`${key} must be a non-negative number`);
+      } else {
+        filters[key] = value;
+      }
+    });
+
+    if (filters.total_min !== undefined && filters.total_max !== undefined && filters.total_min > filters.total_max) {
+      errors.push('total_min cannot be greater than total_max');
+    }
+
+    (['customer', 'search', 'discount_code', 'region', 'delivery_option'] as const).forEach((key) => {
+      if (raw[key] === undefined) return;
+      const value = toText(raw[key]).slice(0, 100);
+      if (value) filters[key] = value;
+    });
+
+    if (raw.product_id !== undefined) {
+      const value = toText(raw.product_id);
+      if (!UUID_PATTERN.test(value)) {
+        errors.push('product_id must be a UUID');
+      } else {
+        filters.product_id = value;
+      }
+    }
+
+    if (raw.has_discount !== undefined) {
+      const value = toText(raw.has_discount).toLowerCase();
+      if (value === 'true' || value === 'false') {
+        filters.has_discount = value === 'true';
+      } else {
+        errors.push('has_discount must be true or false');
+      }
+    }
+
+    return { filters, errors };
+  },
+
+  parseSort(input: Record<string, unknown>): { sort: OrderSearchSort; errors: string[] } {
+    const field = toText(input.sort) || 'created_at';
+    const direction = (toText(input.direction) || 'desc').toLowerCase();
+    const errors: string[] = [];
+
+    if (!(ORDER_SORT_FIELDS as string[]).includes(field)) {
+      errors.push(`sort must be one of: ${ORDER_SORT_FIELDS.join(', ')}`);
+    }
+    if (direction !== 'asc' && direction !== 'desc') {
+      errors.push('direction must be asc or desc');
+    }
+
+    return {
+      sort: {
+        sort: errors.length === 0 ? (field as OrderSortField) : 'created_at',
+        direction: direction === 'asc' ? 'asc' : 'desc',
+      },
+      errors,
+    };
+  },
+
+  encodeCursor(order: any, field: OrderSortField) {
+    return Buffer.from(JSON.stringify({ v: getSortValue(order, field), id: order.id })).toString('base64url');
+  },
+
+  decodeCursor(cursor: string): OrderSearchCursor | null {
+    try {
+      const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof parsed?.id !== 'string' || !UUID_PATTERN.test(parsed.id)) return null;
+      if (parsed.v !== null && typeof parsed.v !== 'string' && typeof parsed.v !== 'number') return null;
+      return parsed;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Orders query with the filters applied. Customer matches on the linked
+   * customer or user record, or on the name, email and phone in the shipping
+   * address. Filters needing OR are combined into one or() filter, together
+   * with any extra groups the caller passes (e.g. a cursor). The builder is
+   * returned wrapped, since awaiting it directly would run the query.
+   */
+  async buildQuery(
+    filters: OrderSearchFilters,
+    columns: string,
+    options: { count?: 'exact'; orGroups?: string[] } = {}
+  ) {
+    const orGroups = [...(options.orGroups || [])];
+
+    // An aliased inner join keeps only orders containing the product
+    const select = filters.product_id ? `${columns}, product_match:order_items!inner(product_id)` : columns;
+    let query = supabaseAdmin.from('orders').select(select, options.count ? { count: options.count } : undefined);
+
+    if (filters.product_id) {
+      query = query.eq('product_match.product_id', filters.product_id);
+    }
+
+    if (filters.date_from) {
+      query = query.gte('created_at', new Date(filters.date_from).toISOString());
+    }
+
+    if (filters.date_to) {
+      const toDate = new Date(filters.date_to);
+      // A bare date includes the whole day
+      if (/^\d{4}-\d{2}-\d{2}$/.test(filters.date_to)) {
+        toDate.setHours(23, 59, 59, 999);
+      }
+      query = query.lte('created_at', toDate.toISOString());
+    }
+
+    if (filters.status && filters.status.length > 0) {
+      query = query.in('status', filters.status);
+    }
+
+    if (filters.payment_status && filters.payment_status.length > 0) {
+      query = query.in('payment_status', filters.payment_status);
+    }
+
+    if (filters.payment_method && filters.payment_method.length > 0) {
+      query = query.in('payment_method', filters.payment_method);
+    }
+
+    if (filters.total_min !== undefined) {
+      query = query.gte('total', filters.total_min);
+    }
+
+    if (filters.total_max !== undefined) {
+      query = query.lte('total', filters.total_max);
+    }
+
+    if (filters.search) {
+      query = query.ilike('order_number', `%${filters.search}%`);
+    }
+
+    if (filters.discount_code) {
+      query = query.ilike('discount_code', filters.discount_code);
+    }
+
+    if (filters.has_discount === true) {
+      query = query.gt('discount', 0);
+    } else if (filters.has_discount === false) {
+      orGroups.push('discount.is.null,discount.eq.0');
+    }
+
+    if (filters.region) {
+      query = query.ilike('shipping_address->>region', filters.region);
+    }
+
+    if (filters.delivery_option) {
+      orGroups.push(
+        UUID_PATTERN.test(filters.delivery_option)
+          ? `shipping_address->delivery_option->>id.eq.${filters.delivery_option}`
+          : `shipping_address->delivery_option->>name.ilike.${quote(filters.delivery_option)}`
+      );
+    }
+
+    if (filters.customer) {
+      const pattern = likePattern(filters.customer);
+      const [customersResult, usersResult] = await Promise.all([
+        supabaseAdmin
+          .from('customers')
+          .select('id')
+          .or(`full_name.ilike.${pattern},email.ilike.${pattern},phone.ilike.${pattern}`)
+          .limit(CUSTOMER_MATCH_LIMIT),
+        supabaseAdmin
+          .from('users')
+          .select('id')
+          .or(`full_name.ilike.${pattern},email.ilike.${pattern},phone.ilike.${pattern}`)
+          .limit(CUSTOMER_MATCH_LIMIT),
+      ]);
+
+      if (customersResult.error) throw customersResult.error;
+      if (usersResult.error) throw usersResult.error;
+
+      const matches = [
+        `shipping_address->>full_name.ilike.${pattern}`,
+        `shipping_address->>email.ilike.${pattern}`,
+        `shipping_address->>phone.ilike.${pattern}`,
+      ];
+      const customerIds = (customersResult.data || []).map((customer: any) => customer.id);
+      const userIds = (usersResult.data || []).map((user: any) => user.id);
+      if (customerIds.length > 0) matches.push(`customer_id.in.(${customerIds.join(',')})`);
+      if (userIds.length > 0) matches.push(`user_id.in.(${userIds.join(',')})`);
+
+      orGroups.push(matches.join(','));
+    }
+
+    if (orGroups.length === 1) {
+      query = query.or(orGroups[0]);
+    } else if (orGroups.length > 1) {
+      query = query.or(`and(${orGroups.map((group) => `or(${group})`).join(',')})`);
+    }
+
+    return { query };
+  },
+
+  /**
+   * One page of orders matching the filters. Pages are keyed on the sort
+   * value and id; rows without a sort value always come last, so the cursor
+   * moves from the valued rows into the empty ones.
+   */
+  async search(
+    filters: OrderSearchFilters,
+    options: OrderSearchSort & { cursor?: string | null; limit?: number; columns: string }
+  ) {
+    const limit = Math.min(Math.max(options.limit || ORDER_SEARCH_DEFAULT_LIMIT, 1), ORDER_SEARCH_MAX_LIMIT);
+    const column = SORT_COLUMNS[options.sort];
+    const ascending = options.direction === 'asc';
+    const cursor = options.cursor ? this.decodeCursor(options.cursor) : null;
+
+    const orGroups: string[] = [];
+    if (cursor) {
+      const idAfter = `id.${ascending ? 'gt' : 'lt'}.${cursor.id}`;
+      orGroups.push(
+        cursor.v === null
+          ? `and(${column}.is.null,${idAfter})`
+          : [
+              `${column}.${ascending ? 'gt' : 'lt'}.${quote(cursor.v)}`,
+              `and(${column}.eq.${quote(cursor.v)},${idAfter})`,
+              `${column}.is.null`,
+            ].join(',')
+      );
+    }
+
+    const { query } = await this.buildQuery(filters, options.columns, { orGroups });
+    const { data, error } = await query
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    if (error) throw error;
+
+    const rows = ((data || []) as any[]).map(({ product_match, ...order }) => order);
+    const orders = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return {
+      orders,
+      nextCursor: hasMore && orders.length > 0 ? this.encodeCursor(orders[orders.length - 1], options.sort) : null,
+      hasMore,
+      limit,
+    };
+  },
+
+  async listSavedSearches(adminId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('saved_order_searches')
+      .select('*')
+      .eq('admin_id', adminId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getSavedSearch(adminId: string, searchId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('saved_order_searches')
+      .select('*')
+      .eq('id', searchId)
+      .eq('admin_id', adminId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async createSavedSearch(
+    adminId: string,
+    input: { name: string; filters: OrderSearchFilters; sort: OrderSearchSort }
+  ) {
+    const { data, error } = await supabaseAdmin
+      .from('saved_order_searches')
+      .insert({
+        admin_id: adminId,
+        name: input.name,
+        filters: input.filters,
+        sort: input.sort.sort,
+        direction: input.sort.direction,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Returns null when the search does not belong to the admin
+  async updateSavedSearch(
+    adminId: string,
+    searchId: string,
+    input: { name?: string; filters?: OrderSearchFilters; sort?: OrderSearchSort }
+  ) {
+    const { data, error } = await supabaseAdmin
+      .from('saved_order_searches')
+      .update({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.filters !== undefined && { filters: input.filters }),
+        ...(input.sort !== undefined && { sort: input.sort.sort, direction: input.sort.direction }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', searchId)
+      .eq('admin_id', adminId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteSavedSearch(adminId: string, searchId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('saved_order_searches')
+      .delete()
+      .eq('id', searchId)
+      .eq('admin_id', adminId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+};
@@ -0,0 +1,124 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+
+export const ORDER_STATUSES = [
+  'pending',
+  'processing',
+  'partially_shipped',
+  'shipped',
+  'ready_for_pickup',
+  'delivered',
+  'cancelled',
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Allowed next statuses for each status. Terminal statuses have no outgoing transitions.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['partially_shipped', 'shipped', 'ready_for_pickup', 'cancelled'],
+  // partially_shipped is normally set from shipments (see shipment.service)
+  partially_shipped: ['shipped', 'delivered'],
+  shipped: ['delivered'],
+  // Store pickup orders only (see pickup.service); delivered means collected
+  ready_for_pickup: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+};
+
+export interface OrderStatusChange {
+  orderId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  changedBy?: { id?: string | null; role?: string | null } | null;
+  note?: string | null;
+  trackingNumber?: string | null;
+}
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+
+export const orderStatusService = {
+  getAllowedTransitions(fromStatus: string | null | undefined): OrderStatus[] {
+    if (!isOrderStatus(fromStatus)) return [];
+    return ORDER_STATUS_TRANSITIONS[fromStatus];
+  },
+
+  canTransition(fromStatus: string | null | undefined, toStatus: string): boolean {
+    return this.getAllowedTransitions(fromStatus).includes(toStatus as OrderStatus);
+  },
+
+  /**
+   * Persist a status change. Failures are logged rather than thrown so the
+   * order update itself is never rolled back because of the timeline.
+   */
+  async recordChange(change: OrderStatusChange) {
+    const { error } = await supabaseAdmin
+      .from('order_status_history')
+      .insert({
+        order_id: change.orderId,
+        from_status: change.fromStatus,
+        to_status: change.toStatus,
+        changed_by: change.changedBy?.id || null,
+        changed_by_role: change.changedBy?.role || null,
+        note: change.note || null,
+        tracking_number: change.trackingNumber || null,
+      });
+
+    if (error) {
+      console.error(`Failed to record status history for order ${change.orderId}:`, error);
+    }
+  },
+
+  async getHistory(orderId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('order_status_history')
+      .select('id, from_status, to_status, changed_by, changed_by_role, note, tracking_number, created_at')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error(`Failed to fetch status history for order ${orderId}:`, error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Customer-facing timeline: drops internal actor details
+  async getPublicHistory(orderId: string) {
+    const history = await this.getHistory(orderId);
+    return history.map((entry: any) => this.toPublicEntry(entry));
+  },
+
+  // Customer-facing timelines of several orders in one query, keyed by order id
+  async getPublicHistoryForOrders(orderIds: string[]) {
+    const timelines = new Map<string, any[]>(orderIds.map((id) => [id, []]));
+    if (orderIds.length === 0) return timelines;
+
+    const { data, error } = await supabaseAdmin
+      .from('order_status_history')
+      .select('id, order_id, from_status, to_status, note, tracking_number, created_at')
+      .in('order_id', orderIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch status history for orders:', error);
+      return timelines;
+    }
+
+    for (const entry of data || []) {
+      timelines.get(entry.order_id)?.push(this.toPublicEntry(entry));
+    }
+    return timelines;
+  },
+
+  toPublicEntry(entry: any) {
+    return {
+      status: entry.to_status,
+      previous_status: entry.from_status,
+      note: entry.note,
+      tracking_number: entry.tracking_number,
+      created_at: entry.created_at,
+    };
+  },
+};
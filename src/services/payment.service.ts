@@ -0,0 +1,66 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { paymentProviderService } from './paymentProvider.service';
+import type { InitializePaymentInput } from './paymentProvider.service';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface StartPaymentInput extends InitializePaymentInput {
+  payment_method?: string | null;
+  // Record a pending transaction against this order before the provider is called
+  order?: { id: string; user_id?: string | null };
+}
+
+type StartPaymentResult =
+  | { success: true; data: { authorization_url: string; access_code?: string; reference: string; provider: string } }
+  | { success: false; status: number; message: string };
+
+export const paymentService = {
+  /**
+   * Start a hosted payment with the provider configured for the payment
+   * method. For an existing order the pending transaction is recorded first,
+   * so the webhook finds it whatever the order of events.
+   */
+  async initialize(input: StartPaymentInput): Promise<StartPaymentResult> {
+    if (!input.email || !input.amount || !input.reference) {
+      return { success: false, status: 400, message: 'Email, amount, and reference are required' };
+    }
+    if (!EMAIL_PATTERN.test(input.email)) {
+      return { success: false, status: 400, message: 'Invalid email format' };
+    }
+
+    const paymentMethod = input.payment_method || (input.metadata?.payment_method as string | undefined) || 'paystack';
+    const provider = await paymentProviderService.forMethod(paymentMethod);
+    if (!provider.isConfigured()) {
+      return { success: false, status: 500, message: `Payment provider ${provider.name} is not configured` };
+    }
+
+    if (input.order) {
+      const { error } = await supabaseAdmin.from('transactions').insert({
+        order_id: input.order.id,
+        user_id: input.order.user_id || null,
+        transaction_reference: input.reference,
+        payment_method: paymentMethod,
+        payment_provider: provider.name,
+        amount: input.amount / 100,
+        currency: 'GHS',
+        status: 'pending',
+        payment_status: 'pending',
+        customer_email: input.email,
+        metadata: input.metadata || {},
+        initiated_at: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+    }
+
+    const data = await provider.initialize({
+      email: input.email,
+      amount: input.amount, // Amount in pesewas (GHS * 100)
+      reference: input.reference,
+      ...(input.callback_url ? { callback_url: input.callback_url } : {}),
+      ...(input.metadata ? { metadata: input.metadata } : {}),
+    });
+
+    return { success: true, data: { ...data, provider: provider.name } };
+  },
+};
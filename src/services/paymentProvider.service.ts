@@ -0,0 +1,137 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+import { paystackService } from './paystack.service';
+import { isMockPaymentsEnabled, mockPaymentService } from './mockPayment.service';
+
+/**
+ * Transactions and refunds as providers report them. The shape follows
+ * Paystack's API (amounts in pesewas, `status: 'success'` for a completed
+ * charge), so other providers map their responses onto it.
+ */
+export interface ProviderTransaction {
+  id?: number | string;
+  reference: string;
+  status: string; // success, failed, abandoned, pending, ...
+  amount: number; // pesewas
+  currency: string;
+  channel?: string | null;
+  paid_at?: string | null;
+  created_at?: string | null;
+  customer?: { email?: string | null; customer_code?: string | null } | null;
+  authorization?: { authorization_code?: string | null } | null;
+  metadata?: Record<string, any> | null;
+}
+
+export interface ProviderRefund {
+  id: number | string;
+  status: string; // pending, processing, processed, failed
+  amount: number; // pesewas
+  currency: string;
+}
+
+export interface InitializePaymentInput {
+  email: string;
+  amount: number; // pesewas
+  reference: string;
+  callback_url?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ListTransactionsInput {
+  from?: string;
+  to?: string;
+  status?: string;
+  page?: number;
+  perPage?: number;
+}
+
+export const MOBILE_MONEY_PROVIDERS = ['mtn', 'vod', 'atl'] as const; // MTN MoMo, Vodafone Cash, AirtelTigo Money
+
+export type MobileMoneyProvider = (typeof MOBILE_MONEY_PROVIDERS)[number];
+
+export interface MobileMoneyChargeInput {
+  email: string;
+  amount: number; // pesewas
+  reference: string;
+  phone: string;
+  provider: MobileMoneyProvider;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A direct charge in progress. `status` is the next step, as Paystack names
+ * it: send_otp (the customer enters a code from their network), pay_offline
+ * (they approve the prompt on their phone), pending, success or failed.
+ * `display_text` is the instruction to show the customer.
+ */
+export interface ProviderCharge {
+  reference: string;
+  status: string;
+  display_text?: string | null;
+}
+
+export interface PaymentProvider {
+  name: string;
+  isConfigured(): boolean;
+  initialize(input: InitializePaymentInput): Promise<{ authorization_url: string; access_code?: string; reference: string }>;
+  // null when the provider has never seen the reference
+  verify(reference: string): Promise<ProviderTransaction | null>;
+  verifyWebhook(payload: string, headers: Record<string, string | string[] | undefined>): boolean;
+  // amount in pesewas; the whole remaining amount when omitted
+  refund(input: { reference: string; amount?: number; note?: string }): Promise<ProviderRefund>;
+  listTransactions(input?: ListTransactionsInput): Promise<{ transactions: ProviderTransaction[]; hasMore: boolean }>;
+  // Direct mobile money charges, for providers that support them
+  chargeMobileMoney?(input: MobileMoneyChargeInput): Promise<ProviderCharge>;
+  submitChargeOtp?(input: { reference: string; otp: string }): Promise<ProviderCharge>;
+  checkCharge?(reference: string): Promise<ProviderCharge>;
+}
+
+export const DEFAULT_PAYMENT_PROVIDER = 'paystack';
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  paystack: paystackService,
+  mock: mockPaymentService,
+};
+
+export const paymentProviderService = {
+  /**
+   * Look up a provider by name. The mock provider only exists where mock
+   * payments are enabled, so a stray setting cannot make it take real orders.
+   */
+  get(name?: string | null): PaymentProvider | null {
+    const provider = PROVIDERS[(name || DEFAULT_PAYMENT_PROVIDER).toLowerCase()];
+    if (!provider) return null;
+    if (provider === mockPaymentService && !isMockPaymentsEnabled()) return null;
+    return provider;
+  },
+
+  // The provider for a payment method, from the `payment_provider_<method>` setting
+  async forMethod(paymentMethod?: string | null): Promise<PaymentProvider> {
+    const configured = paymentMethod ? await settingsService.getSetting(`payment_provider_${paymentMethod}`) : null;
+    const provider = this.get(configured || DEFAULT_PAYMENT_PROVIDER);
+
+    if (!provider) {
+      throw new Error(`Payment provider "${configured}" for ${paymentMethod} is not available`);
+    }
+    return provider;
+  },
+
+  // The provider that issued a reference, from its transaction record, else the one for the payment method
+  async forReference(reference: string, paymentMethod?: string | null): Promise<PaymentProvider> {
+    if (isMockPaymentsEnabled() && mockPaymentService.getTransaction(reference)) {
+      return mockPaymentService;
+    }
+
+    const { data: transaction, error } = await supabaseAdmin
+      .from('transactions')
+      .select('payment_provider, payment_method')
+      .or(`transaction_reference.eq.${reference},paystack_reference.eq.${reference}`)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const recorded = transaction?.payment_provider ? this.get(transaction.payment_provider) : null;
+    return recorded || this.forMethod(paymentMethod || transaction?.payment_method);
+  },
+};
@@ -0,0 +1,184 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import type { ProviderTransaction } from './paymentProvider.service';
+
+export const PAYMENT_CURRENCY = 'GHS';
+
+export type AmountVerificationOutcome = 'matched' | 'underpaid' | 'overpaid' | 'currency_mismatch';
+
+// Stored on the transaction as metadata.amount_verification
+export interface AmountVerification {
+  outcome: AmountVerificationOutcome;
+  expected_amount: number; // GHS
+  charged_amount: number; // GHS
+  difference: number; // GHS, charged minus expected
+  currency: string;
+  checked_at: string;
+  admin_notified?: boolean;
+}
+
+// An underpaid charge is not a payment of the order; a foreign-currency one is not counted at all
+const PAYMENT_STATUS_BY_OUTCOME: Record<AmountVerificationOutcome, string> = {
+  matched: 'paid',
+  overpaid: 'paid',
+  underpaid: 'partially_paid',
+  currency_mismatch: 'pending',
+};
+
+// Statuses a later charge must not overwrite
+const SETTLED_PAYMENT_STATUSES = '(paid,refunded,partially_refunded)';
+
+const toPesewas = (ghs: number) => Math.round((Number(ghs) || 0) * 100);
+
+const notifyAdmins = async (order: any, verification: AmountVerification, reference: string) => {
+  const amounts = `charged ${verification.currency} ${verification.charged_amount.toFixed(2)}, order total GHS ${verification.expected_amount.toFixed(2)}`;
+  const notification = {
+    underpaid: {
+      title: `Underpayment: ${order.order_number}`,
+      message: `Payment ${reference} is short by GHS ${Math.abs(verification.difference).toFixed(2)} (${amounts}). The order is marked partially paid.`,
+    },
+    overpaid: {
+      title: `Overpayment to refund: ${order.order_number}`,
+      message: `Payment ${reference} is GHS ${verification.difference.toFixed(2)} over the order total (${amounts}). Refund the difference to the customer.`,
+    },
+    currency_mismatch: {
+      title: `Payment in wrong currency: ${order.order_number}`,
+      message: `Payment ${reference} was charged in ${verification.currency} instead of ${PAYMENT_CURRENCY} (${amounts}). The order is still awaiting payment.`,
+    },
+  }[verification.outcome as Exclude<AmountVerificationOutcome, 'matched'>];
+
+  const { error } = await supabaseAdmin.from('notifications').insert([
+    {
+      type: 'payment',
+      ...notification,
+      is_read: false,
+    },
+  ]);
+
+  if (error) {
+    console.error('Failed to create payment verification notification:', error);
+  }
+};
+
+export const paymentVerificationService = {
+  // Compare a provider charge (pesewas) with the amount expected in GHS
+  compare(charge: Pick<ProviderTransaction, 'amount' | 'currency'>, expectedTotal: number): AmountVerification {
+    const currency = (charge.currency || PAYMENT_CURRENCY).toUpperCase();
+    const charged = Math.round(Number(charge.amount) || 0);
+    const expected = toPesewas(expectedTotal);
+
+    let outcome: AmountVerificationOutcome = 'matched';
+    if (currency !== PAYMENT_CURRENCY) outcome = 'currency_mismatch';
+    else if (charged < expected) outcome = 'underpaid';
+    else if (charged > expected) outcome = 'overpaid';
+
+    return {
+      outcome,
+      expected_amount: expected / 100,
+      charged_amount: charged / 100,
+      difference: (charged - expected) / 100,
+      currency,
+      checked_at: new Date().toISOString(),
+    };
+  },
+
+  paymentStatusFor(verification: AmountVerification) {
+    return PAYMENT_STATUS_BY_OUTCOME[verification.outcome];
+  },
+
+  // The order a successful charge pays for, by the order id in its metadata or the order's payment reference
+  async findOrder(charge: ProviderTransaction, reference: string = charge.reference) {
+    const select = 'id, order_number, total, payment_status';
+
+    if (charge.metadata?.order_id) {
+      const { data, error } = await supabaseAdmin.from('orders').select(select).eq('id', charge.metadata.order_id).maybeSingle();
+      if (error) throw error;
+      if (data) return data;
+    }
+
+    const references = [...new Set([reference, charge.reference].filter(Boolean))];
+    const { data, error } = await supabaseAdmin
+      .from('orders')
+      .select(select)
+      .in('shipping_address->>payment_reference', references)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Record a successful charge against its order after checking the amount
+   * and currency. A matching charge (or an overpayment, which is flagged for
+   * refund) marks the order paid; an underpayment marks it partially_paid
+   * and a charge in another currency leaves it unpaid. Admins are notified
+   * of anything but a match. The outcome is stored on the transaction.
+   */
+  async settle(orderId: string, charge: ProviderTransaction, reference: string = charge.reference) {
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select('id, order_number, total, payment_status')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError) throw orderError;
+
+    const verification = this.compare(charge, order.total);
+    const paymentStatus = this.paymentStatusFor(verification);
+    const now = new Date().toISOString();
+
+    const references = [...new Set([reference, charge.reference].filter(Boolean))];
+    const { data: transactions, error: transactionsError } = await supabaseAdmin
+      .from('transactions')
+      .select('id, metadata')
+      .or(references.flatMap((ref) => [`transaction_reference.eq.${ref}`, `paystack_reference.eq.${ref}`]).join(','));
+
+    if (transactionsError) throw transactionsError;
+
+    // Admins hear about a mismatch once, however often the charge is settled (webhook retries, replays)
+    const alreadyNotified = (transactions || []).some(
+      (transaction: any) =>
+        transaction.metadata?.amount_verification?.admin_notified &&
+        transaction.metadata.amount_verification.outcome === verification.outcome
+    );
+    const notify = verification.outcome !== 'matched' && !alreadyNotified;
+    if (notify) verification.admin_notified = true;
+
+    for (const transaction of transactions || []) {
+      const { error } = await supabaseAdmin
+        .from('transactions')
+        .update({
+          payment_status: paymentStatus,
+          metadata: {
+            ...(transaction.metadata || {}),
+            amount_verification: verification,
+            ...(verification.outcome === 'overpaid'
+              ? { overpayment: { amount: verification.difference, currency: verification.currency, status: 'pending_refund' } }
+              : {}),
+          },
+          updated_at: now,
+        })
+        .eq('id', transaction.id)
+        .not('payment_status', 'in', SETTLED_PAYMENT_STATUSES);
+
+      if (error) {
+        console.error(`Failed to record amount verification on transaction ${transaction.id}:`, error);
+      }
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('orders')
+      .update({ payment_status: paymentStatus, updated_at: now })
+      .eq('id', order.id)
+      .not('payment_status', 'in', SETTLED_PAYMENT_STATUSES);
+
+    if (updateError) throw updateError;
+
+    if (notify) {
+      console.warn(`⚠️ Payment ${reference} for order ${order.order_number}: ${verification.outcome}`, verification);
+      await notifyAdmins(order, verification, reference);
+    }
+
+    return { verification, paymentStatus };
+  },
+};
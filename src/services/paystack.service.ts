@@ -0,0 +1,159 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import {
+  InitializePaymentInput,
+  ListTransactionsInput,
+  MobileMoneyChargeInput,
+  PaymentProvider,
+  ProviderCharge,
+  ProviderRefund,
+  ProviderTransaction,
+} from './paymentProvider.service';
+
+const PAYSTACK_API_URL = 'https://api.paystack.co';
+
+const getSecretKey = () => {
+  const secretKey = process.env.PAYSTACK_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('Paystack secret key not configured');
+  }
+  return secretKey;
+};
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${getSecretKey()}`,
+  'Content-Type': 'application/json',
+});
+
+// Paystack answers a declined charge or a wrong OTP with HTTP 400 and the charge's state in the body
+const toCharge = (body: any, reference: string): ProviderCharge => ({
+  reference: body?.data?.reference || reference,
+  status: body?.data?.status || (body?.status ? 'pending' : 'failed'),
+  display_text: body?.data?.display_text || body?.data?.message || body?.message || null,
+});
+
+const postCharge = async (path: string, payload: Record<string, unknown>, reference: string) => {
+  try {
+    const response = await axios.post(`${PAYSTACK_API_URL}${path}`, payload, { headers: authHeaders() });
+    return toCharge(response.data, reference);
+  } catch (error: any) {
+    if (error.response?.status === 400 && error.response.data) {
+      return toCharge(error.response.data, reference);
+    }
+    throw error;
+  }
+};
+
+export const paystackService: PaymentProvider = {
+  name: 'paystack',
+
+  isConfigured() {
+    return !!process.env.PAYSTACK_SECRET_KEY;
+  },
+
+  async initialize(input: InitializePaymentInput) {
+    const response = await axios.post(
+      `${PAYSTACK_API_URL}/transaction/initialize`,
+      { ...input, amount: Math.round(input.amount), currency: 'GHS' },
+      { headers: authHeaders() }
+    );
+
+    if (!response.data.status) {
+      throw new Error(response.data.message || 'Failed to initialize transaction');
+    }
+    return response.data.data;
+  },
+
+  async verify(reference: string): Promise<ProviderTransaction | null> {
+    try {
+      const response = await axios.get(`${PAYSTACK_API_URL}/transaction/verify/${encodeURIComponent(reference)}`, {
+        headers: authHeaders(),
+      });
+      return response.data.status ? response.data.data : null;
+    } catch (error: any) {
+      if (error.response?.status === 400 || error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  // Paystack signs the request body with HMAC-SHA512 of the secret key (X-Paystack-Signature)
+  verifyWebhook(payload: string, headers: Record<string, string | string[] | undefined>) {
+    const signature = headers['x-paystack-signature'];
+    if (typeof signature !== 'string' || !process.env.PAYSTACK_SECRET_KEY) {
+      return false;
+    }
+
+    const expected = crypto.createHmac('sha512', process.env.PAYSTACK_SECRET_KEY).update(payload).digest('hex');
+    return (
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+    );
+  },
+
+  async refund(input: { reference: string; amount?: number; note?: string }): Promise<ProviderRefund> {
+    const response = await axios.post(
+      `${PAYSTACK_API_URL}/refund`,
+      {
+        transaction: input.reference,
+        ...(input.amount !== undefined ? { amount: Math.round(input.amount) } : {}),
+        ...(input.note ? { merchant_note: input.note } : {}),
+        currency: 'GHS',
+      },
+      { headers: authHeaders() }
+    );
+
+    if (!response.data.status) {
+      throw new Error(response.data.message || 'Failed to create refund');
+    }
+    return response.data.data;
+  },
+
+  async listTransactions(input: ListTransactionsInput = {}) {
+    const page = input.page || 1;
+    const response = await axios.get(`${PAYSTACK_API_URL}/transaction`, {
+      headers: authHeaders(),
+      params: {
+        page,
+        perPage: input.perPage || 100,
+        ...(input.from ? { from: input.from } : {}),
+        ...(input.to ? { to: input.to } : {}),
+        ...(input.status ? { status: input.status } : {}),
+      },
+    });
+
+    if (!response.data.status) {
+      throw new Error(response.data.message || 'Failed to list transactions');
+    }
+
+    const pageCount = Number(response.data.meta?.pageCount) || page;
+    return { transactions: response.data.data || [], hasMore: page < pageCount };
+  },
+
+  async chargeMobileMoney(input: MobileMoneyChargeInput) {
+    return postCharge(
+      '/charge',
+      {
+        email: input.email,
+        amount: Math.round(input.amount),
+        currency: 'GHS',
+        reference: input.reference,
+        mobile_money: { phone: input.phone, provider: input.provider },
+        ...(input.metadata ? { metadata: input.metadata } : {}),
+      },
+      input.reference
+    );
+  },
+
+  async submitChargeOtp(input: { reference: string; otp: string }) {
+    return postCharge('/charge/submit_otp', { otp: input.otp, reference: input.reference }, input.reference);
+  },
+
+  async checkCharge(reference: string) {
+    const response = await axios.get(`${PAYSTACK_API_URL}/charge/${encodeURIComponent(reference)}`, {
+      headers: authHeaders(),
+    });
+    return toCharge(response.data, reference);
+  },
+};
@@ -12,6 +12,7 @@ interface OrderData {
   subtotal: number;
   discount: number;
   tax: number;
+  tax_breakdown?: Array<{ name: string; rate: number; type: string; amount: number }> | null;
   shipping_fee?: number;
   delivery_fee?: number; // Legacy support
   total: number;
@@ -41,15 +42,149 @@ interface OrderData {
   }>;
 }
 
+interface QuoteData {
+  quote_number: string;
+  created_at: string;
+  expires_at?: string | null;
+  customer_name?: string | null;
+  customer_email?: string | null;
+  customer_phone?: string | null;
+  delivery_address?: any;
+  delivery_option?: { name?: string } | null;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  tax_breakdown?: Array<{ name: string; rate: number; type: string; amount: number }> | null;
+  shipping_fee?: number;
+  total: number;
+  items: Array<{
+    product_name: string;
+    quantity: number;
+    unit_price: number;
+    subtotal?: number;
+  }>;
+  payment_url?: string | null;
+}
+
+export type OrderDocumentType = 'invoice' | 'packing_slip';
+
 class PDFService {
   async generateOrderPDF(orderData: OrderData): Promise<Buffer> {
+    return this.renderDocument('ORDER INVOICE', (doc) => this.buildInvoice(doc, orderData));
+  }
+
+  // One document with a page per order, used for bulk printing from the dashboard
+  async generateBulkOrderPDF(orders: OrderData[], type: OrderDocumentType): Promise<Buffer> {
+    const title = type === 'packing_slip' ? 'PACKING SLIP' : 'ORDER INVOICE';
+    return this.renderPages(
+      orders.map((orderData) => ({
+        title,
+        build: (doc: any) =>
+          type === 'packing_slip' ? this.buildPackingSlip(doc, orderData) : this.buildInvoice(doc, orderData),
+      }))
+    );
+  }
+
+  // Quote for a draft order: same layout as the invoice plus validity and payment link
+  async generateQuotePDF(quote: QuoteData): Promise<Buffer> {
+    return this.renderDocument('QUOTATION', (doc) => {
+      if (!quote || !quote.quote_number) {
+        throw new Error('Invalid quote data: quote_number is required');
+      }
+
+      const y = 170;
+      doc.fontSize(12)
+         .fillColor('#1A1A1A')
+         .text('Quote Information', 50, y)
+         .fontSize(10)
+         .fillColor('#3A3A3A');
+
+      const quoteInfo = [
+        ['Quote Number:', quote.quote_number],
+        ['Quote Date:', new Date(quote.created_at).toLocaleDateString()],
+        ['Valid Until:', quote.expires_at ? new Date(quote.expires_at).toLocaleDateString() : 'Not set'],
+        ['Delivery:', quote.delivery_option?.name || 'Not selected'],
+      ];
+
+      let currentY = y + 20;
+      quoteInfo.forEach(([label, value]) => {
+        doc.text(label, 50, currentY)
+           .text(value, 200, currentY);
+        currentY += 15;
+      });
+
+      const orderShape = {
+        order_number: quote.quote_number,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        tax: quote.tax,
+        tax_breakdown: quote.tax_breakdown,
+        shipping_fee: quote.shipping_fee,
+        total: quote.total,
+        shipping_address: {
+          ...(quote.delivery_address || {}),
+          full_name: quote.customer_name || quote.delivery_address?.full_name,
+          email: quote.customer_email || quote.delivery_address?.email,
+        },
+        items: quote.items,
+      } as unknown as OrderData;
+
+      this.addCustomerInfo(doc, orderShape);
+      this.addOrderItems(doc, orderShape);
+      this.addOrderSummary(doc, orderShape);
+
+      if (quote.payment_url) {
+        doc.fontSize(10)
+           .fillColor('#1A1A1A')
+           .text('Pay online:', 50, 610)
+           .fillColor('#00afef')
+           .text(quote.payment_url, 120, 610, { link: quote.payment_url, underline: true, width: 430 });
+      }
+
+      this.addFooter(doc);
+    });
+  }
+
+  private buildInvoice(doc: any, orderData: OrderData) {
+    // Validate required data
+    if (!orderData || !orderData.order_number) {
+      throw new Error('Invalid order data: order_number is required');
+    }
+
+    // Order Information
+    this.addOrderInfo(doc, orderData);
+
+    // Customer Information
+    this.addCustomerInfo(doc, orderData);
+
+    // Order Items
+    this.addOrderItems(doc, orderData);
+
+    // Order Summary
+    this.addOrderSummary(doc, orderData);
+
+    // Footer
+    this.addFooter(doc);
+  }
+
+  // Warehouse copy: what to pick and where it goes, no prices
+  private buildPackingSlip(doc: any, orderData: OrderData) {
+    if (!orderData || !orderData.order_number) {
+      throw new Error('Invalid order data: order_number is required');
+    }
+
+    this.addOrderInfo(doc, orderData);
+    this.addCustomerInfo(doc, orderData);
+    this.addPackingItems(doc, orderData);
+  }
+
+  private renderDocument(title: string, build: (doc: any) => void): Promise<Buffer> {
+    return this.renderPages([{ title, build }]);
+  }
+
+  private renderPages(pages: Array<{ title: string; build: (doc: any) => void }>): Promise<Buffer> {
     return new Promise(async (resolve, reject) => {
       try {
-        // Validate required data
-        if (!orderData || !orderData.order_number) {
-          throw new Error('Invalid order data: order_number is required');
-        }
-
         const doc = new PDFDocument({ margin: 50 });
         const buffers: Buffer[] = [];
 
@@ -66,29 +201,28 @@ class PDFService {
           reject(error);
         });
 
-        // Download logo first (async)
-        try {
-          await this.addHeader(doc);
-        } catch (error) {
-          // If header fails, continue without logo
-          console.warn('Failed to load logo, using text fallback:', error);
-          this.addHeaderFallback(doc);
-        }
-        
-        // Order Information
-        this.addOrderInfo(doc, orderData);
-        
-        // Customer Information
-        this.addCustomerInfo(doc, orderData);
-        
-        // Order Items
-        this.addOrderItems(doc, orderData);
-        
-        // Order Summary
-        this.addOrderSummary(doc, orderData);
-        
-        // Footer
-        this.addFooter(doc);
+        // Download logo first (async), once for every page
+        const logoBuffer = await this.loadLogo();
+
+        pages.forEach((page, index) => {
+          if (index > 0) {
+            doc.addPage();
+          }
+
+          if (!logoBuffer) {
+            this.addHeaderFallback(doc, page.title);
+          } else {
+            try {
+              this.addHeader(doc, page.title, logoBuffer);
+            } catch (error) {
+              // If the logo can't be drawn, continue without it
+              console.warn('Failed to add logo, using text fallback:', error);
+              this.addHeaderFallback(doc, page.title);
+            }
+          }
+
+          page.build(doc);
+        });
 
         doc.end();
       } catch (error) {
@@ -97,64 +231,51 @@ class PDFService {
     });
   }
 
-  private async addHeader(doc: any) {
+  private async loadLogo(): Promise<Buffer | null> {
+    // Download logo from R2
+    // PDFKit supports JPEG, PNG, GIF - try PNG first, then fallback to WebP attempt
+    const assetBase = process.env.R2_PUBLIC_URL?.replace(/\/$/, '') || 'https://files.hogtechgh.com';
+
+    // Try PNG first (PDFKit supports PNG natively)
     try {
-      // Download logo from R2
-      // PDFKit supports JPEG, PNG, GIF - try PNG first, then fallback to WebP attempt
-      const assetBase = process.env.R2_PUBLIC_URL?.replace(/\/$/, '') || 'https://files.hogtechgh.com';
-      
-      // Try PNG first (PDFKit supports PNG natively)
-      let logoUrl = `${assetBase}/hogtech_logo_primary.png`;
-      let logoBuffer: Buffer | null = null;
-      
-      try {
-        const logoResponse = await axios.get(logoUrl, { 
-          responseType: 'arraybuffer',
-          timeout: 5000
-        });
-        logoBuffer = Buffer.from(logoResponse.data);
-      } catch (pngError) {
-        // If PNG doesn't exist, try WebP (may not work but worth trying)
-        console.warn('PNG logo not found, trying WebP:', pngError);
-        logoUrl = `${assetBase}/hogtech_logo_primary.webp`;
-        try {
-          const webpResponse = await axios.get(logoUrl, { 
-            responseType: 'arraybuffer',
-            timeout: 5000
-          });
-          logoBuffer = Buffer.from(webpResponse.data);
-        } catch (webpError) {
-          throw new Error('Logo not found (tried PNG and WebP)');
-        }
-      }
-      
-      // Try to add logo image (60x60px at top left)
-      if (logoBuffer) {
-        try {
-          doc.image(logoBuffer, 50, 50, { width: 60, height: 60 });
-        } catch (imageError) {
-          // If image format is not supported, skip logo
-          console.warn('Failed to add logo image to PDF:', imageError);
-          throw new Error('Image format not supported by PDFKit');
-        }
-      }
-      
-      // Company name next to logo
-      doc.fontSize(24)
-         .fillColor('#00afef')
-         .text('HOGTECH', 120, 55)
-         .fontSize(12)
-         .fillColor('#3A3A3A')
-         .text('Hedgehog Technologies', 120, 80);
-    } catch (error) {
-      // If logo fails, use fallback
-      throw error;
+      const logoResponse = await axios.get(`${assetBase}/hogtech_logo_primary.png`, {
+        responseType: 'arraybuffer',
+        timeout: 5000
+      });
+      return Buffer.from(logoResponse.data);
+    } catch (pngError) {
+      // If PNG doesn't exist, try WebP (may not work but worth trying)
+      console.warn('PNG logo not found, trying WebP:', pngError);
+    }
+
+    try {
+      const webpResponse = await axios.get(`${assetBase}/hogtech_logo_primary.webp`, {
+        responseType: 'arraybuffer',
+        timeout: 5000
+      });
+      return Buffer.from(webpResponse.data);
+    } catch (webpError) {
+      console.warn('Failed to load logo, using text fallback: Logo not found (tried PNG and WebP)');
+      return null;
     }
+  }
+
+  private addHeader(doc: any, title: string, logoBuffer: Buffer) {
+    // Logo image (60x60px at top left); throws if PDFKit can't read the format
+    doc.image(logoBuffer, 50, 50, { width: 60, height: 60 });
+
+    // Company name next to logo
+    doc.fontSize(24)
+       .fillColor('#00afef')
+       .text('HOGTECH', 120, 55)
+       .fontSize(12)
+       .fillColor('#3A3A3A')
+       .text('Hedgehog Technologies', 120, 80);
 
     // Document Title
     doc.fontSize(18)
        .fillColor('#1A1A1A')
-       .text('ORDER INVOICE', 50, 120);
+       .text(title, 50, 120);
 
     // Line separator
     doc.moveTo(50, 150)
@@ -162,7 +283,7 @@ class PDFService {
        .stroke('#EDEDED');
   }
 
-  private addHeaderFallback(doc: any) {
+  private addHeaderFallback(doc: any, title: string) {
     // Fallback to text if logo fails to load
     doc.fontSize(24)
        .fillColor('#00afef')
@@ -174,7 +295,7 @@ class PDFService {
     // Document Title
     doc.fontSize(18)
        .fillColor('#1A1A1A')
-       .text('ORDER INVOICE', 50, 120);
+       .text(title, 50, 120);
 
     // Line separator
     doc.moveTo(50, 150)
@@ -281,6 +402,55 @@ class PDFService {
     });
   }
 
+  private addPackingItems(doc: any, orderData: OrderData) {
+    const y = 380;
+
+    doc.fontSize(12)
+       .fillColor('#1A1A1A')
+       .text('Items to Pack', 50, y);
+
+    const items = orderData.order_items || orderData.items || [];
+
+    if (items.length === 0) {
+      doc.fontSize(10)
+         .fillColor('#3A3A3A')
+         .text('No items found', 50, y + 30);
+      return;
+    }
+
+    const tableY = y + 20;
+    doc.fontSize(10)
+       .fillColor('#3A3A3A')
+       .text('Product', 50, tableY)
+       .text('Options', 300, tableY)
+       .text('Qty', 450, tableY)
+       .text('Packed', 500, tableY);
+
+    doc.moveTo(50, tableY + 15)
+       .lineTo(550, tableY + 15)
+       .stroke('#EDEDED');
+
+    let currentY = tableY + 25;
+    items.forEach((item: any) => {
+      // order_items stores the selection in variant_options
+      const variants = item.variant_options || item.selected_variants;
+      const options = variants && typeof variants === 'object'
+        ? Object.entries(variants)
+            .map(([key, value]: [string, any]) => `${key}: ${typeof value === 'object' && value !== null ? value.name || value.value || '' : value}`)
+            .join(', ')
+        : '';
+
+      doc.fillColor('#1A1A1A')
+         .text(item.product_name || 'Unknown Product', 50, currentY, { width: 240 })
+         .text(options || '-', 300, currentY, { width: 140 })
+         .text((item.quantity || 0).toString(), 450, currentY)
+         .rect(510, currentY, 10, 10)
+         .stroke('#3A3A3A');
+
+      currentY += 20;
+    });
+  }
+
   private addOrderSummary(doc: any, orderData: OrderData) {
     const y = 500;
     
@@ -297,7 +467,12 @@ class PDFService {
       summaryItems.push(['Discount:', `-GHS ${orderData.discount.toFixed(2)}`]);
     }
     
-    if (orderData.tax > 0) {
+    if (Array.isArray(orderData.tax_breakdown) && orderData.tax_breakdown.length > 0) {
+      orderData.tax_breakdown.forEach((line) => {
+        const rateLabel = line.type === 'percentage' ? ` (${Number((Number(line.rate) * 100).toFixed(2))}%)` : '';
+        summaryItems.push([`${line.name}${rateLabel}:`, `GHS ${Number(line.amount).toFixed(2)}`]);
+      });
+    } else if (orderData.tax > 0) {
       summaryItems.push(['Tax:', `GHS ${orderData.tax.toFixed(2)}`]);
     }
     
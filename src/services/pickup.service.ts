@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+import enhancedEmailService from './enhanced-email.service';
+import { customerService } from './customer.service';
+
+const DEFAULT_HOLD_DAYS = 7;
+const DEFAULT_REMINDER_INTERVAL_HOURS = 48;
+
+// No 0/O or 1/I so codes survive being read out at the counter
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+// Payment states where the customer's money has been taken
+const PREPAID_PAYMENT_STATUSES = ['paid', 'partially_paid', 'partially_refunded'];
+
+// Ghana numbers are written as 0XXXXXXXXX or +233XXXXXXXXX; compare the subscriber part
+const PHONE_MATCH_DIGITS = 9;
+
+const ORDER_WITH_CUSTOMER_SELECT = `
+  *,
+  user:users!orders_user_id_fkey(id, first_name, last_name, email, phone),
+  customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+  order_items:order_items(*)
+`;
+
+export type PickupVerification =
+  | { success: true; order: any; pickup: any }
+  | { success: false; status: number; message: string; data?: Record<string, unknown> };
+
+export const isPickupOrder = (order: { shipping_address?: any } | null | undefined) =>
+  order?.shipping_address?.delivery_option?.type === 'pickup';
+
+const normalizePhone = (value?: string | null) => (value || '').replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS);
+
+export const pickupService = {
+  generateCode() {
+    return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+  },
+
+  // What the QR code in the email encodes; the staff app reads the order number and code from it
+  buildQrPayload(orderNumber: string, code: string) {
+    return `HOGTECH-PICKUP:${orderNumber}:${code}`;
+  },
+
+  async renderQrCode(orderNumber: string, code: string): Promise<Buffer> {
+    return QRCode.toBuffer(this.buildQrPayload(orderNumber, code), { type: 'png', width: 240, margin: 1 });
+  },
+
+  async getHoldDays() {
+    return settingsService.getNumberSetting('pickup_hold_days', DEFAULT_HOLD_DAYS);
+  },
+
+  async getReminderIntervalHours() {
+    return settingsService.getNumberSetting('pickup_reminder_interval_hours', DEFAULT_REMINDER_INTERVAL_HOURS);
+  },
+
+  async getPickup(orderId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('order_pickups')
+      .select('*')
+      .eq('order_id', orderId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Issue a fresh code and hold period for an order that is ready. Marking an
+   * order ready again (e.g. after a lost code) replaces the old code.
+   */
+  async preparePickup(orderId: string) {
+    const now = new Date();
+    const holdDays = await this.getHoldDays();
+
+    const { data, error } = await supabaseAdmin
+      .from('order_pickups')
+      .upsert(
+        {
+          order_id: orderId,
+          pickup_code: this.generateCode(),
+          ready_at: now.toISOString(),
+          expires_at: new Date(now.getTime() + holdDays * 24 * 60 * 60 * 1000).toISOString(),
+          reminders_sent: 0,
+          last_reminded_at: null,
+          collected_at: null,
+          collected_by: null,
+          cancelled_at: null,
+          updated_at: now.toISOString(),
+        },
+        { onConflict: 'order_id' }
+      )
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Close the pickup when the order leaves ready_for_pickup; failures are logged only
+  async closePickup(orderId: string, outcome: 'collected' | 'cancelled', actorId?: string | null) {
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from('order_pickups')
+      .update(
+        outcome === 'collected'
+          ? { collected_at: now, collected_by: actorId || null, updated_at: now }
+          : { cancelled_at: now, updated_at: now }
+      )
+      .eq('order_id', orderId)
+      .is('collected_at', null)
+      .is('cancelled_at', null);
+
+    if (error) {
+      console.error(`Failed to close pickup for order ${orderId}:`, error);
+    }
+  },
+
+  /**
+   * Staff check at the counter: the order must be waiting for pickup and both
+   * the code and the customer's phone must match. Mismatches share one
+   * message so the response does not reveal which part was wrong.
+   */
+  async verify(input: { order_number: string; code: string; phone: string }): Promise<PickupVerification> {
+    const mismatch = { success: false as const, status: 400, message: 'Pickup code or phone number does not match this order' };
+
+    const { data: order, error } = await supabaseAdmin
+      .from('orders')
+      .select(ORDER_WITH_CUSTOMER_SELECT)
+      .eq('order_number', input.order_number.trim())
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order) {
+      return { success: false, status: 404, message: 'Order not found' };
+    }
+
+    const orderData: any = order;
+    if (orderData.status !== 'ready_for_pickup') {
+      return {
+        success: false,
+        status: 409,
+        message: 'This order is not waiting for pickup',
+        data: { current_status: orderData.status },
+      };
+    }
+
+    const pickup = await this.getPickup(orderData.id);
+    if (!pickup || pickup.collected_at || pickup.cancelled_at) {
+      return { success: false, status: 409, message: 'This order is not waiting for pickup' };
+    }
+
+    const expected = Buffer.from(String(pickup.pickup_code).toUpperCase());
+    const received = Buffer.from(input.code.trim().toUpperCase());
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return mismatch;
+    }
+
+    const phones = [orderData.customer?.phone, orderData.shipping_address?.phone, orderData.user?.phone]
+      .map(normalizePhone)
+      .filter((phone) => phone.length === PHONE_MATCH_DIGITS);
+    if (!phones.includes(normalizePhone(input.phone))) {
+      return mismatch;
+    }
+
+    return { success: true, order: orderData, pickup };
+  },
+
+  // Open pickups whose last reminder (or the ready email) is older than the interval
+  async findDueReminders(now: Date = new Date()) {
+    const intervalHours = await this.getReminderIntervalHours();
+    const cutoff = new Date(now.getTime() - intervalHours * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabaseAdmin
+      .from('order_pickups')
+      .select('*')
+      .is('collected_at', null)
+      .is('cancelled_at', null)
+      .gt('expires_at', now.toISOString())
+      .or(`and(last_reminded_at.is.null,ready_at.lt."${cutoff}"),last_reminded_at.lt."${cutoff}"`)
+      .limit(100);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async findExpired(now: Date = new Date()) {
+    const { data, error } = await supabaseAdmin
+      .from('order_pickups')
+      .select('*, order:orders(id, order_number, total, payment_method, payment_status, review_flags)')
+      .is('collected_at', null)
+      .is('cancelled_at', null)
+      .is('refund_flagged_at', null)
+      .lte('expires_at', now.toISOString())
+      .limit(100);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Only orders paid for in advance are held for a refund when they expire; the rest are cancelled
+  isPrepaid(order: { payment_method?: string | null; payment_status?: string | null }) {
+    return order.payment_method !== 'pay_on_pickup' && PREPAID_PAYMENT_STATUSES.includes(order.payment_status || '');
+  },
+
+  /**
+   * A prepaid pickup order that was never collected. Cancelling it would
+   * fail its payment and block the refund, so the order is left as it is,
+   * flagged for a refund, and admins are told once.
+   */
+  async flagForRefund(pickup: { id: string; order: any }) {
+    const order = pickup.order;
+    const now = new Date().toISOString();
+
+    const { error: orderError } = await supabaseAdmin
+      .from('orders')
+      .update({
+        review_flags: [...(order.review_flags || []), { type: 'refund_due', reason: 'pickup_not_collected' }],
+        updated_at: now,
+      })
+      .eq('id', order.id);
+
+    if (orderError) throw orderError;
+
+    const { error: pickupError } = await supabaseAdmin
+      .from('order_pickups')
+      .update({ refund_flagged_at: now, updated_at: now })
+      .eq('id', pickup.id);
+
+    if (pickupError) throw pickupError;
+
+    const { error: notifError } = await supabaseAdmin.from('notifications').insert([
+      {
+        type: 'order',
+        title: `Uncollected paid pickup: ${order.order_number}`,
+        message: `Order ${order.order_number} (GHS ${(Number(order.total) || 0).toFixed(2)}) was paid for but not collected before the pickup deadline. Refund the customer and cancel the order.`,
+        is_read: false,
+      },
+    ]);
+
+    if (notifError) {
+      console.error('Failed to create uncollected pickup notification:', notifError);
+    }
+  },
+
+  async recordReminder(pickup: { id: string; reminders_sent?: number | null }) {
+    const now = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from('order_pickups')
+      .update({
+        reminders_sent: (pickup.reminders_sent || 0) + 1,
+        last_reminded_at: now,
+        updated_at: now,
+      })
+      .eq('id', pickup.id);
+
+    if (error) throw error;
+  },
+
+  // Email the pickup code and QR; errors are logged so a status change never fails on email
+  async notifyCustomer(orderId: string, pickup: any, options: { reminder?: boolean } = {}) {
+    try {
+      const { data: orderData, error } = await supabaseAdmin
+        .from('orders')
+        .select(ORDER_WITH_CUSTOMER_SELECT)
+        .eq('id', orderId)
+        .single();
+
+      if (error || !orderData) {
+        console.warn('Could not load order for pickup email:', error);
+        return;
+      }
+
+      const { email: customerEmail, name: customerName } = customerService.getOrderContact(orderData);
+
+      if (!customerEmail) {
+        console.warn('No email found for pickup notification. Order:', orderId);
+        return;
+      }
+
+      const qrCode = await this.renderQrCode(orderData.order_number, pickup.pickup_code);
+      const result = await enhancedEmailService.sendPickupReady(
+        {
+          ...orderData,
+          customer_name: customerName,
+          customer_email: customerEmail,
+          items: orderData.order_items || [],
+        },
+        { code: pickup.pickup_code, expiresAt: pickup.expires_at, qrCode },
+        options.reminder
+      );
+
+      if (!result.success && !result.skipped) {
+        console.error('Failed to send pickup email:', result.reason);
+      }
+    } catch (emailError: any) {
+      console.error('Error sending pickup email:', emailError?.message || emailError);
+    }
+  },
+};
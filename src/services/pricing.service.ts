@@ -0,0 +1,291 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { settingsService } from './settings.service';
+
+export interface PricingInputLine {
+  product_id?: string | null;
+  deal_product_id?: string | null;
+  product_name?: string | null;
+  quantity: number;
+  unit_price?: number | null;
+  selected_variants?: Record<string, any> | null;
+}
+
+export type PriceSource = 'product' | 'discount_price' | 'flash_deal' | 'deal' | 'standalone_deal';
+
+export interface PricedLine {
+  index: number;
+  product_id: string | null;
+  deal_product_id: string | null;
+  product_name: string;
+  quantity: number;
+  base_unit_price: number;
+  variant_adjustment: number;
+  unit_price: number;
+  subtotal: number;
+  price_source: PriceSource;
+  client_unit_price: number | null;
+}
+
+export interface PriceMismatch {
+  index: number;
+  product_id: string | null;
+  product_name: string;
+  quantity: number;
+  client_unit_price: number | null;
+  server_unit_price: number | null;
+  difference: number | null;
+  reason: 'price_changed' | 'unavailable';
+}
+
+export interface PricingResult {
+  lines: PricedLine[];
+  mismatches: PriceMismatch[];
+  subtotal: number;
+}
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const positive = (value: any): number | null => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const isWithinWindow = (start?: string | null, end?: string | null, now = new Date()) => {
+  if (start && new Date(start) > now) return false;
+  if (end && new Date(end) < now) return false;
+  return true;
+};
+
+const isDealActive = (deal: any, now = new Date()) =>
+  !!deal && deal.is_active !== false && isWithinWindow(deal.start_date, deal.end_date, now);
+
+const dealUnitPrice = (dealProduct: any, basePrice: number | null) => {
+  const explicit = positive(dealProduct.deal_price);
+  if (explicit !== null) return explicit;
+
+  const percentage = Number(dealProduct.discount_percentage || dealProduct.deal?.discount_percentage || 0);
+  if (basePrice !== null && percentage > 0) {
+    return basePrice * (1 - percentage / 100);
+  }
+  return null;
+};
+
+const normalizeKey = (value: any) => String(value ?? '').trim().toLowerCase();
+
+const selectedValue = (value: any) =>
+  value && typeof value === 'object' ? normalizeKey(value.value ?? value.label ?? value.name) : normalizeKey(value);
+
+/**
+ * Sum of variant price adjustments for a selection, looked up from
+ * product_variants.price_adjustment and product_attribute_options.price_modifier.
+ * Client-supplied modifiers are ignored.
+ */
+const resolveVariantAdjustment = (
+  selection: Record<string, any> | null | undefined,
+  variants: any[],
+  optionMappings: any[]
+) => {
+  if (!selection || typeof selection !== 'object') return 0;
+
+  let adjustment = 0;
+  for (const [rawKey, rawValue] of Object.entries(selection)) {
+    const key = normalizeKey(rawKey);
+    const value = selectedValue(rawValue);
+    if (!value) continue;
+
+    const option = optionMappings.find((mapping) => {
+      const attribute = mapping.attribute || {};
+      const opt = mapping.option || {};
+      const attributeMatches = [attribute.name, attribute.slug].map(normalizeKey).includes(key);
+      const optionMatches = [opt.value, opt.label].map(normalizeKey).includes(value);
+      return attributeMatches && optionMatches;
+    });
+    if (option) {
+      adjustment += Number(option.option?.price_modifier || 0);
+      continue;
+    }
+
+    const variant = variants.find(
+      (row) =>
+        [row.type, row.label].map(normalizeKey).includes(key) &&
+        [row.value, row.label].map(normalizeKey).includes(value)
+    ) || variants.find((row) => [row.value, row.label].map(normalizeKey).includes(value) && normalizeKey(row.type) === key);
+    if (variant) {
+      adjustment += Number(variant.price_adjustment || 0);
+    }
+  }
+
+  return adjustment;
+};
+
+export const pricingService = {
+  async getPriceTolerance(): Promise<number> {
+    return settingsService.getNumberSetting('order_price_tolerance', 0.5);
+  },
+
+  /**
+   * Re-price order lines from the catalogue. Lines whose client unit price
+   * differs from the server price by more than the tolerance are returned as
+   * mismatches; lines that cannot be priced at all are flagged as unavailable.
+   */
+  async priceOrderItems(inputLines: PricingInputLine[], options: { tolerance?: number } = {}): Promise<PricingResult> {
+    const tolerance = options.tolerance ?? (await this.getPriceTolerance());
+    const now = new Date();
+
+    const productIds = Array.from(
+      new Set(inputLines.map((line) => line.product_id).filter((id): id is string => !!id && UUID_PATTERN.test(id)))
+    );
+    const dealProductIds = Array.from(
+      new Set(inputLines.map((line) => line.deal_product_id).filter((id): id is string => !!id && UUID_PATTERN.test(id)))
+    );
+
+    const [productsResult, dealProductsResult, standaloneResult, variantsResult, mappingsResult] = await Promise.all([
+      productIds.length > 0
+        ? supabaseAdmin
+            .from('products')
+            .select('id, name, price, discount_price, is_flash_deal, flash_deal_start, flash_deal_end, flash_deal_discount, flash_deal_price')
+            .in('id', productIds)
+        : Promise.resolve({ data: [], error: null }),
+      productIds.length > 0
+        ? supabaseAdmin
+            .from('deal_products')
+            .select('id, product_id, deal_price, discount_percentage, deal:deals(id, is_active, start_date, end_date, discount_percentage)')
+            .in('product_id', productIds)
+        : Promise.resolve({ data: [], error: null }),
+      dealProductIds.length > 0
+        ? supabaseAdmin
+            .from('deal_products')
+            .select('id, product_id, product_name, original_price, deal_price, discount_percentage, deal:deals(id, is_active, start_date, end_date, discount_percentage)')
+            .in('id', dealProductIds)
+        : Promise.resolve({ data: [], error: null }),
+      productIds.length > 0
+        ? supabaseAdmin
+            .from('product_variants')
+            .select('product_id, type, value, label, price_adjustment')
+            .in('product_id', productIds)
+        : Promise.resolve({ data: [], error: null }),
+      productIds.length > 0
+        ? supabaseAdmin
+            .from('product_attribute_option_mappings')
+            .select('product_id, attribute:product_attributes(name, slug), option:product_attribute_options(value, label, price_modifier)')
+            .in('product_id', productIds)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    for (const result of [productsResult, dealProductsResult, standaloneResult, variantsResult, mappingsResult]) {
+      if (result.error) throw result.error;
+    }
+
+    const products = new Map<string, any>((productsResult.data || []).map((product: any) => [product.id, product]));
+    const standaloneDeals = new Map<string, any>((standaloneResult.data || []).map((deal: any) => [deal.id, deal]));
+
+    const lines: PricedLine[] = [];
+    const mismatches: PriceMismatch[] = [];
+
+    inputLines.forEach((input, index) => {
+      const quantity = Number(input.quantity) || 1;
+      const clientUnitPrice = input.unit_price === undefined || input.unit_price === null ? null : Number(input.unit_price);
+      const product = input.product_id ? products.get(input.product_id) : null;
+      const standalone = !product && input.deal_product_id ? standaloneDeals.get(input.deal_product_id) : null;
+
+      let basePrice: number | null = null;
+      let priceSource: PriceSource = 'product';
+      let variantAdjustment = 0;
+
+      if (product) {
+        const listPrice = positive(product.price);
+        const candidates: Array<{ price: number; source: PriceSource }> = [];
+        if (listPrice !== null) candidates.push({ price: listPrice, source: 'product' });
+
+        const discountPrice = positive(product.discount_price);
+        if (discountPrice !== null) candidates.push({ price: discountPrice, source: 'discount_price' });
+
+        if (product.is_flash_deal && isWithinWindow(product.flash_deal_start, product.flash_deal_end, now)) {
+          const flashPrice =
+            positive(product.flash_deal_price) ??
+            (listPrice !== null && Number(product.flash_deal_discount) > 0
+              ? listPrice * (1 - Number(product.flash_deal_discount) / 100)
+              : null);
+          if (flashPrice !== null) candidates.push({ price: flashPrice, source: 'flash_deal' });
+        }
+
+        (dealProductsResult.data || [])
+          .filter((dealProduct: any) => dealProduct.product_id === product.id && isDealActive(dealProduct.deal, now))
+          .forEach((dealProduct: any) => {
+            const price = dealUnitPrice(dealProduct, listPrice);
+            if (price !== null) candidates.push({ price, source: 'deal' });
+          });
+
+        const best = candidates.sort((a, b) => a.price - b.price)[0];
+        if (best) {
+          basePrice = best.price;
+          priceSource = best.source;
+        }
+
+        variantAdjustment = resolveVariantAdjustment(
+          input.selected_variants,
+          (variantsResult.data || []).filter((row: any) => row.product_id === product.id),
+          (mappingsResult.data || []).filter((row: any) => row.product_id === product.id)
+        );
+      } else if (standalone) {
+        priceSource = 'standalone_deal';
+        const originalPrice = positive(standalone.original_price);
+        basePrice = isDealActive(standalone.deal, now)
+          ? dealUnitPrice(standalone, originalPrice) ?? originalPrice
+          : originalPrice;
+      }
+
+      const productName = input.product_name || product?.name || standalone?.product_name || 'Product';
+
+      if (basePrice === null) {
+        mismatches.push({
+          index,
+          product_id: input.product_id || null,
+          product_name: productName,
+          quantity,
+          client_unit_price: clientUnitPrice,
+          server_unit_price: null,
+          difference: null,
+          reason: 'unavailable',
+        });
+        return;
+      }
+
+      const unitPrice = roundMoney(Math.max(basePrice + variantAdjustment, 0));
+      lines.push({
+        index,
+        product_id: product ? product.id : null,
+        deal_product_id: standalone ? standalone.id : null,
+        product_name: productName,
+        quantity,
+        base_unit_price: roundMoney(basePrice),
+        variant_adjustment: roundMoney(variantAdjustment),
+        unit_price: unitPrice,
+        subtotal: roundMoney(unitPrice * quantity),
+        price_source: priceSource,
+        client_unit_price: clientUnitPrice,
+      });
+
+      if (clientUnitPrice !== null && Math.abs(clientUnitPrice - unitPrice) > tolerance) {
+        mismatches.push({
+          index,
+          product_id: input.product_id || null,
+          product_name: productName,
+          quantity,
+          client_unit_price: clientUnitPrice,
+          server_unit_price: unitPrice,
+          difference: roundMoney(unitPrice - clientUnitPrice),
+          reason: 'price_changed',
+        });
+      }
+    });
+
+    return {
+      lines,
+      mismatches,
+      subtotal: roundMoney(lines.reduce((sum, line) => sum + line.subtotal, 0)),
+    };
+  },
+};
@@ -0,0 +1,675 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { DEFAULT_PAYMENT_PROVIDER, paymentProviderService } from './paymentProvider.service';
+import type { PaymentProvider, ProviderTransaction } from './paymentProvider.service';
+import { CASH_PAYMENT_METHODS } from './cashPayment.service';
+import { transactionService } from './transaction.service';
+import { paymentVerificationService } from './paymentVerification.service';
+
+// Longer ranges should be split into several runs
+export const MAX_RECONCILIATION_DAYS = 31;
+const PROVIDER_PAGE_SIZE = 100;
+const MAX_PROVIDER_PAGES = 100;
+const QUERY_CHUNK_SIZE = 100;
+const AMOUNT_TOLERANCE = 0.01;
+const PAID_STATUSES = ['paid', 'partially_paid', 'refunded', 'partially_refunded'];
+
+export const RECONCILIATION_ITEM_TYPES = [
+  'orphan_charge',
+  'amount_mismatch',
+  'total_mismatch',
+  'missing_webhook',
+  'status_drift',
+] as const;
+export const RECONCILIATION_FIX_ACTIONS = [
+  'link_order',
+  'mark_paid',
+  'sync_amount',
+  'verify_total',
+  'sync_status',
+  'ignore',
+] as const;
+
+export type ReconciliationItemType = (typeof RECONCILIATION_ITEM_TYPES)[number];
+export type ReconciliationFixAction = (typeof RECONCILIATION_FIX_ACTIONS)[number];
+
+// The fixes that make sense for each kind of mismatch; any item can be ignored
+const FIXES_BY_TYPE: Record<ReconciliationItemType, ReconciliationFixAction[]> = {
+  orphan_charge: ['link_order', 'ignore'],
+  missing_webhook: ['mark_paid', 'ignore'],
+  amount_mismatch: ['sync_amount', 'ignore'],
+  total_mismatch: ['verify_total', 'ignore'],
+  status_drift: ['sync_status', 'ignore'],
+};
+
+type ReconciliationResult =
+  | { success: true; data: any }
+  | { success: false; status: number; message: string; data?: any };
+
+interface ReconciliationItemInput {
+  type: ReconciliationItemType;
+  reference: string | null;
+  transaction_id?: string | null;
+  order_id?: string | null;
+  provider_status?: string | null;
+  provider_amount?: number | null;
+  recorded_status?: string | null;
+  recorded_amount?: number | null;
+  details?: Record<string, unknown>;
+}
+
+const chunk = <T>(values: T[]) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += QUERY_CHUNK_SIZE) {
+    chunks.push(values.slice(i, i + QUERY_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+const toGhs = (pesewas: number) => Math.round(Number(pesewas) || 0) / 100;
+
+const amountsDiffer = (a: number, b: number) => Math.abs(Number(a) - Number(b)) > AMOUNT_TOLERANCE;
+
+// A short or over payment already checked against this order total (the order is partially paid or the refund flagged)
+const isVerifiedAgainstTotal = (transaction: any, chargeAmount: number, orderTotal: number) => {
+  const verification = transaction?.metadata?.amount_verification;
+  return (
+    !!verification &&
+    !amountsDiffer(verification.charged_amount, chargeAmount) &&
+    !amountsDiffer(verification.expected_amount, orderTotal)
+  );
+};
+
+// Every charge the provider reports for the range, page by page
+const fetchProviderCharges = async (provider: PaymentProvider, from: string, to: string) => {
+  const charges: ProviderTransaction[] = [];
+  for (let page = 1; page <= MAX_PROVIDER_PAGES; page++) {
+    const { transactions, hasMore } = await provider.listTransactions({ from, to, page, perPage: PROVIDER_PAGE_SIZE });
+    charges.push(...transactions);
+    if (!hasMore) return charges;
+  }
+  throw new Error(`More than ${MAX_PROVIDER_PAGES * PROVIDER_PAGE_SIZE} provider transactions in range; use a shorter range`);
+};
+
+const TRANSACTION_SELECT =
+  'id, order_id, transaction_reference, paystack_reference, amount, currency, status, payment_status, payment_method, payment_provider, paid_at, metadata';
+const ORDER_SELECT = 'id, order_number, user_id, total, status, payment_status, payment_method, shipping_address, created_at';
+
+const fetchTransactionsByReference = async (references: string[]) => {
+  const byId = new Map<string, any>();
+  for (const batch of chunk(references)) {
+    for (const column of ['transaction_reference', 'paystack_reference']) {
+      const { data, error } = await supabaseAdmin.from('transactions').select(TRANSACTION_SELECT).in(column, batch);
+      if (error) throw error;
+      (data || []).forEach((transaction: any) => byId.set(transaction.id, transaction));
+    }
+  }
+  return [...byId.values()];
+};
+
+const fetchOrdersByPaymentReference = async (references: string[]) => {
+  const orders: any[] = [];
+  for (const batch of chunk(references)) {
+    const { data, error } = await supabaseAdmin
+      .from('orders')
+      .select(ORDER_SELECT)
+      .in('shipping_address->>payment_reference', batch);
+    if (error) throw error;
+    orders.push(...(data || []));
+  }
+  return orders;
+};
+
+const fetchOrdersById = async (ids: string[]) => {
+  const orders: any[] = [];
+  for (const batch of chunk(ids)) {
+    const { data, error } = await supabaseAdmin.from('orders').select(ORDER_SELECT).in('id', batch);
+    if (error) throw error;
+    orders.push(...(data || []));
+  }
+  return orders;
+};
+
+/**
+ * Compare the provider's charges with our records. Charges are matched to a
+ * transaction by either of its references and to an order through that
+ * transaction or the order's payment reference.
+ */
+const classifyCharges = (charges: ProviderTransaction[], transactions: any[], orders: any[]) => {
+  const transactionsByReference = new Map<string, any>();
+  transactions.forEach((transaction) => {
+    if (transaction.transaction_reference) transactionsByReference.set(transaction.transaction_reference, transaction);
+    if (transaction.paystack_reference) transactionsByReference.set(transaction.paystack_reference, transaction);
+  });
+
+  const ordersById = new Map<string, any>(orders.map((order) => [order.id, order]));
+  const ordersByReference = new Map<string, any>();
+  orders.forEach((order) => {
+    const reference = order.shipping_address?.payment_reference;
+    if (reference) ordersByReference.set(reference, order);
+  });
+
+  const items: ReconciliationItemInput[] = [];
+  for (const charge of charges) {
+    const transaction = transactionsByReference.get(charge.reference) || null;
+    const order = (transaction?.order_id && ordersById.get(transaction.order_id)) || ordersByReference.get(charge.reference) || null;
+    const chargeAmount = toGhs(charge.amount);
+    const base = {
+      reference: charge.reference,
+      transaction_id: transaction?.id || null,
+      order_id: order?.id || null,
+      provider_status: charge.status,
+      provider_amount: chargeAmount,
+    };
+
+    if (charge.status !== 'success') {
+      // We think this charge paid, the provider does not
+      if (transaction && (transaction.status === 'success' || transaction.payment_status === 'paid')) {
+        items.push({
+          ...base,
+          type: 'status_drift',
+          recorded_status: transaction.payment_status,
+          recorded_amount: Number(transaction.amount),
+          details: { charge },
+        });
+      }
+      continue;
+    }
+
+    if (!order) {
+      items.push({
+        ...base,
+        type: 'orphan_charge',
+        recorded_status: transaction?.payment_status || null,
+        recorded_amount: transaction ? Number(transaction.amount) : null,
+        details: { charge, customer_email: charge.customer?.email || null },
+      });
+      continue;
+    }
+
+    const missingWebhook =
+      !PAID_STATUSES.includes(order.payment_status) ||
+      !transaction ||
+      transaction.order_id !== order.id ||
+      !PAID_STATUSES.includes(transaction.payment_status);
+
+    if (missingWebhook) {
+      items.push({
+        ...base,
+        type: 'missing_webhook',
+        recorded_status: order.payment_status,
+        recorded_amount: Number(order.total),
+        details: {
+          charge,
+          order_number: order.order_number,
+          order_status: order.status,
+          transaction_payment_status: transaction?.payment_status || null,
+        },
+      });
+    }
+
+    // Our transaction recorded a different amount than the provider charged
+    if (transaction && amountsDiffer(chargeAmount, transaction.amount)) {
+      items.push({
+        ...base,
+        type: 'amount_mismatch',
+        recorded_status: transaction.payment_status,
+        recorded_amount: Number(transaction.amount),
+        details: {
+          charge,
+          order_number: order.order_number,
+          transaction_amount: Number(transaction.amount),
+          currency: charge.currency,
+        },
+      });
+    }
+
+    // The charge does not cover the order total and was never checked against it
+    // (mark_paid on a missing_webhook item runs that check itself)
+    if (
+      !missingWebhook &&
+      amountsDiffer(chargeAmount, order.total) &&
+      !isVerifiedAgainstTotal(transaction, chargeAmount, order.total)
+    ) {
+      items.push({
+        ...base,
+        type: 'total_mismatch',
+        recorded_status: order.payment_status,
+        recorded_amount: Number(order.total),
+        details: {
+          charge,
+          order_number: order.order_number,
+          order_total: Number(order.total),
+          currency: charge.currency,
+        },
+      });
+    }
+  }
+  return items;
+};
+
+/**
+ * Online orders in the range marked paid without a successful charge among
+ * the provider's list. Charges are verified one by one before flagging, since
+ * a payment can fall just outside the listed range.
+ */
+const findUnbackedPaidOrders = async (
+  provider: PaymentProvider,
+  from: string,
+  to: string,
+  successfulReferences: Set<string>,
+  flaggedTransactionIds: Set<string>
+) => {
+  const { data: orders, error } = await supabaseAdmin
+    .from('orders')
+    .select(ORDER_SELECT)
+    .eq('payment_status', 'paid')
+    .not('payment_method', 'in', `(${CASH_PAYMENT_METHODS.join(',')})`)
+    .gte('created_at', from)
+    .lte('created_at', to);
+
+  if (error) throw error;
+  if (!orders || orders.length === 0) return [];
+
+  const transactionsByOrder = new Map<string, any[]>();
+  for (const ids of chunk(orders.map((order: any) => order.id))) {
+    const { data: transactions, error: transactionsError } = await supabaseAdmin
+      .from('transactions')
+      .select(TRANSACTION_SELECT)
+      .in('order_id', ids);
+    if (transactionsError) throw transactionsError;
+    (transactions || []).forEach((transaction: any) => {
+      transactionsByOrder.set(transaction.order_id, [...(transactionsByOrder.get(transaction.order_id) || []), transaction]);
+    });
+  }
+
+  const items: ReconciliationItemInput[] = [];
+  for (const order of orders) {
+    const transactions = transactionsByOrder.get(order.id) || [];
+
+    // Orders paid through another provider are checked by that provider's run
+    const recordedProvider = transactions.find((transaction) => transaction.payment_provider)?.payment_provider;
+    const orderProvider = recordedProvider
+      ? paymentProviderService.get(recordedProvider)
+      : await paymentProviderService.forMethod(order.payment_method).catch(() => null);
+    if (orderProvider !== provider) continue;
+
+    const references = [
+      ...new Set(
+        [
+          order.shipping_address?.payment_reference,
+          ...transactions.flatMap((transaction) => [transaction.transaction_reference, transaction.paystack_reference]),
+        ].filter((reference): reference is string => typeof reference === 'string' && !!reference)
+      ),
+    ];
+    if (references.some((reference) => successfulReferences.has(reference))) continue;
+    if (transactions.some((transaction) => flaggedTransactionIds.has(transaction.id))) continue;
+
+    let verified: ProviderTransaction | null = null;
+    for (const reference of references) {
+      const charge = await provider.verify(reference);
+      if (charge?.status === 'success') {
+        verified = charge;
+        break;
+      }
+    }
+    if (verified) continue;
+
+    items.push({
+      type: 'status_drift',
+      reference: references[0] || null,
+      transaction_id: transactions[0]?.id || null,
+      order_id: order.id,
+      provider_status: null,
+      provider_amount: null,
+      recorded_status: order.payment_status,
+      recorded_amount: Number(order.total),
+      details: { order_number: order.order_number, references },
+    });
+  }
+  return items;
+};
+
+// Make sure a charge has a transaction record, creating one from the provider's data if needed
+const ensureTransaction = async (charge: ProviderTransaction, providerName: string, order: any) => {
+  const { data: existing, error } = await supabaseAdmin
+    .from('transactions')
+    .select('id')
+    .or(`transaction_reference.eq.${charge.reference},paystack_reference.eq.${charge.reference}`)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existing) return existing.id as string;
+
+  const { data: created, error: insertError } = await supabaseAdmin
+    .from('transactions')
+    .insert({
+      order_id: order.id,
+      user_id: order.user_id || null,
+      transaction_reference: charge.reference,
+      paystack_reference: charge.reference,
+      payment_method: order.payment_method || 'paystack',
+      payment_provider: providerName,
+      amount: toGhs(charge.amount),
+      currency: charge.currency || 'GHS',
+      status: 'pending',
+      payment_status: 'pending',
+      customer_email: charge.customer?.email || charge.metadata?.customer_email || '',
+      customer_code: charge.customer?.customer_code || null,
+      channel: charge.channel || null,
+      metadata: { ...(charge.metadata || {}), recorded_by: 'reconciliation' },
+      initiated_at: charge.created_at ? new Date(charge.created_at).toISOString() : new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (insertError) throw insertError;
+  return created.id as string;
+};
+
+// Link the charge to the order and settle it there (paid, or partially paid if it fell short)
+const settleCharge = async (item: any, providerName: string, orderId: string): Promise<ReconciliationResult> => {
+  const charge: ProviderTransaction | undefined = item.details?.charge;
+  if (!charge) {
+    return { success: false, status: 409, message: 'This item has no provider charge to record' };
+  }
+
+  const { data: order, error: orderError } = await supabaseAdmin
+    .from('orders')
+    .select('id, order_number, user_id, payment_method, payment_status')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (orderError) throw orderError;
+  if (!order) {
+    return { success: false, status: 404, message: 'Order not found' };
+  }
+
+  const transactionId = await ensureTransaction(charge, providerName, order);
+  await transactionService.linkOrder(charge.reference, order.id);
+
+  const now = new Date().toISOString();
+  const { error: transactionError } = await supabaseAdmin
+    .from('transactions')
+    .update({
+      status: 'success',
+      paid_at: charge.paid_at ? new Date(charge.paid_at).toISOString() : now,
+      authorization_code: charge.authorization?.authorization_code || null,
+      updated_at: now,
+    })
+    .eq('id', transactionId);
+
+  if (transactionError) throw transactionError;
+
+  const { paymentStatus, verification } = await paymentVerificationService.settle(order.id, charge);
+  return {
+    success: true,
+    data: { transaction_id: transactionId, order_id: order.id, payment_status: paymentStatus, amount_verification: verification },
+  };
+};
+
+// Check the charge against the order total as the webhook would: a short payment leaves the
+// order partially paid and an overpayment is flagged for refund; the outcome is kept on the transaction
+const verifyTotal = async (item: any): Promise<ReconciliationResult> => {
+  const charge: ProviderTransaction | undefined = item.details?.charge;
+  if (!charge || !item.order_id) {
+    return { success: false, status: 409, message: 'This item has no charge and order to compare' };
+  }
+
+  const { paymentStatus, verification } = await paymentVerificationService.settle(item.order_id, charge);
+  return {
+    success: true,
+    data: { order_id: item.order_id, payment_status: paymentStatus, amount_verification: verification },
+  };
+};
+
+// Our records say paid but the provider has no successful charge: put them back to unpaid
+const revertPaidStatus = async (item: any): Promise<ReconciliationResult> => {
+  const now = new Date().toISOString();
+
+  if (item.transaction_id) {
+    const { error } = await supabaseAdmin
+      .from('transactions')
+      .update({ status: 'failed', payment_status: 'failed', updated_at: now })
+      .eq('id', item.transaction_id)
+      .eq('payment_status', 'paid');
+    if (error) throw error;
+  }
+
+  if (item.order_id) {
+    const { error } = await supabaseAdmin
+      .from('orders')
+      .update({ payment_status: 'pending', updated_at: now })
+      .eq('id', item.order_id)
+      .eq('payment_status', 'paid');
+    if (error) throw error;
+  }
+
+  return { success: true, data: { transaction_id: item.transaction_id, order_id: item.order_id } };
+};
+
+export const reconciliationService = {
+  /**
+   * Reconcile one provider's charges for a date range and store the
+   * mismatches as items of a new run. A run that fails part-way is kept
+   * with its error so the daily job does not silently skip a day.
+   */
+  async run(input: { from: Date; to: Date; provider?: string | null; actorId?: string | null }): Promise<ReconciliationResult> {
+    const provider = paymentProviderService.get(input.provider || DEFAULT_PAYMENT_PROVIDER);
+    if (!provider || !provider.isConfigured()) {
+      return { success: false, status: 400, message: `Payment provider "${input.provider || DEFAULT_PAYMENT_PROVIDER}" is not available` };
+    }
+    if (input.to <= input.from) {
+      return { success: false, status: 400, message: 'date_to must be after date_from' };
+    }
+    if (input.to.getTime() - input.from.getTime() > MAX_RECONCILIATION_DAYS * 24 * 60 * 60 * 1000) {
+      return { success: false, status: 400, message: `Date range cannot exceed ${MAX_RECONCILIATION_DAYS} days` };
+    }
+
+    const from = input.from.toISOString();
+    const to = input.to.toISOString();
+
+    const { data: run, error: runError } = await supabaseAdmin
+      .from('reconciliation_runs')
+      .insert({
+        provider: provider.name,
+        date_from: from,
+        date_to: to,
+        status: 'running',
+        triggered_by: input.actorId || null,
+      })
+      .select('*')
+      .single();
+
+    if (runError) throw runError;
+
+    try {
+      const charges = await fetchProviderCharges(provider, from, to);
+      const references = [...new Set(charges.map((charge) => charge.reference))];
+
+      const transactions = await fetchTransactionsByReference(references);
+      const linkedOrderIds = [...new Set(transactions.map((transaction) => transaction.order_id).filter(Boolean))];
+      const ordersById = new Map<string, any>();
+      [...(await fetchOrdersByPaymentReference(references)), ...(await fetchOrdersById(linkedOrderIds))].forEach((order) =>
+        ordersById.set(order.id, order)
+      );
+
+      const items = classifyCharges(charges, transactions, [...ordersById.values()]);
+      const successfulReferences = new Set(
+        charges.filter((charge) => charge.status === 'success').map((charge) => charge.reference)
+      );
+      const flaggedTransactionIds = new Set(items.map((item) => item.transaction_id).filter((id): id is string => !!id));
+      items.push(...(await findUnbackedPaidOrders(provider, from, to, successfulReferences, flaggedTransactionIds)));
+
+      for (const batch of chunk(items)) {
+        const { error: itemsError } = await supabaseAdmin
+          .from('reconciliation_items')
+          .insert(batch.map((item) => ({ ...item, run_id: run.id, details: item.details || {} })));
+        if (itemsError) throw itemsError;
+      }
+
+      const summary = {
+        charges: charges.length,
+        successful_charges: successfulReferences.size,
+        mismatches: items.length,
+        ...Object.fromEntries(
+          RECONCILIATION_ITEM_TYPES.map((type) => [type, items.filter((item) => item.type === type).length])
+        ),
+      };
+
+      const { data: completed, error: completeError } = await supabaseAdmin
+        .from('reconciliation_runs')
+        .update({ status: 'completed', summary, finished_at: new Date().toISOString() })
+        .eq('id', run.id)
+        .select('*')
+        .single();
+
+      if (completeError) throw completeError;
+      return { success: true, data: completed };
+    } catch (error) {
+      await supabaseAdmin
+        .from('reconciliation_runs')
+        .update({
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', run.id);
+      throw error;
+    }
+  },
+
+  // Whether the scheduled job already covered a range (a failed run is retried)
+  async hasRun(provider: string, from: Date, to: Date) {
+    const { data, error } = await supabaseAdmin
+      .from('reconciliation_runs')
+      .select('id')
+      .eq('provider', provider)
+      .eq('date_from', from.toISOString())
+      .eq('date_to', to.toISOString())
+      .in('status', ['running', 'completed'])
+      .limit(1);
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  },
+
+  async listRuns(filters: { provider?: string; status?: string; page: number; limit: number }) {
+    let query = supabaseAdmin
+      .from('reconciliation_runs')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range((filters.page - 1) * filters.limit, filters.page * filters.limit - 1);
+
+    if (filters.provider) query = query.eq('provider', filters.provider);
+    if (filters.status) query = query.eq('status', filters.status);
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+    return { runs: data || [], total: count || 0 };
+  },
+
+  async getRun(id: string, filters: { type?: string; status?: string } = {}) {
+    const { data: run, error } = await supabaseAdmin.from('reconciliation_runs').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    if (!run) return null;
+
+    let query = supabaseAdmin
+      .from('reconciliation_items')
+      .select('*')
+      .eq('run_id', id)
+      .order('created_at', { ascending: true });
+
+    if (filters.type) query = query.eq('type', filters.type);
+    if (filters.status) query = query.eq('status', filters.status);
+
+    const { data: items, error: itemsError } = await query;
+    if (itemsError) throw itemsError;
+    return { ...run, items: items || [] };
+  },
+
+  /**
+   * Apply a one-click fix to an open item: link an orphan charge to an order,
+   * record a charge whose webhook never arrived, take the provider's amount,
+   * settle a charge that does not match the order total, or revert a payment
+   * the provider never took. Ignoring closes the item as is.
+   */
+  async fixItem(
+    id: string,
+    action: ReconciliationFixAction,
+    options: { orderId?: string | null; actorId?: string | null } = {}
+  ): Promise<ReconciliationResult> {
+    const { data: item, error } = await supabaseAdmin
+      .from('reconciliation_items')
+      .select('*, run:reconciliation_runs(provider)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!item) {
+      return { success: false, status: 404, message: 'Reconciliation item not found' };
+    }
+    if (item.status !== 'open') {
+      return { success: false, status: 409, message: `This item is already ${item.status}` };
+    }
+
+    const allowed = FIXES_BY_TYPE[item.type as ReconciliationItemType] || ['ignore'];
+    if (!allowed.includes(action)) {
+      return {
+        success: false,
+        status: 400,
+        message: `Action "${action}" does not apply to ${item.type}. Use one of: ${allowed.join(', ')}`,
+      };
+    }
+
+    const providerName = item.run?.provider || DEFAULT_PAYMENT_PROVIDER;
+    let result: ReconciliationResult = { success: true, data: null };
+
+    if (action === 'link_order') {
+      if (!options.orderId) {
+        return { success: false, status: 400, message: 'order_id is required to link a charge to an order' };
+      }
+      result = await settleCharge(item, providerName, options.orderId);
+    } else if (action === 'mark_paid') {
+      if (!item.order_id) {
+        return { success: false, status: 409, message: 'This item has no order to mark as paid' };
+      }
+      result = await settleCharge(item, providerName, item.order_id);
+    } else if (action === 'sync_amount') {
+      if (!item.transaction_id) {
+        return { success: false, status: 409, message: 'This item has no transaction to update' };
+      }
+      const { error: updateError } = await supabaseAdmin
+        .from('transactions')
+        .update({ amount: item.provider_amount, updated_at: new Date().toISOString() })
+        .eq('id', item.transaction_id);
+      if (updateError) throw updateError;
+    } else if (action === 'verify_total') {
+      result = await verifyTotal(item);
+    } else if (action === 'sync_status') {
+      result = await revertPaidStatus(item);
+    }
+
+    if (!result.success) return result;
+
+    const { data: resolved, error: resolveError } = await supabaseAdmin
+      .from('reconciliation_items')
+      .update({
+        status: action === 'ignore' ? 'ignored' : 'resolved',
+        resolution: action,
+        resolved_by: options.actorId || null,
+        resolved_at: new Date().toISOString(),
+        ...(action === 'link_order' ? { order_id: options.orderId } : {}),
+      })
+      .eq('id', item.id)
+      .eq('status', 'open')
+      .select('*')
+      .maybeSingle();
+
+    if (resolveError) throw resolveError;
+    if (!resolved) {
+      return { success: false, status: 409, message: 'This item was resolved by someone else' };
+    }
+    return { success: true, data: resolved };
+  },
+};
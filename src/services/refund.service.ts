@@ -0,0 +1,318 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { paymentProviderService } from './paymentProvider.service';
+import enhancedEmailService from './enhanced-email.service';
+import { customerService } from './customer.service';
+
+const ORDER_WITH_CUSTOMER_SELECT = `
+  *,
+  user:users!orders_user_id_fkey(id, first_name, last_name, email),
+  customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+  order_items:order_items(*)
+`;
+
+export type RefundResult =
+  | { success: true; refund: any }
+  | { success: false; status: number; message: string; data?: Record<string, unknown> };
+
+type Actor = { id?: string | null } | null | undefined;
+
+const toAmount = (value: unknown) => Math.round((Number(value) || 0) * 100) / 100;
+
+export const refundService = {
+  async listRefunds(filters: { transaction_id?: string; order_id?: string } = {}) {
+    let query = supabaseAdmin.from('refunds').select('*').order('created_at', { ascending: false });
+
+    if (filters.transaction_id) query = query.eq('transaction_id', filters.transaction_id);
+    if (filters.order_id) query = query.eq('order_id', filters.order_id);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  },
+
+  async sumRefunds(transactionId: string, statuses: string[]) {
+    const { data, error } = await supabaseAdmin
+      .from('refunds')
+      .select('amount')
+      .eq('transaction_id', transactionId)
+      .in('status', statuses);
+
+    if (error) throw error;
+    return toAmount((data || []).reduce((sum: number, refund: any) => sum + (Number(refund.amount) || 0), 0));
+  },
+
+  /**
+   * Refund all or part of a paid transaction through its provider. The
+   * create_refund RPC locks the transaction while it checks the balance and
+   * writes the ledger row, so concurrent requests cannot refund the same
+   * amount twice; if the provider rejects the refund the row is marked failed.
+   */
+  async createRefund(
+    input: { transaction_id: string; amount?: number; reason?: string | null },
+    actor?: Actor
+  ): Promise<RefundResult> {
+    const { data: transaction, error: transactionError } = await supabaseAdmin
+      .from('transactions')
+      .select('*')
+      .eq('id', input.transaction_id)
+      .maybeSingle();
+
+    if (transactionError) throw transactionError;
+    if (!transaction) {
+      return { success: false, status: 404, message: 'Transaction not found' };
+    }
+
+    const provider = paymentProviderService.get(transaction.payment_provider);
+    if (!provider) {
+      return { success: false, status: 409, message: 'This payment cannot be refunded online' };
+    }
+
+    if (transaction.status !== 'success' || !['paid', 'partially_paid', 'partially_refunded'].includes(transaction.payment_status)) {
+      return {
+        success: false,
+        status: 409,
+        message: 'Only successful payments can be refunded',
+        data: { status: transaction.status, payment_status: transaction.payment_status },
+      };
+    }
+
+    const reference = transaction.paystack_reference || transaction.transaction_reference;
+    const { data: created, error: insertError } = await supabaseAdmin.rpc('create_refund', {
+      p_transaction_id: transaction.id,
+      p_amount: input.amount === undefined || input.amount === null ? null : toAmount(input.amount),
+      p_reason: input.reason || null,
+      p_provider: provider.name,
+      p_transaction_reference: reference,
+      p_requested_by: actor?.id || null,
+    });
+
+    if (insertError) throw insertError;
+
+    if (!created?.success) {
+      const refundable = toAmount(created?.refundable);
+      if (created?.reason === 'fully_refunded') {
+        return { success: false, status: 409, message: 'This payment has already been fully refunded' };
+      }
+      if (created?.reason === 'not_found') {
+        return { success: false, status: 404, message: 'Transaction not found' };
+      }
+      return {
+        success: false,
+        status: 400,
+        message: `Refund amount must be between GHS 0.01 and GHS ${refundable.toFixed(2)}`,
+        data: { refundable },
+      };
+    }
+
+    const refund = created.refund;
+    const amount = toAmount(refund.amount);
+
+    let providerRefund;
+    try {
+      providerRefund = await provider.refund({
+        reference,
+        amount: amount * 100,
+        ...(input.reason ? { note: input.reason } : {}),
+      });
+    } catch (error: any) {
+      const message = error.response?.data?.message || error.message || 'The payment provider rejected the refund';
+      await this.markFailed(refund, message);
+      return { success: false, status: 502, message, data: { refund_id: refund.id } };
+    }
+
+    // Only a still-pending row moves to processing; a webhook may already have settled it
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('refunds')
+      .update({
+        provider_refund_id: String(providerRefund.id),
+        status: 'processing',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', refund.id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!updated) {
+      const { data: settled, error: settledError } = await supabaseAdmin
+        .from('refunds')
+        .update({ provider_refund_id: String(providerRefund.id) })
+        .eq('id', refund.id)
+        .select('*')
+        .single();
+
+      if (settledError) throw settledError;
+      return { success: true, refund: settled };
+    }
+
+    // Providers usually settle refunds later (webhook), but may report them processed straight away
+    if (providerRefund.status === 'processed') {
+      return { success: true, refund: (await this.markProcessed(updated)) || updated };
+    }
+    return { success: true, refund: updated };
+  },
+
+  // Settle a refund from the provider's refund.processed / refund.failed webhook
+  async handleWebhookEvent(event: 'refund.processed' | 'refund.failed', data: any) {
+    const refund = await this.findRefundForEvent(data);
+    if (!refund) {
+      console.warn('⚠️  Refund webhook did not match any refund:', {
+        id: data?.id,
+        transaction_reference: data?.transaction_reference,
+      });
+      return;
+    }
+
+    if (event === 'refund.processed') {
+      await this.markProcessed(refund);
+    } else {
+      await this.markFailed(refund, data?.reason || data?.merchant_note || 'Refund failed at the payment provider');
+    }
+  },
+
+  async findRefundForEvent(data: any) {
+    if (data?.id) {
+      const { data: refund, error } = await supabaseAdmin
+        .from('refunds')
+        .select('*')
+        .eq('provider_refund_id', String(data.id))
+        .maybeSingle();
+
+      if (error) throw error;
+      if (refund) return refund;
+    }
+
+    // The refund may be reported before we stored the provider's id; match the oldest open one for the amount
+    if (!data?.transaction_reference) return null;
+    const { data: refunds, error } = await supabaseAdmin
+      .from('refunds')
+      .select('*')
+      .eq('transaction_reference', data.transaction_reference)
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    const amount = data.amount !== undefined ? toAmount(Number(data.amount) / 100) : null;
+    return (refunds || []).find((refund: any) => amount === null || toAmount(refund.amount) === amount) || null;
+  },
+
+  // Claim the refund as processed once, then update statuses and email the customer
+  async markProcessed(refund: any) {
+    const now = new Date().toISOString();
+    const { data: processed, error } = await supabaseAdmin
+      .from('refunds')
+      .update({ status: 'processed', processed_at: now, failure_reason: null, updated_at: now })
+      .eq('id', refund.id)
+      .in('status', ['pending', 'processing'])
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!processed) return null;
+
+    const fullyRefunded = await this.syncPaymentStatus(processed.transaction_id);
+    await this.notifyCustomer(processed, fullyRefunded);
+    return processed;
+  },
+
+  async markFailed(refund: any, reason: string) {
+    const { error } = await supabaseAdmin
+      .from('refunds')
+      .update({ status: 'failed', failure_reason: reason, updated_at: new Date().toISOString() })
+      .eq('id', refund.id)
+      .in('status', ['pending', 'processing']);
+
+    if (error) {
+      console.error(`Failed to mark refund ${refund.id} as failed:`, error);
+    }
+  },
+
+  /**
+   * Set the transaction and order payment status from the processed refunds:
+   * refunded once they cover the payment, partially_refunded before that.
+   * Refunding no more than a recorded overpayment leaves the payment paid.
+   * Returns whether the payment is now fully refunded.
+   */
+  async syncPaymentStatus(transactionId: string) {
+    const { data: transaction, error } = await supabaseAdmin
+      .from('transactions')
+      .select('id, order_id, amount, metadata')
+      .eq('id', transactionId)
+      .single();
+
+    if (error) throw error;
+
+    const refunded = await this.sumRefunds(transactionId, ['processed']);
+    const overpayment = transaction.metadata?.overpayment;
+    const overpaid = overpayment ? toAmount(overpayment.amount) : 0;
+    const fullyRefunded = refunded >= toAmount(transaction.amount);
+    const paymentStatus = fullyRefunded ? 'refunded' : refunded <= overpaid ? 'paid' : 'partially_refunded';
+    const now = new Date().toISOString();
+
+    const { error: transactionUpdateError } = await supabaseAdmin
+      .from('transactions')
+      .update({
+        payment_status: paymentStatus,
+        ...(fullyRefunded ? { status: 'refunded' } : {}),
+        ...(overpayment && refunded >= overpaid
+          ? { metadata: { ...transaction.metadata, overpayment: { ...overpayment, status: 'refunded' } } }
+          : {}),
+        updated_at: now,
+      })
+      .eq('id', transactionId);
+
+    if (transactionUpdateError) throw transactionUpdateError;
+
+    if (transaction.order_id) {
+      const { error: orderUpdateError } = await supabaseAdmin
+        .from('orders')
+        .update({ payment_status: paymentStatus, updated_at: now })
+        .eq('id', transaction.order_id);
+
+      if (orderUpdateError) throw orderUpdateError;
+    }
+
+    return fullyRefunded;
+  },
+
+  // Email the customer about a processed refund; errors are logged only
+  async notifyCustomer(refund: any, fullyRefunded: boolean) {
+    if (!refund.order_id) return;
+
+    try {
+      const { data: orderData, error } = await supabaseAdmin
+        .from('orders')
+        .select(ORDER_WITH_CUSTOMER_SELECT)
+        .eq('id', refund.order_id)
+        .single();
+
+      if (error || !orderData) {
+        console.warn('Could not load order for refund email:', error);
+        return;
+      }
+
+      const { email: customerEmail, name: customerName } = customerService.getOrderContact(orderData);
+
+      if (!customerEmail) {
+        console.warn('No email found for refund notification. Order:', refund.order_id);
+        return;
+      }
+
+      const result = await enhancedEmailService.sendRefundProcessed(
+        {
+          ...orderData,
+          customer_name: customerName,
+          customer_email: customerEmail,
+        },
+        { amount: toAmount(refund.amount), reason: refund.reason || null, fullyRefunded }
+      );
+
+      if (!result.success && !result.skipped) {
+        console.error('Failed to send refund email:', result.reason);
+      }
+    } catch (emailError: any) {
+      console.error('Error sending refund email:', emailError?.message || emailError);
+    }
+  },
+};
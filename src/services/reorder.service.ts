@@ -0,0 +1,131 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { CartLineInput } from './cart.service';
+import { inventoryService, normalizeVariantCombination } from './inventory.service';
+import { pricingService } from './pricing.service';
+
+export type ReorderItemStatus =
+  | 'added'
+  | 'partial'
+  | 'discontinued'
+  | 'out_of_stock'
+  | 'variant_unavailable'
+  | 'duplicate_product';
+
+export interface ReorderItem {
+  order_item_id: string;
+  product_id: string | null;
+  product_name: string;
+  selected_variants: Record<string, any>;
+  requested_quantity: number;
+  added_quantity: number;
+  status: ReorderItemStatus;
+  original_unit_price: number;
+  current_unit_price: number | null;
+  price_change: number | null;
+}
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+// order_items keeps the customer's choices in variant_options
+const variantsOf = (item: any): Record<string, any> | null => item.variant_options || item.selected_variants || null;
+
+export const reorderService = {
+  /**
+   * Map a past order's items onto today's catalogue. Each item is reported
+   * with its current price and what can be added: discontinued products and
+   * variants, and out-of-stock items are skipped, short stock is capped. The
+   * cart holds one row per product, so a second line for the same product is
+   * reported as a duplicate rather than overwriting the first.
+   */
+  async buildCartLines(orderItems: any[]): Promise<{ items: ReorderItem[]; lines: CartLineInput[] }> {
+    const productIds = Array.from(new Set(orderItems.map((item) => item.product_id).filter(Boolean)));
+
+    const [productsResult, pricing, variantStock] = await Promise.all([
+      productIds.length > 0
+        ? supabaseAdmin.from('products').select('id, name, stock_quantity').in('id', productIds)
+        : Promise.resolve({ data: [] as any[], error: null }),
+      pricingService.priceOrderItems(
+        orderItems.map((item) => ({
+          product_id: item.product_id || null,
+          product_name: item.product_name,
+          quantity: Number(item.quantity) || 1,
+          selected_variants: variantsOf(item),
+        })),
+        { tolerance: 0 }
+      ),
+      inventoryService.resolveVariantStock(
+        orderItems
+          .filter((item) => item.product_id)
+          .map((item) => ({
+            product_id: item.product_id,
+            quantity: Number(item.quantity) || 1,
+            selected_variants: variantsOf(item),
+          }))
+      ),
+    ]);
+
+    if (productsResult.error) throw productsResult.error;
+
+    const products = new Map((productsResult.data || []).map((product: any) => [product.id, product]));
+    const stockByLine = new Map(
+      variantStock.map((entry) => [`${entry.line.product_id}:${normalizeVariantCombination(entry.line.selected_variants)}`, entry])
+    );
+    const productsInCart = new Set<string>();
+
+    const items: ReorderItem[] = [];
+    const lines: CartLineInput[] = [];
+
+    orderItems.forEach((item, index) => {
+      const requested = Number(item.quantity) || 1;
+      const selectedVariants = variantsOf(item) || {};
+      const product: any = item.product_id ? products.get(item.product_id) : null;
+      const priced = pricing.lines.find((line) => line.index === index && line.product_id);
+      const originalUnitPrice = Number(item.unit_price) || 0;
+      const currentUnitPrice = product && priced ? priced.unit_price : null;
+
+      const base = {
+        order_item_id: item.id,
+        product_id: item.product_id || null,
+        product_name: product?.name || item.product_name || 'Product',
+        selected_variants: selectedVariants,
+        requested_quantity: requested,
+        original_unit_price: originalUnitPrice,
+        current_unit_price: currentUnitPrice,
+        price_change: currentUnitPrice === null ? null : roundMoney(currentUnitPrice - originalUnitPrice),
+      };
+
+      // Deal-only lines and deleted products have nothing to put in the cart
+      if (!product || currentUnitPrice === null) {
+        items.push({ ...base, added_quantity: 0, status: 'discontinued' });
+        return;
+      }
+
+      const stock = stockByLine.get(`${product.id}:${normalizeVariantCombination(variantsOf(item))}`);
+      if (stock?.tracked && !stock.variantStock) {
+        items.push({ ...base, added_quantity: 0, status: 'variant_unavailable' });
+        return;
+      }
+
+      const available = stock?.variantStock
+        ? stock.variantStock.is_available === false ? 0 : Number(stock.variantStock.stock_quantity) || 0
+        : Number(product.stock_quantity) || 0;
+
+      if (available <= 0) {
+        items.push({ ...base, added_quantity: 0, status: 'out_of_stock' });
+        return;
+      }
+
+      if (productsInCart.has(product.id)) {
+        items.push({ ...base, added_quantity: 0, status: 'duplicate_product' });
+        return;
+      }
+
+      const quantity = Math.min(requested, available);
+      productsInCart.add(product.id);
+      lines.push({ product_id: product.id, quantity, selected_variants: selectedVariants });
+      items.push({ ...base, added_quantity: quantity, status: quantity < requested ? 'partial' : 'added' });
+    });
+
+    return { items, lines };
+  },
+};
@@ -0,0 +1,399 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import enhancedEmailService from './enhanced-email.service';
+import { customerService } from './customer.service';
+import { OrderStatus, orderStatusService } from './orderStatus.service';
+
+export const SHIPMENT_STATUSES = ['pending', 'shipped', 'delivered', 'cancelled'] as const;
+
+export type ShipmentStatus = (typeof SHIPMENT_STATUSES)[number];
+
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  pending: ['shipped', 'delivered', 'cancelled'],
+  shipped: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+};
+
+// Order statuses that can still receive new shipments
+export const SHIPPABLE_ORDER_STATUSES = ['processing', 'partially_shipped'];
+
+export interface OrderItemShipmentSummary {
+  order_item_id: string;
+  product_name: string;
+  ordered: number;
+  allocated: number;
+  shipped: number;
+  delivered: number;
+  remaining: number;
+}
+
+export interface ShipmentInput {
+  items: Array<{ order_item_id: string; quantity: number }>;
+  carrier?: string | null;
+  tracking_number?: string | null;
+  tracking_url?: string | null;
+  status?: 'pending' | 'shipped' | 'delivered';
+  notes?: string | null;
+}
+
+export type CreateShipmentResult =
+  | { success: true; shipment: any; order_status: string }
+  | { success: false; status: number; message: string; data?: Record<string, unknown> };
+
+type Actor = { id?: string | null; role?: string | null } | null | undefined;
+
+const SHIPMENT_SELECT = '*, items:shipment_items(id, order_item_id, quantity)';
+
+const ORDER_WITH_CUSTOMER_SELECT = `
+  *,
+  user:users!orders_user_id_fkey(id, first_name, last_name, email),
+  customer:customers!orders_customer_id_fkey(id, full_name, email, phone, source),
+  order_items:order_items(*)
+`;
+
+export const shipmentService = {
+  async getShipments(orderId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .select(SHIPMENT_SELECT)
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getShipment(shipmentId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .select(SHIPMENT_SELECT)
+      .eq('id', shipmentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Customer-facing view: no internal notes or actor ids, failures yield an empty list
+  async getPublicShipments(orderId: string) {
+    try {
+      const shipments = await this.getShipments(orderId);
+      return shipments
+        .filter((shipment: any) => shipment.status !== 'cancelled')
+        .map((shipment: any) => this.toPublicShipment(shipment));
+    } catch (error) {
+      console.error(`Failed to fetch shipments for order ${orderId}:`, error);
+      return [];
+    }
+  },
+
+  // Customer-facing shipments of several orders in one query, keyed by order id
+  async getPublicShipmentsForOrders(orderIds: string[]) {
+    const byOrder = new Map<string, any[]>(orderIds.map((id) => [id, []]));
+    if (orderIds.length === 0) return byOrder;
+
+    const { data, error } = await supabaseAdmin
+      .from('shipments')
+      .select(SHIPMENT_SELECT)
+      .in('order_id', orderIds)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch shipments for orders:', error);
+      return byOrder;
+    }
+
+    for (const shipment of data || []) {
+      byOrder.get(shipment.order_id)?.push(this.toPublicShipment(shipment));
+    }
+    return byOrder;
+  },
+
+  toPublicShipment(shipment: any) {
+    return {
+      id: shipment.id,
+      status: shipment.status,
+      carrier: shipment.carrier,
+      tracking_number: shipment.tracking_number,
+      tracking_url: shipment.tracking_url,
+      shipped_at: shipment.shipped_at,
+      delivered_at: shipment.delivered_at,
+      items: (shipment.items || []).map((line: any) => ({
+        order_item_id: line.order_item_id,
+        quantity: line.quantity,
+      })),
+    };
+  },
+
+  /**
+   * Per order item: how much is ordered, allocated to live (non-cancelled)
+   * shipments, actually shipped, delivered and still left to ship.
+   */
+  summarize(orderItems: any[], shipments: any[]): OrderItemShipmentSummary[] {
+    return orderItems.map((item) => {
+      let allocated = 0;
+      let shipped = 0;
+      let delivered = 0;
+
+      for (const shipment of shipments) {
+        if (shipment.status === 'cancelled') continue;
+        const quantity = (shipment.items || [])
+          .filter((line: any) => line.order_item_id === item.id)
+          .reduce((sum: number, line: any) => sum + (Number(line.quantity) || 0), 0);
+
+        allocated += quantity;
+        if (shipment.status === 'shipped' || shipment.status === 'delivered') shipped += quantity;
+        if (shipment.status === 'delivered') delivered += quantity;
+      }
+
+      const ordered = Number(item.quantity) || 0;
+      return {
+        order_item_id: item.id,
+        product_name: item.product_name,
+        ordered,
+        allocated,
+        shipped,
+        delivered,
+        remaining: Math.max(ordered - allocated, 0),
+      };
+    });
+  },
+
+  /**
+   * Order status implied by its shipments, or null while nothing has shipped.
+   */
+  deriveOrderStatus(orderItems: any[], shipments: any[]): OrderStatus | null {
+    const summary = this.summarize(orderItems, shipments);
+    if (summary.length === 0 || summary.every((line) => line.shipped === 0)) return null;
+
+    const allShipped = summary.every((line) => line.shipped >= line.ordered);
+    if (!allShipped) return 'partially_shipped';
+
+    return summary.every((line) => line.delivered >= line.ordered) ? 'delivered' : 'shipped';
+  },
+
+  /**
+   * Move the order to the status its shipments imply and mirror the latest
+   * tracking number on orders.tracking_number. Only forward transitions are
+   * applied; the change is recorded in the status history.
+   */
+  async syncOrderStatus(orderId: string, changedBy?: { id?: string | null; role?: string | null } | null, note?: string | null) {
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select('id, status, tracking_number, order_items:order_items(id, product_name, quantity)')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError) throw orderError;
+
+    const shipments = await this.getShipments(orderId);
+    const derivedStatus = this.deriveOrderStatus(order.order_items || [], shipments);
+
+    const latestTracking = [...shipments]
+      .reverse()
+      .find((shipment: any) => shipment.status !== 'cancelled' && shipment.tracking_number)?.tracking_number || null;
+
+    const statusChanged =
+      !!derivedStatus && derivedStatus !== order.status && orderStatusService.canTransition(order.status, derivedStatus);
+    const trackingChanged = !!latestTracking && latestTracking !== order.tracking_number;
+
+    if (!statusChanged && !trackingChanged) {
+      return { previousStatus: order.status, status: order.status, changed: false };
+    }
+
+    const updateData: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (statusChanged) updateData.status = derivedStatus;
+    if (trackingChanged) updateData.tracking_number = latestTracking;
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('orders')
+      .update(updateData)
+      .eq('id', orderId)
+      .eq('status', order.status)
+      .select('id, status')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    if (!updated) {
+      // Status moved underneath us (e.g. cancelled); leave it alone
+      return { previousStatus: order.status, status: order.status, changed: false };
+    }
+
+    if (statusChanged) {
+      await orderStatusService.recordChange({
+        orderId,
+        fromStatus: order.status,
+        toStatus: derivedStatus!,
+        changedBy,
+        note: note || 'Updated from shipments',
+        trackingNumber: latestTracking,
+      });
+    }
+
+    return { previousStatus: order.status, status: updated.status, changed: statusChanged };
+  },
+
+  /**
+   * Create a shipment for some of an order's items, move the order along and
+   * email the customer once goods have left. Lines must belong to the order
+   * and fit in what is still left to ship.
+   */
+  async createShipment(orderId: string, input: ShipmentInput, createdBy?: Actor): Promise<CreateShipmentResult> {
+    const { items, carrier, tracking_number, tracking_url, notes } = input;
+    const status = input.status || 'shipped';
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select('id, status, order_items:order_items(id, product_name, quantity)')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+    if (!order) {
+      return { success: false, status: 404, message: 'Order not found' };
+    }
+
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      return {
+        success: false,
+        status: 409,
+        message: `Shipments can only be created for orders that are ${SHIPPABLE_ORDER_STATUSES.join(' or ')}`,
+        data: { current_status: order.status },
+      };
+    }
+
+    const existingShipments = await this.getShipments(orderId);
+    const summary = this.summarize(order.order_items || [], existingShipments);
+
+    const requested = new Map<string, number>();
+    for (const line of items) {
+      requested.set(line.order_item_id, (requested.get(line.order_item_id) || 0) + line.quantity);
+    }
+
+    const invalidItems = Array.from(requested.entries())
+      .map(([orderItemId, quantity]) => {
+        const itemSummary = summary.find((entry) => entry.order_item_id === orderItemId);
+        if (!itemSummary) {
+          return { order_item_id: orderItemId, requested: quantity, remaining: 0, reason: 'not_in_order' };
+        }
+        if (quantity > itemSummary.remaining) {
+          return { order_item_id: orderItemId, requested: quantity, remaining: itemSummary.remaining, reason: 'exceeds_remaining' };
+        }
+        return null;
+      })
+      .filter(Boolean);
+
+    if (invalidItems.length > 0) {
+      return {
+        success: false,
+        status: 400,
+        message: 'Some shipment items are not part of this order or exceed the quantity left to ship',
+        data: { invalid_items: invalidItems },
+      };
+    }
+
+    const now = new Date().toISOString();
+    const { data: shipment, error: shipmentError } = await supabaseAdmin
+      .from('shipments')
+      .insert({
+        order_id: orderId,
+        carrier: carrier || null,
+        tracking_number: tracking_number || null,
+        tracking_url: tracking_url || null,
+        status,
+        notes: notes || null,
+        shipped_at: status === 'shipped' || status === 'delivered' ? now : null,
+        delivered_at: status === 'delivered' ? now : null,
+        created_by: createdBy?.id || null,
+      })
+      .select()
+      .single();
+
+    if (shipmentError) throw shipmentError;
+
+    const { error: itemsError } = await supabaseAdmin
+      .from('shipment_items')
+      .insert(
+        Array.from(requested.entries()).map(([orderItemId, quantity]) => ({
+          shipment_id: shipment.id,
+          order_item_id: orderItemId,
+          quantity,
+        }))
+      );
+
+    if (itemsError) {
+      await supabaseAdmin.from('shipments').delete().eq('id', shipment.id);
+      throw itemsError;
+    }
+
+    const sync = await this.syncOrderStatus(orderId, createdBy, notes || null);
+    const savedShipment = await this.getShipment(shipment.id);
+
+    if (status === 'shipped' || status === 'delivered') {
+      await this.notifyCustomer(orderId, savedShipment);
+    }
+
+    return { success: true, shipment: savedShipment, order_status: sync.status };
+  },
+
+  // Shipment email to the customer; failures are logged, never thrown
+  async notifyCustomer(orderId: string, shipment: any) {
+    try {
+      const { data: orderData, error } = await supabaseAdmin
+        .from('orders')
+        .select(ORDER_WITH_CUSTOMER_SELECT)
+        .eq('id', orderId)
+        .single();
+
+      if (error || !orderData) {
+        console.warn('Could not load order for shipment email:', error);
+        return;
+      }
+
+      const { email: customerEmail, name: customerName } = customerService.getOrderContact(orderData);
+
+      if (!customerEmail) {
+        console.warn('No email found for shipment update. Order:', orderId);
+        return;
+      }
+
+      const orderItems = orderData.order_items || [];
+      const shipmentItems = (shipment.items || [])
+        .map((line: any) => {
+          const orderItem = orderItems.find((item: any) => item.id === line.order_item_id);
+          if (!orderItem) return null;
+          return {
+            ...orderItem,
+            quantity: line.quantity,
+            total_price: undefined,
+            subtotal: Number(orderItem.unit_price || 0) * line.quantity,
+          };
+        })
+        .filter(Boolean);
+
+      const shipments = await this.getShipments(orderId);
+      const remainingItemsCount = shipmentService
+        .summarize(orderItems, shipments)
+        .reduce((sum, line) => sum + Math.max(line.ordered - line.shipped, 0), 0);
+
+      const emailResult = await enhancedEmailService.sendShipmentUpdate(
+        {
+          ...orderData,
+          customer_name: customerName,
+          customer_email: customerEmail,
+        },
+        { ...shipment, items: shipmentItems },
+        remainingItemsCount
+      );
+
+      if (emailResult.skipped) {
+        console.log(`Shipment email skipped: ${emailResult.reason}`);
+      } else if (!emailResult.success) {
+        console.error('Failed to send shipment email:', emailResult.reason);
+      }
+    } catch (emailError: any) {
+      console.error('Error sending shipment email (shipment update still succeeded):', emailError?.message || emailError);
+    }
+  },
+};
@@ -0,0 +1,117 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+
+export type TaxType = 'percentage' | 'fixed';
+export type TaxScope = 'all' | 'products' | 'shipping' | 'total';
+
+export interface TaxRule {
+  id: string;
+  name: string;
+  rate: number;
+  type: TaxType;
+  applies_to: TaxScope;
+  priority: number;
+  compound: boolean;
+}
+
+export interface TaxLine {
+  tax_id: string;
+  name: string;
+  rate: number;
+  type: TaxType;
+  applies_to: TaxScope;
+  compound: boolean;
+  taxable_amount: number;
+  amount: number;
+}
+
+export interface TaxComputation {
+  total: number;
+  breakdown: TaxLine[];
+}
+
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+export const taxService = {
+  async getActiveTaxes(): Promise<TaxRule[]> {
+    const { data, error } = await supabaseAdmin
+      .from('taxes')
+      .select('id, name, rate, type, applies_to, priority, compound')
+      .eq('is_active', true)
+      .order('priority', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((tax: any) => ({
+      id: tax.id,
+      name: tax.name,
+      rate: Number(tax.rate) || 0,
+      type: tax.type === 'fixed' ? 'fixed' : 'percentage',
+      applies_to: (tax.applies_to || 'all') as TaxScope,
+      priority: Number(tax.priority) || 0,
+      compound: !!tax.compound,
+    }));
+  },
+
+  /**
+   * Compute every active tax for an order. `subtotal` must already have the
+   * discount applied. Products-scoped taxes use the subtotal, shipping-scoped
+   * taxes the delivery fee and `all`/`total` the two combined. Compound taxes
+   * (e.g. Ghana VAT on top of NHIL, GETFund and the COVID levy) are charged on
+   * their base plus the non-compound taxes evaluated before them.
+   */
+  calculate(rules: TaxRule[], amounts: { subtotal: number; shipping: number }): TaxComputation {
+    const subtotal = Math.max(0, Number(amounts.subtotal) || 0);
+    const shipping = Math.max(0, Number(amounts.shipping) || 0);
+    const breakdown: TaxLine[] = [];
+    let precedingTaxes = 0;
+
+    for (const rule of rules) {
+      const base =
+        rule.applies_to === 'products' ? subtotal : rule.applies_to === 'shipping' ? shipping : subtotal + shipping;
+      if (base <= 0) continue;
+
+      const taxableAmount = rule.compound ? base + precedingTaxes : base;
+      const amount = roundMoney(rule.type === 'fixed' ? rule.rate : taxableAmount * rule.rate);
+      if (amount <= 0) continue;
+
+      breakdown.push({
+        tax_id: rule.id,
+        name: rule.name,
+        rate: rule.rate,
+        type: rule.type,
+        applies_to: rule.applies_to,
+        compound: rule.compound,
+        taxable_amount: roundMoney(taxableAmount),
+        amount,
+      });
+
+      if (!rule.compound) {
+        precedingTaxes += amount;
+      }
+    }
+
+    return {
+      total: roundMoney(breakdown.reduce((sum, line) => sum + line.amount, 0)),
+      breakdown,
+    };
+  },
+
+  // Rebuild rules from a stored breakdown so an order keeps the rates it was placed with
+  rulesFromBreakdown(breakdown: TaxLine[]): TaxRule[] {
+    return breakdown.map((line, index) => ({
+      id: line.tax_id,
+      name: line.name,
+      rate: Number(line.rate) || 0,
+      type: line.type,
+      applies_to: line.applies_to,
+      priority: index,
+      compound: !!line.compound,
+    }));
+  },
+
+  async calculateOrderTax(amounts: { subtotal: number; shipping: number }): Promise<TaxComputation> {
+    const rules = await this.getActiveTaxes();
+    return this.calculate(rules, amounts);
+  },
+};
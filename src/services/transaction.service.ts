@@ -0,0 +1,80 @@
+import { supabaseAdmin } from '../utils/supabaseClient';
+import type { ProviderTransaction } from './paymentProvider.service';
+
+export const transactionService = {
+  // Attach the transaction(s) recorded under a reference to an order; returns how many were linked
+  async linkOrder(reference: string, orderId: string) {
+    const { data, error } = await supabaseAdmin
+      .from('transactions')
+      .update({
+        order_id: orderId,
+        updated_at: new Date().toISOString(),
+      })
+      .or(`transaction_reference.eq.${reference},paystack_reference.eq.${reference}`)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  },
+
+  /**
+   * Keep a successful charge that no order could be placed for. The
+   * transaction is stored as paid (so it can be refunded from the admin panel)
+   * with metadata.unplaced_order marking it for refund. Returns false when the
+   * charge was recorded like this already.
+   */
+  async recordUnplacedCharge(charge: ProviderTransaction, provider: string, reason: string) {
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('transactions')
+      .select('id, metadata')
+      .or(`transaction_reference.eq.${charge.reference},paystack_reference.eq.${charge.reference}`)
+      .limit(1)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    const now = new Date().toISOString();
+    const alreadyRecorded = Boolean(existing?.metadata?.unplaced_order);
+    const unplacedOrder = {
+      ...(existing?.metadata?.unplaced_order || { status: 'pending_refund', recorded_at: now }),
+      reason,
+    };
+
+    if (existing) {
+      const { error } = await supabaseAdmin
+        .from('transactions')
+        .update({
+          status: 'success',
+          payment_status: 'paid',
+          metadata: { ...(existing.metadata || {}), unplaced_order: unplacedOrder },
+          updated_at: now,
+        })
+        .eq('id', existing.id)
+        .not('payment_status', 'in', '(refunded,partially_refunded)');
+
+      if (error) throw error;
+    } else {
+      const metadata = charge.metadata || {};
+      const { error } = await supabaseAdmin.from('transactions').insert({
+        user_id: metadata.user_id && metadata.user_id !== 'guest' ? metadata.user_id : null,
+        transaction_reference: charge.reference,
+        paystack_reference: charge.reference,
+        payment_method: metadata.payment_method || 'paystack',
+        payment_provider: provider,
+        amount: (Number(charge.amount) || 0) / 100,
+        currency: charge.currency || 'GHS',
+        status: 'success',
+        payment_status: 'paid',
+        customer_email: charge.customer?.email || metadata.customer_email || '',
+        channel: charge.channel || null,
+        metadata: { ...metadata, unplaced_order: unplacedOrder },
+        initiated_at: now,
+        paid_at: charge.paid_at ? new Date(charge.paid_at).toISOString() : now,
+      });
+
+      if (error) throw error;
+    }
+
+    return !alreadyRecorded;
+  },
+};
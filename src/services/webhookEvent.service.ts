@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../utils/supabaseClient';
+import { isUniqueViolation } from './documentNumber.service';
+
+// A "processing" event older than this is treated as abandoned (e.g. the server restarted)
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Unsigned requests can come from anyone, so only the start of their body is kept
+const REJECTED_PAYLOAD_LIMIT = 1000;
+
+export const WEBHOOK_EVENT_STATUSES = ['received', 'processing', 'processed', 'failed', 'rejected'] as const;
+
+export type WebhookEventClaim = { duplicate: false; event: any } | { duplicate: true; event: any };
+
+const isStale = (event: any) =>
+  !event.last_attempt_at || Date.now() - new Date(event.last_attempt_at).getTime() > LOCK_TIMEOUT_MS;
+
+export const webhookEventService = {
+  // Paystack events carry no id of their own; the event type plus the payload's id identifies them
+  getEventId(payload: any, rawBody: string) {
+    if (payload?.id) return String(payload.id);
+    const dataId = payload?.data?.id ?? crypto.createHash('sha256').update(rawBody).digest('hex');
+    return `${payload?.event || 'unknown'}:${dataId}`;
+  },
+
+  getReference(payload: any): string | null {
+    return payload?.data?.reference || payload?.data?.transaction_reference || null;
+  },
+
+  async recordRejected(provider: string, payload: any, rawBody: string) {
+    const { error } = await supabaseAdmin.from('webhook_events').insert({
+      provider,
+      event_type: typeof payload?.event === 'string' ? payload.event.slice(0, 100) : null,
+      reference: String(this.getReference(payload) ?? '').slice(0, 100) || null,
+      payload: {
+        excerpt: rawBody.slice(0, REJECTED_PAYLOAD_LIMIT),
+        truncated: rawBody.length > REJECTED_PAYLOAD_LIMIT,
+        size: rawBody.length,
+      },
+      signature_valid: false,
+      status: 'rejected',
+      error: 'Invalid signature',
+    });
+
+    if (error) {
+      console.error('Failed to record rejected webhook event:', error);
+    }
+  },
+
+  /**
+   * Store a verified event and claim it for processing. Returns duplicate when
+   * the same event was already processed or is being processed right now;
+   * a failed earlier delivery is claimed again so provider retries can succeed.
+   */
+  async claim(provider: string, payload: any, rawBody: string): Promise<WebhookEventClaim> {
+    const now = new Date().toISOString();
+    const eventId = this.getEventId(payload, rawBody);
+
+    const { data: inserted, error: insertError } = await supabaseAdmin
+      .from('webhook_events')
+      .insert({
+        provider,
+        event_id: eventId,
+        event_type: payload?.event || null,
+        reference: this.getReference(payload),
+        payload,
+        signature_valid: true,
+        status: 'processing',
+        attempts: 1,
+        last_attempt_at: now,
+      })
+      .select('*')
+      .maybeSingle();
+
+    if (!insertError) {
+      return { duplicate: false, event: inserted };
+    }
+    if (!isUniqueViolation(insertError)) throw insertError;
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('webhook_events')
+      .select('*')
+      .eq('provider', provider)
+      .eq('event_id', eventId)
+      .single();
+
+    if (fetchError) throw fetchError;
+    if (existing.status === 'processed' || (existing.status === 'processing' && !isStale(existing))) {
+      return { duplicate: true, event: existing };
+    }
+
+    const reclaimed = await this.reclaim(existing, {});
+    return reclaimed ? { duplicate: false, event: reclaimed } : { duplicate: true, event: existing };
+  },
+
+  // Move an event back to processing if nobody else has in the meantime
+  async reclaim(event: any, extra: Record<string, unknown>) {
+    const { data, error } = await supabaseAdmin
+      .from('webhook_events')
+      .update({
+        ...extra,
+        status: 'processing',
+        error: null,
+        attempts: (event.attempts || 0) + 1,
+        last_attempt_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', event.id)
+      .eq('status', event.status)
+      .eq('attempts', event.attempts || 0)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Claim a failed event for an admin replay
+  async claimForReplay(id: string, actorId?: string | null) {
+    const event = await this.getEvent(id);
+    if (!event) {
+      return { success: false as const, status: 404, message: 'Webhook event not found' };
+    }
+    if (!event.signature_valid || event.status !== 'failed') {
+      return {
+        success: false as const,
+        status: 409,
+        message: 'Only failed events with a valid signature can be replayed',
+        data: { status: event.status, signature_valid: event.signature_valid },
+      };
+    }
+
+    const claimed = await this.reclaim(event, { replayed_by: actorId || null });
+    if (!claimed) {
+      return { success: false as const, status: 409, message: 'This event is already being replayed' };
+    }
+    return { success: true as const, event: claimed };
+  },
+
+  // Record how processing went; handler responses of 400 and above count as failures
+  async complete(id: string, responseStatus: number, body: any) {
+    const failed = responseStatus >= 400;
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabaseAdmin
+      .from('webhook_events')
+      .update({
+        status: failed ? 'failed' : 'processed',
+        response_status: responseStatus,
+        error: failed ? body?.error || body?.message || 'Processing failed' : null,
+        processed_at: failed ? null : now,
+        updated_at: now,
+      })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error(`Failed to record result of webhook event ${id}:`, error);
+      return null;
+    }
+    return data;
+  },
+
+  async getEvent(id: string) {
+    const { data, error } = await supabaseAdmin.from('webhook_events').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async listEvents(filters: {
+    status?: string;
+    provider?: string;
+    event_type?: string;
+    reference?: string;
+    page: number;
+    limit: number;
+  }) {
+    let query = supabaseAdmin
+      .from('webhook_events')
+      .select('*', { count: 'exact' })
+      .order('received_at', { ascending: false })
+      .range((filters.page - 1) * filters.limit, filters.page * filters.limit - 1);
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.provider) query = query.eq('provider', filters.provider);
+    if (filters.event_type) query = query.eq('event_type', filters.event_type);
+    if (filters.reference) query = query.eq('reference', filters.reference);
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+    return { events: data || [], total: count || 0 };
+  },
+};
@@ -97,12 +97,12 @@ export const orderCreateSchema = z.object({
   ]).optional().nullable().transform((val) => (val === '' ? null : val)),
   tax: z.number().min(0).optional().default(0),
   tax_rate: z.number().min(0).max(100).optional().nullable(), // Added for frontend compatibility
-  tax_breakdown: z.array(z.any()).optional().nullable(), // Added for frontend compatibility
+  tax_breakdown: z.array(z.any()).optional().nullable(), // Accepted for frontend compatibility; the server computes its own
   delivery_fee: z.number().min(0).optional().default(0),
   total: z.number().min(0),
-  payment_method: z.enum(['mobile_money', 'momo']),
+  payment_method: z.enum(['mobile_money', 'momo', 'cash_on_delivery', 'pay_on_pickup']),
   delivery_address: customerAddressSchema,
-  delivery_option: deliveryOptionSchema.optional().nullable(),
+  delivery_option: deliveryOptionSchema, // Required: the delivery fee is quoted from this option
   notes: z.string().max(500).optional().nullable(),
   payment_reference: z.string().optional().nullable(),
   order_items: z.array(orderItemSchema).min(1),
@@ -154,4 +154,216 @@ export const cartSyncSchema = z.object({
   items: z.array(cartItemSyncSchema).optional().default([]),
 });
 
+export const reorderSchema = z.object({
+  mode: z.enum(['replace', 'merge']).optional().default('replace'),
+  preview: z.boolean().optional().default(false),
+});
+
+export const deliveryOptionUpsertSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional().nullable(),
+  price: z.number().min(0),
+  estimated_days: z.number().int().positive().optional().nullable(),
+  type: z.enum(['delivery', 'pickup']).optional(),
+  is_active: z.boolean().optional(),
+  display_order: z.number().int().optional(),
+});
+
+export const deliveryZoneRateSchema = z.object({
+  name: z.string().max(255).optional().nullable(),
+  region: z.string().max(100).optional().nullable(),
+  city: z.string().max(100).optional().nullable(),
+  price: z.number().min(0),
+  price_per_kg: z.number().min(0).optional(),
+  min_weight: z.number().min(0).optional().nullable(),
+  max_weight: z.number().min(0).optional().nullable(),
+  min_order_value: z.number().min(0).optional().nullable(),
+  max_order_value: z.number().min(0).optional().nullable(),
+  free_shipping_threshold: z.number().min(0).optional().nullable(),
+  estimated_days: z.number().int().positive().optional().nullable(),
+  priority: z.number().int().optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const deliveryQuoteSchema = z.object({
+  address: customerAddressSchema.pick({ region: true, city: true }),
+  items: z.array(z.object({
+    product_id: z.string().uuid().optional().nullable(),
+    quantity: z.number().int().positive(),
+    selected_variants: z.record(z.string(), z.any()).optional().nullable(),
+  })).min(1),
+});
+
+export const shipmentCreateSchema = z.object({
+  items: z.array(z.object({
+    order_item_id: z.string().uuid(),
+    quantity: z.number().int().positive(),
+  })).min(1, 'At least one item is required'),
+  carrier: z.string().max(100).optional().nullable(),
+  tracking_number: z.string().max(255).optional().nullable(),
+  tracking_url: z.string().url().optional().nullable(),
+  status: z.enum(['pending', 'shipped', 'delivered']).optional().default('shipped'),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+export const shipmentUpdateSchema = z.object({
+  status: z.enum(['pending', 'shipped', 'delivered', 'cancelled']).optional(),
+  carrier: z.string().max(100).optional().nullable(),
+  tracking_number: z.string().max(255).optional().nullable(),
+  tracking_url: z.string().url().optional().nullable(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+export const orderItemsEditSchema = z.object({
+  items: z.array(z.object({
+    order_item_id: z.string().uuid().optional(),
+    product_id: z.string().uuid().optional(),
+    quantity: z.number().int().positive(),
+    selected_variants: z.record(z.string(), z.any()).optional().nullable(),
+  }).refine((item) => !!item.order_item_id || !!item.product_id, {
+    message: 'Each item needs an order_item_id (existing line) or a product_id (new line)',
+  })).min(1, 'An order needs at least one item'),
+  reprice_existing: z.boolean().optional().default(false),
+  notify_customer: z.boolean().optional().default(false),
+  reason: z.string().max(1000).optional().nullable(),
+});
+
+const draftOrderFields = {
+  customer_id: z.string().uuid().optional().nullable(),
+  user_id: z.string().uuid().optional().nullable(),
+  customer: z.object({
+    full_name: z.string().max(255).optional().nullable(),
+    email: z.string().email().optional().nullable(),
+    phone: z.string().max(50).optional().nullable(),
+  }).optional().nullable(),
+  items: z.array(z.object({
+    product_id: z.string().uuid().optional().nullable(),
+    deal_product_id: z.string().uuid().optional().nullable(),
+    quantity: z.number().int().positive(),
+    selected_variants: z.record(z.string(), z.any()).optional().nullable(),
+  }).refine((item) => !!item.product_id || !!item.deal_product_id, {
+    message: 'Each item needs a product_id or a deal_product_id',
+  })).min(1, 'At least one item is required'),
+  delivery_address: z.record(z.string(), z.any()).optional().nullable(),
+  delivery_option_id: z.string().uuid().optional().nullable(),
+  discount_code: z.string().max(100).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+};
+
+export const draftOrderCreateSchema = z.object(draftOrderFields).refine(
+  (draft) => !!draft.customer_id || !!draft.customer?.email || !!draft.customer?.phone,
+  { message: 'A customer_id or a customer email or phone is required' }
+);
+
+export const draftOrderUpdateSchema = z.object(draftOrderFields).partial();
+
+export const draftOrderSendSchema = z.object({
+  expires_in_days: z.number().int().min(1).max(90).optional(),
+  send_email: z.boolean().optional().default(true),
+});
+
+// Order search filter grammar; values are checked in orderSearchService.parseFilters
+const orderSearchFilterSchema = z.record(
+  z.string(),
+  z.union([z.string().max(500), z.number(), z.boolean(), z.array(z.string().max(100)).max(20)])
+);
+
+const bulkOrderSelectionFields = {
+  order_ids: z.array(z.string().uuid()).min(1).max(100).optional(),
+  filter: orderSearchFilterSchema.optional(),
+};
+
+const hasBulkSelection = (body: { order_ids?: string[]; filter?: object }) => !!body.order_ids || !!body.filter;
+const bulkSelectionMessage = { message: 'Provide order_ids or a filter' };
+
+export const bulkOrderStatusSchema = z.object({
+  ...bulkOrderSelectionFields,
+  status: z.enum(['pending', 'processing', 'partially_shipped', 'shipped', 'ready_for_pickup', 'delivered', 'cancelled']),
+  notes: z.string().max(1000).optional().nullable(),
+}).refine(hasBulkSelection, bulkSelectionMessage);
+
+export const bulkOrderDocumentsSchema = z.object({
+  ...bulkOrderSelectionFields,
+  type: z.enum(['invoice', 'packing_slip']).optional().default('invoice'),
+}).refine(hasBulkSelection, bulkSelectionMessage);
 
+const savedOrderSearchFields = {
+  name: z.string().trim().min(1).max(100),
+  filters: orderSearchFilterSchema,
+  sort: z.string().max(50).optional(),
+  direction: z.enum(['asc', 'desc']).optional(),
+};
+
+export const savedOrderSearchSchema = z.object(savedOrderSearchFields);
+
+export const savedOrderSearchUpdateSchema = z.object(savedOrderSearchFields).partial();
+
+export const refundCreateSchema = z.object({
+  transaction_id: z.string().uuid(),
+  // GHS; the whole remaining amount when omitted
+  amount: z.number().positive().optional(),
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+export const cashPaymentOptionsSchema = z.object({
+  total: z.number().min(0),
+  region: z.string().max(100).optional().nullable(),
+  delivery_option_id: z.string().uuid().optional().nullable(),
+});
+
+export const cashCollectionSchema = z.object({
+  amount: z.number().positive().optional(),
+  reference: z.string().trim().max(100).optional().nullable(),
+  notes: z.string().max(500).optional().nullable(),
+});
+
+export const pickupVerifySchema = z.object({
+  order_number: z.string().trim().min(1, 'Order number is required').max(50),
+  code: z.string().trim().min(4, 'Pickup code is required').max(12),
+  phone: z.string().trim().min(7, 'Phone number is required').max(20),
+  // Pay-on-pickup orders: staff confirm the cash was taken at the counter
+  cash_collected: z.boolean().optional(),
+  cash_reference: z.string().trim().max(100).optional().nullable(),
+});
+
+export const customerFlagSchema = z.object({
+  flagged: z.boolean(),
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+export const orderAccessReturnSchema = z.object({
+  reason: z.string().trim().min(3, 'Please tell us why you are returning this order').max(2000),
+  photos: z.array(z.string().url()).max(10).optional(),
+});
+
+export const orderAccessLinkSchema = z.object({
+  expires_in_days: z.number().int().min(1).max(365).optional(),
+});
+
+const isDateString = (value: string) => !Number.isNaN(Date.parse(value));
+
+export const reconciliationRunSchema = z.object({
+  date_from: z.string().refine(isDateString, { message: 'Invalid date' }),
+  date_to: z.string().refine(isDateString, { message: 'Invalid date' }),
+  provider: z.string().trim().max(50).optional().nullable(),
+});
+
+export const reconciliationFixSchema = z.object({
+  action: z.enum(['link_order', 'mark_paid', 'sync_amount', 'verify_total', 'sync_status', 'ignore']),
+  // Required for link_order
+  order_id: z.string().uuid().optional().nullable(),
+});
+
+export const mobileMoneyChargeSchema = z.object({
+  email: z.string().email('A valid email is required'),
+  amount: z.number().int().positive(), // pesewas
+  reference: z.string().trim().min(1).max(100),
+  phone: z.string().trim().min(9).max(20),
+  provider: z.enum(['mtn', 'vod', 'atl']),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const mobileMoneyOtpSchema = z.object({
+  reference: z.string().trim().min(1).max(100),
+  otp: z.string().trim().regex(/^\d{4,8}$/, 'Enter the code sent to your phone'),
+});